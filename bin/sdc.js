@@ -0,0 +1,7 @@
+#!/usr/bin/env node
+// Runs the TypeScript CLI directly, the services are shared with the web app. That is why
+// tsx is a dependency rather than a devDependency: installs of the bin need it too
+import { register } from 'tsx/esm/api';
+
+register();
+await import('../src/cli/index.ts');
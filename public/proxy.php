@@ -41,6 +41,25 @@ define('CSAJAX_SUPPRESS_EXPECT', false);
  */
 define('CSAJAX_DEBUG', false);
 
+/**
+ * Shared token the frontend sends as `cstoken`. Requests without it are refused
+ * with a 401. Leave empty to accept every request, which is only advisable for
+ * a proxy that listens on localhost. Read from the CSAJAX_TOKEN environment
+ * variable; build the frontend with the same value in VITE_PROXY_TOKEN.
+ */
+define('CSAJAX_TOKEN', (string) getenv('CSAJAX_TOKEN'));
+
+/**
+ * Largest response passed on, in bytes. Larger responses are cut off with a 502.
+ */
+define('CSAJAX_MAX_BYTES', 10 * 1024 * 1024);
+
+/**
+ * Seconds allowed to connect to the site, and for the whole request.
+ */
+define('CSAJAX_CONNECT_TIMEOUT', 5);
+define('CSAJAX_TIMEOUT', 20);
+
 /**
  * A set of valid cross domain requests
  */
@@ -51,7 +70,8 @@ $valid_requests = array(
 /**
  * Set extra multiple options for cURL
  * Could be used to define CURLOPT_SSL_VERIFYPEER & CURLOPT_SSL_VERIFYHOST for HTTPS
- * Also to overwrite any other options without changing the code
+ * Also to overwrite any other options without changing the code, except the
+ * ones that keep the proxy safe (protocols, redirects, address, limits)
  * See http://php.net/manual/en/function.curl-setopt-array.php
  */
 $curl_options = array(
@@ -61,39 +81,55 @@ $curl_options = array(
 
 /* * * STOP EDITING HERE UNLESS YOU KNOW WHAT YOU ARE DOING * * */
 
+/**
+ * Addresses the proxy never connects to: loopback, private, link-local,
+ * carrier-grade NAT, multicast and reserved ranges, for IPv4 and IPv6.
+ * IPv4-mapped and NAT64 IPv6 addresses are refused as a whole.
+ */
+define('CSAJAX_BLOCKED_NETWORKS', array(
+    '0.0.0.0/8', '10.0.0.0/8', '100.64.0.0/10', '127.0.0.0/8', '169.254.0.0/16',
+    '172.16.0.0/12', '192.0.0.0/24', '192.168.0.0/16', '198.18.0.0/15', '224.0.0.0/4', '240.0.0.0/4',
+    '::/128', '::1/128', '::ffff:0:0/96', '64:ff9b::/96', 'fc00::/7', 'fe80::/10', 'ff00::/8'
+));
+
+/**
+ * The only request headers passed on to the site. Cookies, authorization and
+ * anything else the browser sends to the proxy stay with the proxy.
+ */
+define('CSAJAX_FORWARDED_HEADERS', array(
+    'Accept', 'Accept-Language', 'User-Agent', 'Cache-Control', 'If-None-Match', 'If-Modified-Since'
+));
+
+// only GET: the crawler never sends anything else, and neither should anyone else
+$request_method = $_SERVER['REQUEST_METHOD'];
+if ('GET' != $request_method) {
+    header('Allow: GET');
+    csajax_error(405, 'Only GET requests are proxied');
+}
+
+if (CSAJAX_TOKEN !== '' && !hash_equals(CSAJAX_TOKEN, isset($_GET['cstoken']) ? (string) $_GET['cstoken'] : '')) {
+    csajax_error(401, 'Missing or wrong proxy token');
+}
+
 // identify request headers
 $request_headers = array( );
 foreach ($_SERVER as $key => $value) {
-    if (strpos($key, 'HTTP_') === 0  ||  strpos($key, 'CONTENT_') === 0) {
+    if (strpos($key, 'HTTP_') === 0) {
         $headername = str_replace('_', ' ', str_replace('HTTP_', '', $key));
         $headername = str_replace(' ', '-', ucwords(strtolower($headername)));
-        if (!in_array($headername, array( 'Host', 'X-Proxy-Url' ))) {
+        if (in_array($headername, CSAJAX_FORWARDED_HEADERS)) {
             $request_headers[] = "$headername: $value";
         }
     }
 }
 
-// identify request method, url and params
-$request_method = $_SERVER['REQUEST_METHOD'];
-if ('GET' == $request_method) {
-    $request_params = $_GET;
-} elseif ('POST' == $request_method) {
-    $request_params = $_POST;
-    if (empty($request_params)) {
-        $data = file_get_contents('php://input');
-        if (!empty($data)) {
-            $request_params = $data;
-        }
-    }
-} elseif ('PUT' == $request_method || 'DELETE' == $request_method) {
-    $request_params = file_get_contents('php://input');
-} else {
-    $request_params = null;
-}
+// identify request params
+$request_params = $_GET;
 
-// Get URL from `csurl` in GET or POST data, before falling back to X-Proxy-URL header.
-if (isset($_REQUEST['csurl'])) {
-    $request_url = urldecode($_REQUEST['csurl']);
+// Get URL from `csurl`, before falling back to X-Proxy-URL header.
+// $_GET is decoded already; decoding it again would turn %2F or %26 in the URL into / and &
+if (isset($_GET['csurl'])) {
+    $request_url = $_GET['csurl'];
 } elseif (isset($_SERVER['HTTP_X_PROXY_URL'])) {
     $request_url = urldecode($_SERVER['HTTP_X_PROXY_URL']);
 } else {
@@ -105,17 +141,28 @@ if (isset($_REQUEST['csurl'])) {
 
 $p_request_url = parse_url($request_url);
 
-// csurl may exist in GET request methods
-if (is_array($request_params) && array_key_exists('csurl', $request_params)) {
-    unset($request_params['csurl']);
-}
+// With `csmanual`, redirects are reported instead of passed on: the response is a 200
+// with the site's status and Location in X-Proxy-Status and X-Proxy-Location headers.
+$manual_redirects = isset($_GET['csmanual']);
+
+// the proxy's own parameters aren't passed on to the site
+unset($request_params['csurl'], $request_params['csmanual'], $request_params['cstoken']);
 
 // ignore requests for proxy :)
-if (preg_match('!' . $_SERVER['SCRIPT_NAME'] . '!', $request_url) || empty($request_url) || count($p_request_url) == 1) {
+if (preg_match('!' . $_SERVER['SCRIPT_NAME'] . '!', $request_url) || empty($request_url) || !is_array($p_request_url) || count($p_request_url) == 1) {
     csajax_debug_message('Invalid request - make sure that csurl variable is not empty');
     exit;
 }
 
+// only http(s) URLs without credentials
+$scheme = isset($p_request_url['scheme']) ? strtolower($p_request_url['scheme']) : '';
+if (!in_array($scheme, array( 'http', 'https' )) || empty($p_request_url['host'])) {
+    csajax_error(400, 'Only http and https URLs are proxied');
+}
+if (isset($p_request_url['user']) || isset($p_request_url['pass'])) {
+    csajax_error(400, 'URLs with credentials are not proxied');
+}
+
 // check against valid requests
 if (CSAJAX_FILTERS) {
     $parsed = $p_request_url;
@@ -126,7 +173,6 @@ if (CSAJAX_FILTERS) {
         }
     } else {
         $check_url = isset($parsed['scheme']) ? $parsed['scheme'] . '://' : '';
-        $check_url .= isset($parsed['user']) ? $parsed['user'] . ($parsed['pass'] ? ':' . $parsed['pass'] : '') . '@' : '';
         $check_url .= isset($parsed['host']) ? $parsed['host'] : '';
         $check_url .= isset($parsed['port']) ? ':' . $parsed['port'] : '';
         $check_url .= isset($parsed['path']) ? $parsed['path'] : '';
@@ -137,8 +183,29 @@ if (CSAJAX_FILTERS) {
     }
 }
 
-// append query string for GET requests
-if ($request_method == 'GET' && count($request_params) > 0 && (!array_key_exists('query', $p_request_url) || empty($p_request_url['query']))) {
+// Resolve the host once and refuse it if any of its addresses is internal. cURL is then
+// pinned to the checked address, so a second lookup can't swap in another one.
+$host = trim($p_request_url['host'], '[]');
+$port = isset($p_request_url['port']) ? $p_request_url['port'] : ('https' == $scheme ? 443 : 80);
+$addresses = csajax_resolve_host($host);
+if (empty($addresses)) {
+    csajax_error(502, 'Could not resolve ' . $host);
+}
+foreach ($addresses as $address) {
+    if (!csajax_is_public_address($address)) {
+        csajax_error(403, 'Refusing to connect to the internal address of ' . $host);
+    }
+}
+
+// Rebuild the URL from the parts that were checked and pinned above, so cURL can't read
+// a different host out of the raw string than parse_url did
+$request_url = $scheme . '://' . (strpos($host, ':') === false ? $host : '[' . $host . ']');
+$request_url .= isset($p_request_url['port']) ? ':' . $p_request_url['port'] : '';
+$request_url .= isset($p_request_url['path']) ? $p_request_url['path'] : '/';
+if (isset($p_request_url['query']) && '' !== $p_request_url['query']) {
+    $request_url .= '?' . $p_request_url['query'];
+} elseif (count($request_params) > 0) {
+    // append query string for GET requests
     $request_url .= '?' . http_build_query($request_params);
 }
 
@@ -150,44 +217,78 @@ if (CSAJAX_SUPPRESS_EXPECT) {
     array_push($request_headers, 'Expect:'); 
 }
 
-curl_setopt($ch, CURLOPT_HTTPHEADER, $request_headers);   // (re-)send headers
-curl_setopt($ch, CURLOPT_RETURNTRANSFER, true);     // return response
-curl_setopt($ch, CURLOPT_HEADER, true);       // enabled response headers
-// add data for POST, PUT or DELETE requests
-if ('POST' == $request_method) {
-    $post_data = is_array($request_params) ? http_build_query($request_params) : $request_params;
-    curl_setopt($ch, CURLOPT_POST, true);
-    curl_setopt($ch, CURLOPT_POSTFIELDS,  $post_data);
-} elseif ('PUT' == $request_method || 'DELETE' == $request_method) {
-    curl_setopt($ch, CURLOPT_CUSTOMREQUEST, $request_method);
-    curl_setopt($ch, CURLOPT_POSTFIELDS, $request_params);
-}
-
 // Set multiple options for curl according to configuration
 if (is_array($curl_options) && 0 <= count($curl_options)) {
     curl_setopt_array($ch, $curl_options);
 }
 
+curl_setopt($ch, CURLOPT_HTTPHEADER, $request_headers);   // (re-)send the allowed headers
+curl_setopt($ch, CURLOPT_RETURNTRANSFER, true);     // return response
+curl_setopt($ch, CURLOPT_HEADER, true);       // enabled response headers
+curl_setopt($ch, CURLOPT_HTTPGET, true);
+// Redirects come back to the client, and go through these checks again when requested
+curl_setopt($ch, CURLOPT_FOLLOWLOCATION, false);
+curl_setopt($ch, CURLOPT_PROTOCOLS, CURLPROTO_HTTP | CURLPROTO_HTTPS);
+$pinned_address = strpos($addresses[0], ':') === false ? $addresses[0] : '[' . $addresses[0] . ']';
+curl_setopt($ch, CURLOPT_RESOLVE, array( "$host:$port:$pinned_address" ));
+curl_setopt($ch, CURLOPT_CONNECTTIMEOUT, CSAJAX_CONNECT_TIMEOUT);
+curl_setopt($ch, CURLOPT_TIMEOUT, CSAJAX_TIMEOUT);
+// MAXFILESIZE only helps when the site sends a Content-Length, so also count while downloading
+curl_setopt($ch, CURLOPT_MAXFILESIZE, CSAJAX_MAX_BYTES);
+curl_setopt($ch, CURLOPT_NOPROGRESS, false);
+curl_setopt($ch, CURLOPT_PROGRESSFUNCTION, function ($ch, $download_size, $downloaded) {
+    return $downloaded > CSAJAX_MAX_BYTES ? 1 : 0;
+});
+
 // retrieve response (headers and content)
 $response = curl_exec($ch);
+$response_status = curl_getinfo($ch, CURLINFO_HTTP_CODE);
+$curl_error = curl_errno($ch);
 curl_close($ch);
 
+if (false === $response) {
+    if (CURLE_OPERATION_TIMEDOUT == $curl_error) {
+        csajax_error(504, 'The site did not answer within ' . CSAJAX_TIMEOUT . ' seconds');
+    }
+    if (CURLE_ABORTED_BY_CALLBACK == $curl_error || CURLE_FILESIZE_EXCEEDED == $curl_error) {
+        csajax_error(502, 'The response is larger than ' . CSAJAX_MAX_BYTES . ' bytes');
+    }
+    csajax_error(502, 'Could not fetch ' . $request_url);
+}
+
 // split response to header and content
-list($response_headers, $response_content) = preg_split('/(\r\n){2}/', $response, 2);
+list($response_headers, $response_content) = array_pad(preg_split('/(\r\n){2}/', $response, 2), 2, '');
 
 // (re-)send the headers
 $response_headers = preg_split('/(\r\n){1}/', $response_headers);
 foreach ($response_headers as $key => $response_header) {
     // Rewrite the `Location` header, so clients will also use the proxy for redirects.
-    if (preg_match('/^Location:/', $response_header)) {
-        list($header, $value) = preg_split('/: /', $response_header, 2);
-        $response_header = 'Location: ' . $_SERVER['REQUEST_URI'] . '?csurl=' . $value;
+    if (preg_match('/^Location:/i', $response_header)) {
+        list($header, $value) = preg_split('/:\s*/', $response_header, 2);
+        if ($manual_redirects) {
+            header('X-Proxy-Location: ' . $value);
+            continue;
+        }
+        $location_params = array( 'csurl' => csajax_resolve_url($request_url, $value) );
+        if (isset($_GET['cstoken'])) {
+            $location_params['cstoken'] = $_GET['cstoken'];
+        }
+        $response_header = 'Location: ' . $_SERVER['SCRIPT_NAME'] . '?' . http_build_query($location_params);
     }
-    if (!preg_match('/^(Transfer-Encoding):/', $response_header)) {
+    // the site's cookies are not the proxy's to set
+    if (!preg_match('/^(Transfer-Encoding|Set-Cookie|Set-Cookie2):/i', $response_header)) {
         header($response_header, false);
     }
 }
 
+if ($manual_redirects) {
+    header('X-Proxy-Status: ' . $response_status);
+    header('Access-Control-Expose-Headers: X-Proxy-Status, X-Proxy-Location');
+    if ($response_status >= 300 && $response_status < 400) {
+        http_response_code(200);
+    }
+}
+
 // finally, output the content
 print($response_content);
 
@@ -197,3 +298,74 @@ function csajax_debug_message($message)
         print $message . PHP_EOL;
     }
 }
+
+// Answers with the proxy's own error, without X-Proxy-Status so clients can tell it from the site's
+function csajax_error($status, $message)
+{
+    http_response_code($status);
+    header('Content-Type: text/plain; charset=utf-8');
+    print $message . PHP_EOL;
+    exit;
+}
+
+// All IPv4 and IPv6 addresses of a host, or the host itself when it is an address
+function csajax_resolve_host($host)
+{
+    if (filter_var($host, FILTER_VALIDATE_IP)) {
+        return array( $host );
+    }
+    $addresses = gethostbynamel($host);
+    $addresses = is_array($addresses) ? $addresses : array( );
+    $records = @dns_get_record($host, DNS_AAAA);
+    if (is_array($records)) {
+        foreach ($records as $record) {
+            if (isset($record['ipv6'])) {
+                $addresses[] = $record['ipv6'];
+            }
+        }
+    }
+    return $addresses;
+}
+
+function csajax_is_public_address($address)
+{
+    $packed = @inet_pton($address);
+    if (false === $packed) {
+        return false;
+    }
+    foreach (CSAJAX_BLOCKED_NETWORKS as $network) {
+        list($subnet, $bits) = explode('/', $network);
+        $subnet = inet_pton($subnet);
+        if (strlen($subnet) != strlen($packed)) {
+            continue;
+        }
+        $bits = (int) $bits;
+        $bytes = intdiv($bits, 8);
+        if (substr($packed, 0, $bytes) !== substr($subnet, 0, $bytes)) {
+            continue;
+        }
+        $mask = (0xff << (8 - $bits % 8)) & 0xff;
+        if (0 == $bits % 8 || (ord($packed[$bytes]) & $mask) == (ord($subnet[$bytes]) & $mask)) {
+            return false;
+        }
+    }
+    return true;
+}
+
+// Resolves a Location header against the URL it was sent for
+function csajax_resolve_url($base, $location)
+{
+    if (preg_match('!^[a-z][a-z0-9+.-]*:!i', $location)) {
+        return $location;
+    }
+    $parts = parse_url($base);
+    $origin = $parts['scheme'] . '://' . $parts['host'] . (isset($parts['port']) ? ':' . $parts['port'] : '');
+    if (strpos($location, '//') === 0) {
+        return $parts['scheme'] . ':' . $location;
+    }
+    if (strpos($location, '/') === 0) {
+        return $origin . $location;
+    }
+    $path = isset($parts['path']) ? $parts['path'] : '/';
+    return $origin . substr($path, 0, strrpos($path, '/') + 1) . $location;
+}
@@ -0,0 +1,104 @@
+/**
+ * Generates src/data/schemaOrgVocabulary.json from the schema.org type
+ * definitions shipped with the schema-dts package. Run it after bumping
+ * schema-dts to pick up a new schema.org release:
+ *
+ *   npm run generate:vocabulary
+ */
+import { readFileSync, writeFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const require = createRequire(import.meta.url);
+const packageDir = dirname(require.resolve('schema-dts/package.json'));
+const { version } = JSON.parse(readFileSync(join(packageDir, 'package.json'), 'utf8'));
+const source = readFileSync(join(packageDir, 'dist/schema.d.ts'), 'utf8');
+const outputFile = join(dirname(fileURLToPath(import.meta.url)), '../src/data/schemaOrgVocabulary.json');
+
+// Test-only types that schema.org publishes but that never appear in real markup
+const IGNORED_TYPES = new Set(['StupidType']);
+const IGNORED_RANGE = new Set(['IdReference', 'string', 'number', 'boolean', 'never']);
+
+const types = {};
+const properties = {};
+const baseProperties = new Map();
+
+function getDeprecation(comment) {
+  const match = comment && comment.match(/@deprecated Consider using https:\/\/schema\.org\/(\w+)/);
+  return match ? match[1] : comment && comment.includes('@deprecated') ? '' : undefined;
+}
+
+// Own properties of every `interface FooBase` block
+const baseRegex = /interface (\w+)Base extends [^{]*\{([\s\S]*?)\n\}/g;
+let match;
+while ((match = baseRegex.exec(source)) !== null) {
+  const [, name, body] = match;
+  const propertyRegex = /(\/\*\*(?:(?!\*\/)[\s\S])*\*\/\s*)?"([\w-]+)"\?: SchemaValue<([^,]+), "[\w-]+">;/g;
+  const own = [];
+  let propertyMatch;
+
+  while ((propertyMatch = propertyRegex.exec(body)) !== null) {
+    const [, comment, property, range] = propertyMatch;
+    own.push(property);
+
+    if (!properties[property]) {
+      properties[property] = {
+        range: range.split('|').map(t => t.trim()).filter(t => !IGNORED_RANGE.has(t))
+      };
+      const supersededBy = getDeprecation(comment);
+      if (supersededBy !== undefined) {
+        properties[property].deprecated = true;
+        if (supersededBy) properties[property].supersededBy = supersededBy;
+      }
+    }
+  }
+
+  baseProperties.set(name, own);
+}
+
+// Types and their subtypes: `export type Foo = FooLeaf | SubTypeA | SubTypeB | string;`
+const typeRegex = /(\/\*\*(?:(?!\*\/)[\s\S])*\*\/\s*)?export type (\w+)(?:<[^>]*>)? = ([^;]+);/g;
+const subtypes = new Map();
+while ((match = typeRegex.exec(source)) !== null) {
+  const [, comment, name, union] = match;
+  const members = union.split('|').map(t => t.trim().replace(/<.*>$/, ''));
+  if (!members.some(member => member.startsWith(`${name}Leaf`)) || IGNORED_TYPES.has(name)) {
+    continue;
+  }
+
+  types[name] = { parents: [], properties: baseProperties.get(name) || [] };
+
+  const supersededBy = getDeprecation(comment);
+  if (supersededBy !== undefined) {
+    types[name].deprecated = true;
+    if (supersededBy) types[name].supersededBy = supersededBy;
+  }
+
+  // Enumeration members are listed as "https://schema.org/Member" | "Member"
+  const enumMembers = members
+    .filter(member => /^"[A-Za-z0-9]+"$/.test(member))
+    .map(member => member.slice(1, -1));
+  if (enumMembers.length > 0) {
+    types[name].members = enumMembers;
+  }
+
+  subtypes.set(name, members.filter(member => /^\w+$/.test(member) && !member.endsWith('Leaf') && member !== 'string'));
+}
+
+subtypes.forEach((children, parent) => {
+  children.forEach(child => {
+    if (types[child] && !types[child].parents.includes(parent)) {
+      types[child].parents.push(parent);
+    }
+  });
+});
+
+const sortObject = obj => Object.fromEntries(Object.entries(obj).sort(([a], [b]) => a.localeCompare(b)));
+
+writeFileSync(
+  outputFile,
+  JSON.stringify({ source: `schema-dts@${version}`, types: sortObject(types), properties: sortObject(properties) }) + '\n'
+);
+
+console.log(`Wrote ${Object.keys(types).length} types and ${Object.keys(properties).length} properties to ${outputFile}`);
@@ -1,9 +1,15 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useRef } from 'react';
 import { CrawlerForm } from './components/CrawlerForm';
 import { CrawlerResults } from './components/CrawlerResults';
 import { CrawlerStats } from './components/CrawlerStats';
+import { RichResultsPanel } from './components/RichResultsPanel';
+import { CrawlHistory } from './components/CrawlHistory';
+import { ImportDropZone } from './components/ImportDropZone';
+import { ProxySettingsPanel } from './components/ProxySettingsPanel';
 import { useCrawler } from './hooks/useCrawler';
-import { Globe, Database } from 'lucide-react';
+import { Globe, Database, Search, History, Upload, Settings } from 'lucide-react';
+
+type AppView = 'crawl' | 'history' | 'settings';
 
 function App() {
   const {
@@ -12,80 +18,173 @@ function App() {
     isLoading,
     error,
     stats,
+    pages,
+    sessionId,
     startCrawl,
-    stopCrawl
+    stopCrawl,
+    pauseCrawl,
+    resumeCrawl,
+    openSession,
+    importCrawl
   } = useCrawler();
+  const [activeView, setActiveView] = useState<AppView>('crawl');
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const handleOpenSession = useCallback(async (id: string) => {
+    await openSession(id);
+    setActiveView('crawl');
+  }, [openSession]);
+
+  const handleResumeSession = useCallback((id: string) => {
+    setActiveView('crawl');
+    resumeCrawl(id);
+  }, [resumeCrawl]);
+
+  const handleImport = useCallback(async (file: File) => {
+    await importCrawl(file);
+    setActiveView('crawl');
+  }, [importCrawl]);
+
+  const handleImportInput = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset so picking the same file again still fires a change
+    event.target.value = '';
+    if (file) {
+      handleImport(file);
+    }
+  };
+
+  const navButtonClass = (view: AppView) =>
+    `flex items-center space-x-2 px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+      activeView === view
+        ? 'bg-white text-slate-900 shadow-sm'
+        : 'text-slate-600 hover:text-slate-900'
+    }`;
 
   return (
-    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50">
-      {/* Header */}
-      <header className="bg-white shadow-sm border-b border-slate-200">
-        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
-          <div className="flex items-center space-x-3">
-            <div className="flex items-center justify-center w-12 h-12 bg-blue-600 rounded-xl">
-              <Database className="w-6 h-6 text-white" />
-            </div>
-            <div>
-              <h1 className="text-2xl font-bold text-slate-900">
-                Structured Data Crawler
-              </h1>
-              <p className="text-slate-600">
-                Discover and analyze structured data across websites
-              </p>
+    <ImportDropZone onImport={handleImport} disabled={isLoading}>
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50">
+        {/* Header */}
+        <header className="bg-white shadow-sm border-b border-slate-200">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-3">
+                <div className="flex items-center justify-center w-12 h-12 bg-blue-600 rounded-xl">
+                  <Database className="w-6 h-6 text-white" />
+                </div>
+                <div>
+                  <h1 className="text-2xl font-bold text-slate-900">
+                    Structured Data Crawler
+                  </h1>
+                  <p className="text-slate-600">
+                    Discover and analyze structured data across websites
+                  </p>
+                </div>
+              </div>
+
+              <nav className="flex items-center bg-slate-100 rounded-lg p-1">
+                <button onClick={() => setActiveView('crawl')} className={navButtonClass('crawl')}>
+                  <Search className="w-4 h-4" />
+                  <span>Crawl</span>
+                </button>
+                <button onClick={() => setActiveView('history')} className={navButtonClass('history')}>
+                  <History className="w-4 h-4" />
+                  <span>History</span>
+                </button>
+                <button onClick={() => setActiveView('settings')} className={navButtonClass('settings')}>
+                  <Settings className="w-4 h-4" />
+                  <span>Proxies</span>
+                </button>
+                <button
+                  onClick={() => importInputRef.current?.click()}
+                  disabled={isLoading}
+                  title="Open a crawl exported as JSON"
+                  className="flex items-center space-x-2 px-3 py-2 rounded-md text-sm font-medium text-slate-600 hover:text-slate-900 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Upload className="w-4 h-4" />
+                  <span>Import</span>
+                </button>
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept=".json,application/json"
+                  onChange={handleImportInput}
+                  className="hidden"
+                />
+              </nav>
             </div>
           </div>
-        </div>
-      </header>
+        </header>
 
-      {/* Main Content */}
-      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        <div className="space-y-8">
-          {/* Crawler Form */}
-          <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
-            <CrawlerForm
-              onStartCrawl={startCrawl}
-              onStopCrawl={stopCrawl}
-              isLoading={isLoading}
+        {/* Main Content */}
+        <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {activeView === 'history' ? (
+            <CrawlHistory
+              activeSessionId={sessionId}
+              isCrawling={isLoading}
+              onOpenSession={handleOpenSession}
+              onResumeSession={handleResumeSession}
             />
-          </div>
+          ) : activeView === 'settings' ? (
+            <ProxySettingsPanel />
+          ) : (
+            <div className="space-y-8">
+              {/* Crawler Form */}
+              <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
+                <CrawlerForm
+                  onStartCrawl={startCrawl}
+                  onStopCrawl={stopCrawl}
+                  onPauseCrawl={pauseCrawl}
+                  onResumeCrawl={() => resumeCrawl(sessionId ?? undefined)}
+                  isLoading={isLoading}
+                  isPaused={stats?.status === 'paused'}
+                />
+              </div>
 
-          {/* Stats */}
-          {stats && (
-            <CrawlerStats stats={stats} />
-          )}
+              {/* Stats and Rich Result Eligibility */}
+              {stats && (
+                <div className={`grid grid-cols-1 gap-8 ${snippetData.length > 0 ? 'xl:grid-cols-2' : ''}`}>
+                  <CrawlerStats stats={stats} />
+                  {snippetData.length > 0 && (
+                    <RichResultsPanel snippetData={snippetData} />
+                  )}
+                </div>
+              )}
 
-          {/* Error Display */}
-          {error && (
-            <div className="bg-red-50 border border-red-200 rounded-xl p-4">
-              <div className="flex items-center space-x-2">
-                <div className="w-2 h-2 bg-red-500 rounded-full"></div>
-                <p className="text-red-800 font-medium">Crawling Error</p>
-              </div>
-              <p className="text-red-700 mt-2">{error}</p>
-            </div>
-          )}
+              {/* Error Display */}
+              {error && (
+                <div className="bg-red-50 border border-red-200 rounded-xl p-4">
+                  <div className="flex items-center space-x-2">
+                    <div className="w-2 h-2 bg-red-500 rounded-full"></div>
+                    <p className="text-red-800 font-medium">Crawling Error</p>
+                  </div>
+                  <p className="text-red-700 mt-2">{error}</p>
+                </div>
+              )}
 
-          {/* Results */}
-          {snippetData.length > 0 && (
-            <CrawlerResults data={crawlData} snippetData={snippetData} />
-          )}
+              {/* Results */}
+              {(snippetData.length > 0 || pages.length > 0) && (
+                <CrawlerResults data={crawlData} snippetData={snippetData} stats={stats} pages={pages} />
+              )}
 
-          {/* Empty State */}
-          {!isLoading && crawlData.length === 0 && !error && (
-            <div className="text-center py-16">
-              <Globe className="w-16 h-16 text-slate-400 mx-auto mb-4" />
-              <h3 className="text-xl font-semibold text-slate-700 mb-2">
-                Ready to Crawl
-              </h3>
-              <p className="text-slate-500 max-w-md mx-auto">
-                Enter a domain above to start discovering structured data across web pages.
-                The crawler will analyze JSON-LD, microdata, RDFa, and other structured formats.
-              </p>
+              {/* Empty State */}
+              {!isLoading && crawlData.length === 0 && pages.length === 0 && !error && (
+                <div className="text-center py-16">
+                  <Globe className="w-16 h-16 text-slate-400 mx-auto mb-4" />
+                  <h3 className="text-xl font-semibold text-slate-700 mb-2">
+                    Ready to Crawl
+                  </h3>
+                  <p className="text-slate-500 max-w-md mx-auto">
+                    Enter a domain above to start discovering structured data across web pages.
+                    The crawler will analyze JSON-LD, microdata, RDFa, and other structured formats.
+                  </p>
+                </div>
+              )}
             </div>
           )}
-        </div>
-      </main>
-    </div>
+        </main>
+      </div>
+    </ImportDropZone>
   );
 }
 
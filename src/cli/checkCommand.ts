@@ -0,0 +1,142 @@
+import { parseArgs } from 'node:util';
+import { access } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+import { CheckConfig, readCheckConfig, runChecks } from '../services/crawlChecks';
+import { createCrawlExport, readExportItems, readExportPages } from '../services/crawlExport';
+import { groupStructuredData } from '../services/dataGrouper';
+import { ExitCode, UsageError } from './exitCodes';
+import {
+  CRAWL_ARG_OPTIONS, readCrawlOptions, readCrawlTransport, runHeadlessCrawl, abortOnInterrupt, getCrawlExitCode
+} from './crawlCommand';
+import { formatCheckText, formatCheckJson, formatCheckJUnit } from './checkReport';
+import { routeConsoleToStderr, status, writeOutput, parseChoice, readJsonFile } from './output';
+
+export const CHECK_USAGE = `Usage: sdc check <domain> [options]
+
+Crawls a site and checks the structured data against a rule config and a
+baseline crawl. Exits with 2 when a check fails.
+
+Options:
+  -c, --config <file>    Rule config (default sdc.config.json, if present)
+  --baseline <file>      Crawl export to compare against (overrides the config)
+  --update-baseline      Write this crawl to the baseline file instead of comparing
+  --format <format>      text, json or junit (default text)
+  -o, --output <file>    Write the report to a file instead of stdout
+  --max-pages, --depth, --delay, --concurrency, --max-redirects, --retries,
+  --discovery, --ignore-robots, --include, --exclude, --strip-param, --limit,
+  --record, --replay
+                         As for "sdc crawl"; they override the config's "crawl" options
+  -q, --quiet            No progress output
+  --verbose              Include the crawler's debug logging on stderr
+  -h, --help             Show this help`;
+
+const DEFAULT_CONFIG = 'sdc.config.json';
+const FORMATS = ['text', 'json', 'junit'] as const;
+
+async function fileExists(path: string): Promise<boolean> {
+  try {
+    await access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function loadConfig(path: string | undefined): Promise<{ config: CheckConfig; baseDir: string }> {
+  if (!path && !(await fileExists(DEFAULT_CONFIG))) {
+    return { config: { rules: [] }, baseDir: process.cwd() };
+  }
+
+  const configPath = resolve(path || DEFAULT_CONFIG);
+  const json = await readJsonFile(configPath, 'Check config');
+  try {
+    return { config: readCheckConfig(json), baseDir: dirname(configPath) };
+  } catch (err) {
+    // A config that doesn't fit is bad input, like a bad flag
+    throw new UsageError(`${configPath}: ${(err as Error).message}`);
+  }
+}
+
+export async function checkCommand(args: string[]): Promise<ExitCode> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      ...CRAWL_ARG_OPTIONS,
+      config: { type: 'string', short: 'c' },
+      baseline: { type: 'string' },
+      'update-baseline': { type: 'boolean' },
+      format: { type: 'string' }
+    }
+  });
+
+  if (values.help) {
+    status(CHECK_USAGE);
+    return ExitCode.Ok;
+  }
+  if (positionals.length !== 1) {
+    throw new UsageError('Expected exactly one domain to check');
+  }
+
+  const format = parseChoice('format', values.format, FORMATS, 'text');
+  const quiet = !!values.quiet;
+  routeConsoleToStderr(!!values.verbose);
+
+  const { config, baseDir } = await loadConfig(values.config);
+  const options = readCrawlOptions(values, config.crawl);
+  const baselinePath = values.baseline
+    ? resolve(values.baseline)
+    : config.baseline ? resolve(baseDir, config.baseline) : undefined;
+  const updateBaseline = !!values['update-baseline'];
+
+  if (updateBaseline && !baselinePath) {
+    throw new UsageError('--update-baseline needs a baseline file, from --baseline or the config');
+  }
+  if (!baselinePath && config.rules.length === 0) {
+    throw new UsageError(`Nothing to check: no rules in ${values.config || DEFAULT_CONFIG} and no baseline`);
+  }
+
+  // Read the baseline before crawling, so a missing file fails fast
+  let baseline: Parameters<typeof runChecks>[2];
+  if (baselinePath && !updateBaseline) {
+    if (!(await fileExists(baselinePath))) {
+      status(`Baseline ${baselinePath} does not exist, create it with --update-baseline`);
+      return ExitCode.CrawlFailed;
+    }
+    const json = await readJsonFile(baselinePath, 'Baseline');
+    baseline = { items: readExportItems(json), pages: readExportPages(json) };
+  }
+
+  const transport = await readCrawlTransport(values);
+  const crawl = await runHeadlessCrawl(positionals[0], options, { signal: abortOnInterrupt(), quiet, fetcher: transport.fetcher });
+  await transport.saveRecording();
+
+  // Failed page fetches are left to the noFailedPages rule
+  const crawlExitCode = getCrawlExitCode(crawl, true);
+  if (crawlExitCode !== null) {
+    status(crawl.error ? `Crawl failed: ${crawl.error}` : 'Crawl did not complete, nothing was checked');
+    return crawlExitCode;
+  }
+
+  const report = runChecks(crawl, config.rules, baseline);
+
+  if (format === 'json') {
+    await writeOutput(formatCheckJson(report, crawl), values.output);
+  } else if (format === 'junit') {
+    await writeOutput(formatCheckJUnit(report, crawl), values.output);
+  } else {
+    await writeOutput(formatCheckText(report, crawl), values.output);
+  }
+
+  if (updateBaseline && baselinePath) {
+    const exportObj = createCrawlExport(crawl.items, groupStructuredData(crawl.items), crawl.items.length, {
+      domain: crawl.domain,
+      stats: crawl.stats,
+      pages: crawl.pages
+    });
+    await writeOutput(JSON.stringify(exportObj, null, 2), baselinePath);
+    status(`Baseline written to ${baselinePath}`);
+  }
+
+  return report.passed ? ExitCode.Ok : ExitCode.ValidationFailed;
+}
@@ -0,0 +1,73 @@
+import { CheckReport } from '../services/crawlChecks';
+import { HeadlessCrawl } from './crawlCommand';
+import { formatDuration } from '../utils/formatUtils';
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+export function formatCheckText(report: CheckReport, crawl: HeadlessCrawl): string {
+  const lines = [
+    `Checked ${crawl.domain}: ${crawl.stats.pagesCrawled} pages, ${crawl.items.length} items in ${formatDuration(crawl.stats.duration)}`,
+    ''
+  ];
+
+  report.results.forEach(result => {
+    lines.push(`${result.failures === 0 ? 'PASS' : 'FAIL'}  ${result.name} (${result.cases.length - result.failures}/${result.cases.length} passed)`);
+    result.cases
+      .filter(c => c.failures.length > 0)
+      .forEach(c => {
+        lines.push(`        ${c.name}`);
+        c.failures.forEach(failure => lines.push(`          - ${failure}`));
+      });
+  });
+
+  lines.push('', report.passed
+    ? `All ${report.results.length} checks passed`
+    : `${report.results.filter(result => result.failures > 0).length} of ${report.results.length} checks failed`);
+  return lines.join('\n');
+}
+
+export function formatCheckJson(report: CheckReport, crawl: HeadlessCrawl): string {
+  return JSON.stringify({
+    domain: crawl.domain,
+    checkedAt: new Date().toISOString(),
+    stats: crawl.stats,
+    ...report
+  }, null, 2);
+}
+
+// One test suite per rule and one test case per page, the layout CI test report viewers expect
+export function formatCheckJUnit(report: CheckReport, crawl: HeadlessCrawl): string {
+  const tests = report.results.reduce((total, result) => total + result.cases.length, 0);
+  const time = (crawl.stats.duration / 1000).toFixed(3);
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${escapeXml(`sdc check ${crawl.domain}`)}" tests="${tests}" failures="${report.failures}" time="${time}">`
+  ];
+
+  report.results.forEach(result => {
+    lines.push(`  <testsuite name="${escapeXml(result.name)}" tests="${result.cases.length}" failures="${result.failures}">`);
+    result.cases.forEach(c => {
+      const testcase = `    <testcase classname="${escapeXml(result.name)}" name="${escapeXml(c.name)}"`;
+      if (c.failures.length === 0) {
+        lines.push(`${testcase} />`);
+      } else {
+        lines.push(
+          `${testcase}>`,
+          `      <failure message="${escapeXml(c.failures[0])}">${escapeXml(c.failures.join('\n'))}</failure>`,
+          '    </testcase>'
+        );
+      }
+    });
+    lines.push('  </testsuite>');
+  });
+
+  lines.push('</testsuites>');
+  return lines.join('\n');
+}
@@ -0,0 +1,350 @@
+import { parseArgs } from 'node:util';
+import { writeFile } from 'node:fs/promises';
+import { StructuredDataItem, CrawledPage, CrawlStats } from '../types/crawler';
+import { CrawlOptions, DiscoveryMode } from '../components/CrawlerForm';
+import { crawlDomain } from '../services/crawler';
+import { PatternLimit, getScopePatternError, parsePatternLimit } from '../services/crawlScope';
+import {
+  Fetcher, FetchRecording, createDirectFetcher, createRecordedFetcher, createRecordingFetcher
+} from '../services/fetcher';
+import { groupStructuredData } from '../services/dataGrouper';
+import { createCrawlExport } from '../services/crawlExport';
+import { serializeNQuads, serializeTurtle, groupItemsByPage } from '../services/rdfExport';
+import { getValidationCounts } from '../services/schemaValidator';
+import { formatDuration } from '../utils/formatUtils';
+import { ExitCode, UsageError } from './exitCodes';
+import { routeConsoleToStderr, status, writeOutput, parseInteger, parseChoice, readJsonFile } from './output';
+
+export const CRAWL_USAGE = `Usage: sdc crawl <domain> [options]
+
+Crawls a site and writes the structured data it finds.
+
+Options:
+  --max-pages <n>        Maximum pages to crawl (default 50)
+  --depth <n>            Maximum link depth (default 3)
+  --delay <ms>           Minimum delay between requests to a host (default 1000)
+  --concurrency <n>      Pages fetched in parallel (default 2)
+  --max-redirects <n>    Redirect hops to follow per URL (default 10)
+  --retries <n>          Retries of a failed request, with backoff (default 2)
+  --discovery <mode>     links, sitemap or both (default both)
+  --ignore-robots        Don't honour robots.txt
+  --include <pattern>    Only crawl URLs whose path matches (repeatable; glob, or re:regex)
+  --exclude <pattern>    Never crawl URLs whose path matches (repeatable)
+  --strip-param <name>   Remove a query parameter from every URL, * as wildcard (repeatable)
+  --limit "<pattern> <n>"  Crawl at most n pages matching a path pattern (repeatable)
+  --record <file>        Save every response to a recording that --replay can serve
+  --replay <file>        Serve responses from a recording instead of the network
+  --format <format>      json, ndjson, nquads, turtle or text (default json)
+  -o, --output <file>    Write results to a file instead of stdout
+  --fail-on <level>      Exit with 2 on validation errors, warnings or none (default errors)
+  --ignore-page-errors   Don't exit with 1 when some pages fail to fetch
+  -q, --quiet            No progress output
+  --verbose              Include the crawler's debug logging on stderr
+  -h, --help             Show this help`;
+
+const DISCOVERY_MODES: readonly DiscoveryMode[] = ['links', 'sitemap', 'both'];
+const FORMATS = ['json', 'ndjson', 'nquads', 'turtle', 'text'] as const;
+const FAIL_ON_LEVELS = ['errors', 'warnings', 'none'] as const;
+
+export type FailOnLevel = typeof FAIL_ON_LEVELS[number];
+
+export interface HeadlessCrawl {
+  domain: string;
+  items: StructuredDataItem[];
+  pages: CrawledPage[];
+  stats: CrawlStats;
+  error?: string;
+}
+
+// Shared crawl options; `sdc check` accepts the same flags
+export const CRAWL_ARG_OPTIONS = {
+  'max-pages': { type: 'string' },
+  depth: { type: 'string' },
+  delay: { type: 'string' },
+  concurrency: { type: 'string' },
+  'max-redirects': { type: 'string' },
+  retries: { type: 'string' },
+  discovery: { type: 'string' },
+  'ignore-robots': { type: 'boolean' },
+  include: { type: 'string', multiple: true },
+  exclude: { type: 'string', multiple: true },
+  'strip-param': { type: 'string', multiple: true },
+  limit: { type: 'string', multiple: true },
+  record: { type: 'string' },
+  replay: { type: 'string' },
+  output: { type: 'string', short: 'o' },
+  quiet: { type: 'boolean', short: 'q' },
+  verbose: { type: 'boolean' },
+  help: { type: 'boolean', short: 'h' }
+} as const;
+
+type ArgValues = Record<string, string | boolean | string[] | undefined>;
+
+function checkPattern(name: string, pattern: string) {
+  const error = getScopePatternError(pattern);
+  if (error) throw new UsageError(`--${name} "${pattern}" is not a valid pattern: ${error}`);
+}
+
+function readPatterns(name: string, patterns: string[] | undefined): string[] | undefined {
+  patterns?.forEach(pattern => checkPattern(name, pattern));
+  return patterns;
+}
+
+function readPatternLimits(texts: string[] | undefined): PatternLimit[] | undefined {
+  return texts?.map(text => {
+    let limit: PatternLimit;
+    try {
+      limit = parsePatternLimit(text);
+    } catch (err) {
+      throw new UsageError(`--limit: ${(err as Error).message}`);
+    }
+    checkPattern('limit', limit.pattern);
+    return limit;
+  });
+}
+
+export function readCrawlOptions(
+  values: ArgValues,
+  defaults: Partial<CrawlOptions> = {}
+): CrawlOptions {
+  const str = (name: string) => values[name] as string | undefined;
+  const list = (name: string) => values[name] as string[] | undefined;
+  return {
+    maxPages: parseInteger('max-pages', str('max-pages'), defaults.maxPages ?? 50, 1),
+    maxDepth: parseInteger('depth', str('depth'), defaults.maxDepth ?? 3),
+    delay: parseInteger('delay', str('delay'), defaults.delay ?? 1000),
+    concurrency: parseInteger('concurrency', str('concurrency'), defaults.concurrency ?? 2, 1),
+    maxRedirects: parseInteger('max-redirects', str('max-redirects'), defaults.maxRedirects ?? 10),
+    maxRetries: parseInteger('retries', str('retries'), defaults.maxRetries ?? 2),
+    discoveryMode: parseChoice('discovery', str('discovery'), DISCOVERY_MODES, defaults.discoveryMode ?? 'both'),
+    respectRobots: values['ignore-robots'] ? false : defaults.respectRobots ?? true,
+    includePatterns: readPatterns('include', list('include')) ?? defaults.includePatterns,
+    excludePatterns: readPatterns('exclude', list('exclude')) ?? defaults.excludePatterns,
+    stripQueryParams: list('strip-param') ?? defaults.stripQueryParams,
+    patternLimits: readPatternLimits(list('limit')) ?? defaults.patternLimits
+  };
+}
+
+export interface CrawlTransport {
+  fetcher: Fetcher;
+  // Writes the --record file once the crawl is done
+  saveRecording: () => Promise<void>;
+}
+
+// There is no CORS in Node, so every request goes straight to the site, unless it's served from a recording
+export async function readCrawlTransport(values: ArgValues): Promise<CrawlTransport> {
+  const recordPath = values.record as string | undefined;
+  const replayPath = values.replay as string | undefined;
+  if (recordPath && replayPath) {
+    throw new UsageError('--record and --replay cannot be combined');
+  }
+
+  if (replayPath) {
+    const recording = await readJsonFile(replayPath, 'Recording');
+    if (!recording || typeof recording !== 'object' || Array.isArray(recording)) {
+      throw new Error(`Recording ${replayPath} is not an object of responses by URL`);
+    }
+    return { fetcher: createRecordedFetcher(recording as FetchRecording), saveRecording: async () => {} };
+  }
+
+  if (recordPath) {
+    const recording: FetchRecording = {};
+    return {
+      fetcher: createRecordingFetcher(createDirectFetcher(), recording),
+      saveRecording: () => writeFile(recordPath, `${JSON.stringify(recording, null, 2)}\n`)
+    };
+  }
+
+  return { fetcher: createDirectFetcher(), saveRecording: async () => {} };
+}
+
+export async function runHeadlessCrawl(
+  domain: string,
+  options: CrawlOptions,
+  { signal, quiet, fetcher }: { signal: AbortSignal; quiet: boolean; fetcher: Fetcher }
+): Promise<HeadlessCrawl> {
+  const items: StructuredDataItem[] = [];
+  const pages: CrawledPage[] = [];
+  const startTime = Date.now();
+  let error: string | undefined;
+  let crawlStatus: CrawlStats['status'] = 'completed';
+
+  try {
+    await crawlDomain(domain, options, {
+      onProgress: () => {},
+      onData: data => items.push(...data),
+      onPage: page => {
+        pages.push(page);
+        if (!quiet) {
+          const detail = page.error
+            ? `failed: ${page.error}`
+            : page.skipped
+              ? `skipped: ${page.skipped}`
+              : page.duplicate
+                ? `duplicate of ${page.canonical ?? page.url}`
+                : `${page.itemCount} item${page.itemCount !== 1 ? 's' : ''}`;
+          // Redirected pages show the requested URL and where it ended up
+          const requested = page.redirects?.[0]?.url ?? page.url;
+          const target = requested !== page.url ? ` → ${page.url}` : '';
+          status(`[${pages.length}/${options.maxPages}] ${requested}${target} (${detail})`);
+        }
+      },
+      signal,
+      fetcher
+    });
+  } catch (err) {
+    if ((err as Error).name === 'AbortError') {
+      crawlStatus = 'stopped';
+    } else {
+      crawlStatus = 'error';
+      error = (err as Error).message;
+    }
+  }
+
+  return {
+    domain,
+    items,
+    pages,
+    stats: {
+      pagesCrawled: pages.filter(page => !page.error && !page.duplicate && !page.skipped).length,
+      structuredDataFound: items.length,
+      duration: Date.now() - startTime,
+      status: crawlStatus
+    },
+    error
+  };
+}
+
+export function countValidationFailures(items: StructuredDataItem[], failOn: FailOnLevel): number {
+  if (failOn === 'none') return 0;
+
+  return items.filter(item => {
+    const { errors, warnings } = getValidationCounts(item.validation);
+    return errors > 0 || (failOn === 'warnings' && warnings > 0);
+  }).length;
+}
+
+// Crawl failures take precedence over validation failures
+export function getCrawlExitCode(crawl: HeadlessCrawl, ignorePageErrors: boolean): ExitCode | null {
+  if (crawl.stats.status === 'stopped') return ExitCode.Interrupted;
+  if (crawl.error || crawl.stats.pagesCrawled === 0) return ExitCode.CrawlFailed;
+  if (!ignorePageErrors && crawl.pages.some(page => page.error)) return ExitCode.CrawlFailed;
+  return null;
+}
+
+// Stops the crawl on Ctrl+C; whatever was found so far is still written out
+export function abortOnInterrupt(): AbortSignal {
+  const controller = new AbortController();
+  process.once('SIGINT', () => {
+    status('Interrupted, writing partial results...');
+    controller.abort();
+  });
+  return controller.signal;
+}
+
+function formatText(crawl: HeadlessCrawl): string {
+  const failedPages = crawl.pages.filter(page => page.error);
+  const pagesWithoutItems = crawl.pages.filter(page => !page.error && !page.duplicate && !page.skipped && page.itemCount === 0);
+  const lines = [
+    `${crawl.domain}: ${crawl.stats.pagesCrawled} pages crawled, ${failedPages.length} failed, ` +
+      `${pagesWithoutItems.length} without structured data, ` +
+      `${crawl.items.length} items found in ${formatDuration(crawl.stats.duration)} (${crawl.stats.status})`
+  ];
+  if (crawl.error) {
+    lines.push(`Error: ${crawl.error}`);
+  }
+
+  const typeCounts = new Map<string, number>();
+  crawl.items.forEach(item => {
+    const key = `${item.format} ${item.type || '(untyped)'}`;
+    typeCounts.set(key, (typeCounts.get(key) || 0) + 1);
+  });
+  if (typeCounts.size > 0) {
+    lines.push('', 'Items:');
+    Array.from(typeCounts)
+      .sort((a, b) => b[1] - a[1])
+      .forEach(([key, count]) => lines.push(`  ${String(count).padStart(6)}  ${key}`));
+  }
+
+  const invalid = crawl.items.filter(item => item.validation && item.validation.length > 0);
+  if (invalid.length > 0) {
+    lines.push('', 'Validation issues:');
+    invalid.forEach(item => {
+      item.validation!.forEach(issue => {
+        lines.push(`  ${issue.severity.padEnd(7)} ${item.url} ${item.type || item.format}${issue.path ? ` ${issue.path}` : ''}: ${issue.message}`);
+      });
+    });
+  }
+
+  if (failedPages.length > 0) {
+    lines.push('', 'Failed pages:');
+    failedPages.forEach(page => lines.push(`  ${page.url}: ${page.error}`));
+  }
+
+  return lines.join('\n');
+}
+
+// Turtle has no named graphs, so the pages follow each other as sections of one document
+function formatTurtle(crawl: HeadlessCrawl): string {
+  return Array.from(groupItemsByPage(crawl.items), ([url, items]) => `# ${url}\n${serializeTurtle(items)}`).join('\n');
+}
+
+export async function crawlCommand(args: string[]): Promise<ExitCode> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      ...CRAWL_ARG_OPTIONS,
+      format: { type: 'string' },
+      'fail-on': { type: 'string' },
+      'ignore-page-errors': { type: 'boolean' }
+    }
+  });
+
+  if (values.help) {
+    status(CRAWL_USAGE);
+    return ExitCode.Ok;
+  }
+  if (positionals.length !== 1) {
+    throw new UsageError('Expected exactly one domain to crawl');
+  }
+
+  const options = readCrawlOptions(values);
+  const format = parseChoice('format', values.format, FORMATS, 'json');
+  const failOn = parseChoice('fail-on', values['fail-on'], FAIL_ON_LEVELS, 'errors');
+  const quiet = !!values.quiet;
+  routeConsoleToStderr(!!values.verbose);
+
+  const transport = await readCrawlTransport(values);
+  const crawl = await runHeadlessCrawl(positionals[0], options, { signal: abortOnInterrupt(), quiet, fetcher: transport.fetcher });
+  await transport.saveRecording();
+
+  if (format === 'json') {
+    const exportObj = createCrawlExport(crawl.items, groupStructuredData(crawl.items), crawl.items.length, {
+      domain: crawl.domain,
+      stats: crawl.stats,
+      pages: crawl.pages
+    });
+    await writeOutput(JSON.stringify(exportObj, null, 2), values.output);
+  } else if (format === 'ndjson') {
+    await writeOutput(crawl.items.map(item => JSON.stringify(item)).join('\n'), values.output);
+  } else if (format === 'nquads') {
+    await writeOutput(serializeNQuads(crawl.items), values.output);
+  } else if (format === 'turtle') {
+    await writeOutput(formatTurtle(crawl), values.output);
+  } else {
+    await writeOutput(formatText(crawl), values.output);
+  }
+
+  const validationFailures = countValidationFailures(crawl.items, failOn);
+  if (!quiet) {
+    status(`Crawled ${crawl.stats.pagesCrawled} pages, found ${crawl.items.length} items` +
+      (validationFailures > 0 ? `, ${validationFailures} failing validation` : ''));
+  }
+  if (crawl.error) {
+    status(`Crawl failed: ${crawl.error}`);
+  }
+
+  return getCrawlExitCode(crawl, !!values['ignore-page-errors']) ??
+    (validationFailures > 0 ? ExitCode.ValidationFailed : ExitCode.Ok);
+}
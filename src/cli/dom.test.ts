@@ -0,0 +1,29 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { installDomGlobals } from './dom';
+import { extractStructuredData } from '../services/structuredDataExtractor';
+
+const PRODUCT_PAGE = `<!DOCTYPE html>
+<html><body>
+  <div itemscope itemtype="https://schema.org/Product">
+    <span itemprop="name">A</span>
+    <span itemprop="name">B</span>
+    <div itemprop="offers" itemscope itemtype="https://schema.org/Offer">
+      <meta itemprop="price" content="10">
+      <meta itemprop="priceCurrency" content="EUR">
+    </div>
+    <span itemprop="brand">C</span>
+  </div>
+</body></html>`;
+
+describe('Microdata under the linkedom DOM', () => {
+  beforeAll(installDomGlobals);
+
+  it('keeps properties and their values in document order', () => {
+    const [item] = extractStructuredData(PRODUCT_PAGE, 'https://example.com/product/1')
+      .filter(entry => entry.format === 'Microdata');
+
+    expect(item.data.name).toEqual(['A', 'B']);
+    expect(Object.keys(item.data).filter(key => !key.startsWith('@'))).toEqual(['name', 'offers', 'brand']);
+    expect(Object.keys(item.data.offers).filter((key: string) => !key.startsWith('@'))).toEqual(['price', 'priceCurrency']);
+  });
+});
@@ -0,0 +1,8 @@
+import { DOMParser, Node } from 'linkedom';
+
+// The extractors parse pages with the browser DOM API; under Node it comes from linkedom
+export function installDomGlobals() {
+  if (typeof globalThis.DOMParser === 'undefined') {
+    Object.assign(globalThis, { DOMParser, Node });
+  }
+}
@@ -0,0 +1,19 @@
+export const ExitCode = {
+  Ok: 0,
+  // The crawl could not run, or pages failed to fetch
+  CrawlFailed: 1,
+  // Markup failed validation (see --fail-on) or `sdc check` found failing checks
+  ValidationFailed: 2,
+  Usage: 64,
+  Interrupted: 130
+} as const;
+
+export type ExitCode = typeof ExitCode[keyof typeof ExitCode];
+
+// Bad command line input; reported with the usage text and ExitCode.Usage
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
@@ -0,0 +1,51 @@
+import { installDomGlobals } from './dom';
+import { crawlCommand } from './crawlCommand';
+import { checkCommand } from './checkCommand';
+import { ExitCode, UsageError } from './exitCodes';
+import { status } from './output';
+
+const USAGE = `Usage: sdc <command> [options]
+
+Commands:
+  crawl <domain>   Crawl a site and write the structured data found
+  check <domain>   Crawl a site and check it against rules and a baseline
+
+Run "sdc <command> --help" for the options of a command.`;
+
+const COMMANDS: Record<string, (args: string[]) => Promise<ExitCode>> = {
+  crawl: crawlCommand,
+  check: checkCommand
+};
+
+async function main(argv: string[]): Promise<ExitCode> {
+  const [command, ...args] = argv;
+
+  if (!command || command === '--help' || command === '-h' || command === 'help') {
+    status(USAGE);
+    return command ? ExitCode.Ok : ExitCode.Usage;
+  }
+
+  const run = COMMANDS[command];
+  if (!run) {
+    status(`Unknown command "${command}"\n\n${USAGE}`);
+    return ExitCode.Usage;
+  }
+
+  installDomGlobals();
+  try {
+    return await run(args);
+  } catch (err) {
+    // parseArgs reports unknown or malformed flags as TypeErrors with an ERR_PARSE_ARGS_* code
+    const code = (err as { code?: string }).code;
+    if (err instanceof UsageError || code?.startsWith('ERR_PARSE_ARGS')) {
+      status(`${(err as Error).message}\n\nRun "sdc ${command} --help" for usage.`);
+      return ExitCode.Usage;
+    }
+    status(`sdc ${command} failed: ${(err as Error).message}`);
+    return ExitCode.CrawlFailed;
+  }
+}
+
+main(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
@@ -0,0 +1,57 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { UsageError } from './exitCodes';
+
+// stdout is reserved for results, so the crawler's own logging goes to stderr (or nowhere)
+export function routeConsoleToStderr(verbose: boolean) {
+  const log = verbose ? (...args: unknown[]) => console.error(...args) : () => {};
+  console.log = log;
+  console.info = log;
+  console.debug = log;
+  console.warn = log;
+}
+
+export function status(message: string) {
+  process.stderr.write(`${message}\n`);
+}
+
+export async function writeOutput(text: string, outputPath?: string) {
+  const body = text === '' || text.endsWith('\n') ? text : `${text}\n`;
+  if (outputPath) {
+    await writeFile(outputPath, body);
+  } else {
+    process.stdout.write(body);
+  }
+}
+
+export async function readJsonFile(path: string, description: string): Promise<unknown> {
+  let text: string;
+  try {
+    text = await readFile(path, 'utf8');
+  } catch (err) {
+    throw new Error(`Could not read ${description} ${path}: ${(err as Error).message}`);
+  }
+  try {
+    return JSON.parse(text);
+  } catch (err) {
+    throw new Error(`${description} ${path} is not valid JSON: ${(err as Error).message}`);
+  }
+}
+
+export function parseInteger(name: string, value: string | undefined, fallback: number, min = 0): number {
+  if (value === undefined) return fallback;
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min) {
+    throw new UsageError(`--${name} must be a whole number of at least ${min}, got "${value}"`);
+  }
+  return parsed;
+}
+
+export function parseChoice<T extends string>(name: string, value: string | undefined, choices: readonly T[], fallback: T): T {
+  if (value === undefined) return fallback;
+
+  if (!choices.includes(value as T)) {
+    throw new UsageError(`--${name} must be one of ${choices.join(', ')}, got "${value}"`);
+  }
+  return value as T;
+}
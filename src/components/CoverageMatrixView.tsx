@@ -0,0 +1,168 @@
+import { useEffect, useMemo, useState } from 'react';
+import { StructuredDataSnippet } from '../types/crawler';
+import { buildCoverageMatrix, detectPathPatterns } from '../services/coverage';
+import { ExternalLink, RotateCcw, X } from 'lucide-react';
+
+interface CoverageMatrixViewProps {
+  // Every page crawled, including those without any structured data
+  urls: string[];
+  byTypeData: [string, StructuredDataSnippet[]][];
+}
+
+const parsePatterns = (text: string) =>
+  text.split('\n').map(line => line.trim()).filter(line => line !== '');
+
+function cellColor(percentage: number): string {
+  if (percentage === 100) return 'bg-green-100 text-green-800 hover:bg-green-200';
+  if (percentage >= 50) return 'bg-amber-100 text-amber-800 hover:bg-amber-200';
+  if (percentage > 0) return 'bg-orange-100 text-orange-800 hover:bg-orange-200';
+  return 'bg-slate-50 text-slate-400 hover:bg-slate-100';
+}
+
+export function CoverageMatrixView({ urls, byTypeData }: CoverageMatrixViewProps) {
+  const detectedPatterns = useMemo(() => detectPathPatterns(urls), [urls]);
+  // Null while the detected patterns are in use
+  const [customPatterns, setCustomPatterns] = useState<string[] | null>(null);
+  const [draft, setDraft] = useState('');
+  const [selectedCell, setSelectedCell] = useState<{ bucket: number; column: number } | null>(null);
+
+  const patterns = customPatterns ?? detectedPatterns;
+
+  useEffect(() => {
+    setDraft(patterns.join('\n'));
+  }, [patterns]);
+
+  const matrix = useMemo(
+    () => buildCoverageMatrix(urls, patterns, byTypeData),
+    [urls, patterns, byTypeData]
+  );
+
+  useEffect(() => {
+    setSelectedCell(null);
+  }, [matrix]);
+
+  const isDraftChanged = draft.trim() !== patterns.join('\n');
+  const selected = selectedCell ? matrix.cells[selectedCell.bucket]?.[selectedCell.column] : undefined;
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+        <div className="flex items-start justify-between mb-2">
+          <div>
+            <h3 className="text-lg font-semibold text-slate-900">Path patterns</h3>
+            <p className="text-sm text-slate-500">
+              One per line. Pages go to the first pattern they match; <code>:name</code> and <code>*</code> match one path segment, <code>**</code> any number.
+            </p>
+          </div>
+          {customPatterns && (
+            <button
+              onClick={() => setCustomPatterns(null)}
+              className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800 whitespace-nowrap ml-4"
+            >
+              <RotateCcw className="w-4 h-4" />
+              <span>Use detected patterns</span>
+            </button>
+          )}
+        </div>
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          rows={Math.min(10, Math.max(3, draft.split('\n').length))}
+          spellCheck={false}
+          className="w-full px-3 py-2 font-mono text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+        <div className="flex justify-end mt-2">
+          <button
+            onClick={() => setCustomPatterns(parsePatterns(draft))}
+            disabled={!isDraftChanged}
+            className="px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Apply patterns
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead className="bg-slate-50 border-b border-slate-200">
+            <tr>
+              <th className="sticky left-0 bg-slate-50 px-4 py-3 text-left font-semibold text-slate-700">Pattern</th>
+              <th className="px-4 py-3 text-right font-semibold text-slate-700">Pages</th>
+              {matrix.columns.map(column => (
+                <th key={column} className="px-4 py-3 text-center font-medium text-slate-700 whitespace-nowrap">
+                  {column}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {matrix.buckets.map((bucket, bucketIndex) => (
+              <tr key={bucket.pattern ?? ''}>
+                <td className="sticky left-0 bg-white px-4 py-2 font-mono text-slate-800 whitespace-nowrap">
+                  {bucket.pattern ?? <span className="font-sans italic text-slate-500">Other pages</span>}
+                </td>
+                <td className="px-4 py-2 text-right text-slate-600">{bucket.pages.length}</td>
+                {matrix.cells[bucketIndex].map((cell, columnIndex) => {
+                  const percentage = Math.round((cell.covered / cell.total) * 100);
+                  const isSelected = selectedCell?.bucket === bucketIndex && selectedCell.column === columnIndex;
+                  return (
+                    <td key={matrix.columns[columnIndex]} className="px-1 py-1">
+                      <button
+                        onClick={() => setSelectedCell(isSelected ? null : { bucket: bucketIndex, column: columnIndex })}
+                        disabled={cell.missing.length === 0}
+                        title={`${cell.covered} of ${cell.total} pages`}
+                        className={`w-full px-3 py-1.5 rounded-md font-medium transition-colors disabled:cursor-default ${cellColor(percentage)} ${
+                          isSelected ? 'ring-2 ring-blue-500' : ''
+                        }`}
+                      >
+                        {percentage}%
+                      </button>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {selected && selectedCell && (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200">
+          <div className="px-6 py-4 border-b border-slate-200 flex items-center justify-between">
+            <div>
+              <h3 className="text-lg font-semibold text-slate-900">
+                Pages without {matrix.columns[selectedCell.column]}
+              </h3>
+              <p className="text-sm text-slate-500">
+                {selected.missing.length} of {selected.total} pages matching{' '}
+                <code>{matrix.buckets[selectedCell.bucket].pattern ?? 'no pattern'}</code>
+              </p>
+            </div>
+            <button
+              onClick={() => setSelectedCell(null)}
+              title="Close"
+              className="p-1.5 text-slate-500 hover:text-slate-800 hover:bg-slate-100 rounded-lg transition-colors"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <ul className="divide-y divide-slate-100 max-h-96 overflow-y-auto">
+            {selected.missing.map(url => (
+              <li key={url} className="px-6 py-2">
+                <a
+                  href={url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center space-x-2 text-sm text-blue-600 hover:text-blue-800"
+                >
+                  <span className="truncate">{url}</span>
+                  <ExternalLink className="w-3.5 h-3.5 flex-shrink-0" />
+                </a>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
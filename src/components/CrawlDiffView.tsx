@@ -0,0 +1,334 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { StructuredDataItem } from '../types/crawler';
+import { diffCrawls, DiffStatus, ItemDiff, PropertyChange, SnippetDiff } from '../services/crawlDiff';
+import { readExportItems } from '../services/crawlExport';
+import { CrawlSession, listSessions, loadSession } from '../services/sessionStore';
+import { ChevronDown, ChevronRight, GitCompare, Upload } from 'lucide-react';
+
+interface CrawlDiffViewProps {
+  currentData: StructuredDataItem[];
+}
+
+type DiffSource =
+  | { kind: 'current' }
+  | { kind: 'session'; id: string }
+  | { kind: 'file'; name: string; items: StructuredDataItem[] };
+
+const statusStyles: Record<DiffStatus, string> = {
+  added: 'bg-green-100 text-green-800',
+  removed: 'bg-red-100 text-red-800',
+  changed: 'bg-amber-100 text-amber-800'
+};
+
+function StatusBadge({ status }: { status: DiffStatus }) {
+  return (
+    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${statusStyles[status]}`}>
+      {status}
+    </span>
+  );
+}
+
+const formatValue = (value: unknown) => {
+  if (value === undefined) return '';
+  const str = typeof value === 'string' ? value : JSON.stringify(value);
+  return str.length > 120 ? str.substring(0, 120) + '...' : str;
+};
+
+function describeSession(session: CrawlSession) {
+  return `${session.domain} – ${new Date(session.startedAt).toLocaleString()} (${session.itemCount} items)`;
+}
+
+interface DiffSourcePickerProps {
+  label: string;
+  source: DiffSource | null;
+  sessions: CrawlSession[];
+  onChange: (source: DiffSource | null) => void;
+}
+
+function DiffSourcePicker({ label, source, sessions, onChange }: DiffSourcePickerProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  const value = !source ? '' : source.kind === 'session' ? `session:${source.id}` : source.kind;
+
+  const handleSelect = (selected: string) => {
+    if (selected === 'current') {
+      onChange({ kind: 'current' });
+    } else if (selected.startsWith('session:')) {
+      onChange({ kind: 'session', id: selected.slice('session:'.length) });
+    } else if (selected === '') {
+      onChange(null);
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const items = readExportItems(JSON.parse(await file.text()));
+      setFileError(null);
+      onChange({ kind: 'file', name: file.name, items });
+    } catch (err) {
+      setFileError((err as Error).message);
+    }
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-slate-700 mb-2">{label}</label>
+      <div className="flex items-center space-x-2">
+        <select
+          value={value}
+          onChange={(e) => handleSelect(e.target.value)}
+          className="flex-1 min-w-0 px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        >
+          <option value="">Select a crawl...</option>
+          <option value="current">Current results</option>
+          {source?.kind === 'file' && <option value="file">File: {source.name}</option>}
+          {sessions.map(session => (
+            <option key={session.id} value={`session:${session.id}`}>
+              {describeSession(session)}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          title="Load an exported JSON file"
+          className="flex items-center space-x-2 px-3 py-2 text-sm text-slate-600 hover:text-slate-800 hover:bg-slate-100 rounded-lg transition-all duration-200"
+        >
+          <Upload className="w-4 h-4" />
+          <span>Export file</span>
+        </button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFile} />
+      </div>
+      {fileError && <p className="text-xs text-red-600 mt-1">{fileError}</p>}
+    </div>
+  );
+}
+
+function PropertyChanges({ changes }: { changes: PropertyChange[] }) {
+  if (changes.length === 0) {
+    return <p className="text-xs text-slate-500">Only the hash changed (no property differences).</p>;
+  }
+
+  return (
+    <table className="w-full text-xs font-mono">
+      <tbody className="divide-y divide-slate-100">
+        {changes.map((change, index) => (
+          <tr key={index} className="align-top">
+            <td className="py-1 pr-3 text-slate-700 whitespace-nowrap">{change.path || '(root)'}</td>
+            <td className="py-1 pr-3 text-red-700 break-all">{change.kind !== 'added' && formatValue(change.before)}</td>
+            <td className="py-1 text-green-700 break-all">{change.kind !== 'removed' && formatValue(change.after)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function ItemDiffRow({ diff }: { diff: ItemDiff }) {
+  const item = (diff.after || diff.before)!;
+
+  return (
+    <div className="py-3 space-y-2">
+      <div className="flex items-center space-x-2">
+        <StatusBadge status={diff.status} />
+        <span className="text-xs font-medium text-slate-600">{item.format}</span>
+        {item.type && <span className="text-sm font-medium text-slate-800">{item.type}</span>}
+        {diff.matchedBy && (
+          <span className="text-xs text-slate-500">matched by {diff.matchedBy === 'id' ? '@id' : 'type'}</span>
+        )}
+      </div>
+      {diff.status === 'changed' ? (
+        <PropertyChanges changes={diff.changes} />
+      ) : (
+        <pre className="text-xs text-slate-700 font-mono bg-slate-50 rounded-lg p-2 overflow-hidden">
+          {formatValue(item.raw ?? item.data)}
+        </pre>
+      )}
+    </div>
+  );
+}
+
+function SnippetDiffRow({ diff }: { diff: SnippetDiff }) {
+  return (
+    <li className="py-2 flex items-start space-x-3 text-sm">
+      <StatusBadge status={diff.status} />
+      <div className="min-w-0">
+        <div className="text-slate-800">
+          <span className="font-medium">{diff.snippet.type || 'Unknown'}</span>
+          <span className="text-slate-500"> · {diff.snippet.format} · </span>
+          <code className="text-xs font-mono text-slate-500">{diff.snippet.hash.substring(0, 8)}</code>
+        </div>
+        {diff.status === 'changed' ? (
+          <p className="text-xs text-slate-600">
+            {diff.pagesAdded.length > 0 && `now also on ${diff.pagesAdded.length} page${diff.pagesAdded.length !== 1 ? 's' : ''}`}
+            {diff.pagesAdded.length > 0 && diff.pagesRemoved.length > 0 && ', '}
+            {diff.pagesRemoved.length > 0 && `gone from ${diff.pagesRemoved.length} page${diff.pagesRemoved.length !== 1 ? 's' : ''}`}
+          </p>
+        ) : (
+          <p className="text-xs text-slate-600">
+            {(diff.status === 'added' ? diff.pagesAdded : diff.pagesRemoved).length} page(s)
+          </p>
+        )}
+      </div>
+    </li>
+  );
+}
+
+export function CrawlDiffView({ currentData }: CrawlDiffViewProps) {
+  const [sessions, setSessions] = useState<CrawlSession[]>([]);
+  const [beforeSource, setBeforeSource] = useState<DiffSource | null>(null);
+  const [afterSource, setAfterSource] = useState<DiffSource | null>({ kind: 'current' });
+  const [beforeItems, setBeforeItems] = useState<StructuredDataItem[] | null>(null);
+  const [afterItems, setAfterItems] = useState<StructuredDataItem[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedUrls, setExpandedUrls] = useState<{ [url: string]: boolean }>({});
+  const [showSnippets, setShowSnippets] = useState(false);
+
+  useEffect(() => {
+    listSessions()
+      .then(setSessions)
+      .catch(err => console.warn('Could not list crawl sessions:', err));
+  }, []);
+
+  // Resolve each side to a list of items; stored sessions are read from IndexedDB
+  useEffect(() => {
+    let cancelled = false;
+
+    const resolve = async (source: DiffSource | null, setItems: (items: StructuredDataItem[] | null) => void) => {
+      if (!source) {
+        setItems(null);
+      } else if (source.kind === 'current') {
+        setItems(currentData);
+      } else if (source.kind === 'file') {
+        setItems(source.items);
+      } else {
+        setItems(null);
+        try {
+          const stored = await loadSession(source.id);
+          if (!cancelled) setItems(stored ? stored.items : []);
+        } catch (err) {
+          if (!cancelled) setError((err as Error).message || 'Could not load crawl session');
+        }
+      }
+    };
+
+    setError(null);
+    resolve(beforeSource, setBeforeItems);
+    resolve(afterSource, setAfterItems);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [beforeSource, afterSource, currentData]);
+
+  const diff = useMemo(
+    () => (beforeItems && afterItems ? diffCrawls(beforeItems, afterItems) : null),
+    [beforeItems, afterItems]
+  );
+
+  const toggleUrl = (url: string) => {
+    setExpandedUrls(prev => ({ ...prev, [url]: !prev[url] }));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+        <div className="flex items-center space-x-2 mb-4">
+          <GitCompare className="w-5 h-5 text-blue-600" />
+          <h3 className="text-lg font-semibold text-slate-900">Compare Crawls</h3>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <DiffSourcePicker label="Before" source={beforeSource} sessions={sessions} onChange={setBeforeSource} />
+          <DiffSourcePicker label="After" source={afterSource} sessions={sessions} onChange={setAfterSource} />
+        </div>
+        {error && <p className="text-sm text-red-600 mt-3">{error}</p>}
+      </div>
+
+      {!diff ? (
+        <div className="text-center py-12 bg-white rounded-xl border border-slate-200">
+          <GitCompare className="w-12 h-12 text-slate-400 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold text-slate-700 mb-2">Pick two crawls to compare</h3>
+          <p className="text-slate-500">Choose a saved session or load an exported JSON file for each side.</p>
+        </div>
+      ) : (
+        <>
+          {/* Summary */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {([
+              ['Added', diff.summary.added, 'text-green-600'],
+              ['Removed', diff.summary.removed, 'text-red-600'],
+              ['Changed', diff.summary.changed, 'text-amber-600'],
+              ['Unchanged', diff.summary.unchanged, 'text-slate-600']
+            ] as const).map(([label, count, color]) => (
+              <div key={label} className="bg-white rounded-xl border border-slate-200 p-4 text-center">
+                <div className={`text-2xl font-bold ${color}`}>{count.toLocaleString()}</div>
+                <div className="text-sm text-slate-600">{label} items</div>
+              </div>
+            ))}
+          </div>
+
+          {/* Per snippet hash */}
+          {diff.snippets.length > 0 && (
+            <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+              <button
+                onClick={() => setShowSnippets(!showSnippets)}
+                aria-expanded={showSnippets}
+                className="w-full bg-slate-50 px-6 py-4 flex items-center space-x-2 text-left"
+              >
+                {showSnippets ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                <span className="font-semibold text-slate-900">
+                  {diff.snippets.length} snippet{diff.snippets.length !== 1 ? 's' : ''} changed
+                </span>
+              </button>
+              {showSnippets && (
+                <ul className="px-6 py-2 divide-y divide-slate-100">
+                  {diff.snippets.map(snippetDiff => (
+                    <SnippetDiffRow key={`${snippetDiff.status}-${snippetDiff.snippet.hash}`} diff={snippetDiff} />
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {/* Per URL */}
+          {diff.urls.length === 0 ? (
+            <div className="text-center py-12 bg-white rounded-xl border border-slate-200">
+              <h3 className="text-lg font-semibold text-slate-700 mb-2">No differences</h3>
+              <p className="text-slate-500">Both crawls contain the same structured data.</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {diff.urls.map(urlDiff => (
+                <div key={urlDiff.url} className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+                  <button
+                    onClick={() => toggleUrl(urlDiff.url)}
+                    aria-expanded={!!expandedUrls[urlDiff.url]}
+                    className="w-full bg-slate-50 px-6 py-3 flex items-center space-x-2 text-left"
+                  >
+                    {expandedUrls[urlDiff.url] ? <ChevronDown className="w-4 h-4 flex-shrink-0" /> : <ChevronRight className="w-4 h-4 flex-shrink-0" />}
+                    <StatusBadge status={urlDiff.status} />
+                    <span className="text-sm font-medium text-slate-900 truncate">{urlDiff.url}</span>
+                    <span className="text-xs text-slate-500 flex-shrink-0">
+                      {urlDiff.items.length} difference{urlDiff.items.length !== 1 ? 's' : ''}
+                    </span>
+                  </button>
+                  {expandedUrls[urlDiff.url] && (
+                    <div className="px-6 divide-y divide-slate-100">
+                      {urlDiff.items.map((itemDiff, index) => (
+                        <ItemDiffRow key={index} diff={itemDiff} />
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import { useCrawlHistory } from '../hooks/useCrawlHistory';
+import { CrawlSession } from '../services/sessionStore';
+import { formatBytes, formatDuration } from '../utils/formatUtils';
+import { History, FolderOpen, Play, Trash2, HardDrive, RefreshCw } from 'lucide-react';
+
+interface CrawlHistoryProps {
+  activeSessionId: string | null;
+  isCrawling: boolean;
+  onOpenSession: (id: string) => void;
+  onResumeSession: (id: string) => void;
+}
+
+const statusColors = {
+  running: 'bg-orange-100 text-orange-800',
+  paused: 'bg-blue-100 text-blue-800',
+  completed: 'bg-green-100 text-green-800',
+  stopped: 'bg-slate-100 text-slate-800',
+  error: 'bg-red-100 text-red-800'
+};
+
+export function CrawlHistory({ activeSessionId, isCrawling, onOpenSession, onResumeSession }: CrawlHistoryProps) {
+  const { sessions, storageUsage, isLoading, error, refresh, removeSession } = useCrawlHistory();
+
+  const isRunning = (session: CrawlSession) => isCrawling && session.id === activeSessionId;
+
+  const getStatusLabel = (session: CrawlSession) => {
+    if (session.stats.status === 'running' && !isRunning(session)) {
+      return 'interrupted';
+    }
+    return session.stats.status;
+  };
+
+  // Paused, stopped and interrupted crawls keep their last checkpoint
+  const canResume = (session: CrawlSession) =>
+    ['paused', 'stopped', 'interrupted'].includes(getStatusLabel(session));
+
+  const handleDelete = (session: CrawlSession) => {
+    if (window.confirm(`Delete the crawl of ${session.domain} from ${new Date(session.startedAt).toLocaleString()}?`)) {
+      removeSession(session.id);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-2">
+          <History className="w-5 h-5 text-blue-600" />
+          <h2 className="text-xl font-semibold text-slate-900">Crawl History</h2>
+        </div>
+        <div className="flex items-center space-x-4">
+          {storageUsage && (
+            <div className="flex items-center space-x-2 text-sm text-slate-600">
+              <HardDrive className="w-4 h-4" />
+              <span>
+                {formatBytes(storageUsage.usage)} used
+                {storageUsage.quota > 0 && ` of ${formatBytes(storageUsage.quota)}`}
+              </span>
+            </div>
+          )}
+          <button
+            onClick={refresh}
+            className="flex items-center space-x-2 px-3 py-1.5 text-sm text-slate-600 hover:text-slate-800 hover:bg-slate-100 rounded-lg transition-all duration-200"
+          >
+            <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+            <span>Refresh</span>
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-4 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {!isLoading && sessions.length === 0 ? (
+        <p className="text-center text-slate-500 py-8">
+          No crawls saved yet. Every crawl you start is stored in this browser automatically.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs font-medium text-slate-500 uppercase tracking-wide border-b border-slate-200">
+                <th className="py-2 pr-4">Domain</th>
+                <th className="py-2 pr-4">Started</th>
+                <th className="py-2 pr-4">Status</th>
+                <th className="py-2 pr-4 text-right">Pages</th>
+                <th className="py-2 pr-4 text-right">Items</th>
+                <th className="py-2 pr-4 text-right">Errors</th>
+                <th className="py-2 pr-4 text-right">Duration</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {sessions.map(session => {
+                const status = getStatusLabel(session);
+                return (
+                  <tr key={session.id} className={session.id === activeSessionId ? 'bg-blue-50' : ''}>
+                    <td className="py-3 pr-4 font-medium text-slate-900">{session.domain}</td>
+                    <td className="py-3 pr-4 text-slate-600">{new Date(session.startedAt).toLocaleString()}</td>
+                    <td className="py-3 pr-4">
+                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                        status === 'interrupted' ? 'bg-amber-100 text-amber-800' : statusColors[session.stats.status]
+                      }`}>
+                        {status}
+                      </span>
+                    </td>
+                    <td className="py-3 pr-4 text-right text-slate-700">{session.pageCount.toLocaleString()}</td>
+                    <td className="py-3 pr-4 text-right text-slate-700">{session.itemCount.toLocaleString()}</td>
+                    <td className="py-3 pr-4 text-right text-slate-700">{session.errorCount.toLocaleString()}</td>
+                    <td className="py-3 pr-4 text-right text-slate-700">{formatDuration(session.stats.duration)}</td>
+                    <td className="py-3">
+                      <div className="flex items-center justify-end space-x-2">
+                        <button
+                          onClick={() => onOpenSession(session.id)}
+                          disabled={isCrawling}
+                          className="flex items-center space-x-1 px-3 py-1.5 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          <FolderOpen className="w-4 h-4" />
+                          <span>Open</span>
+                        </button>
+                        {canResume(session) && (
+                          <button
+                            onClick={() => onResumeSession(session.id)}
+                            disabled={isCrawling}
+                            className="flex items-center space-x-1 px-3 py-1.5 text-green-600 hover:bg-green-50 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            <Play className="w-4 h-4" />
+                            <span>Resume</span>
+                          </button>
+                        )}
+                        <button
+                          onClick={() => handleDelete(session)}
+                          disabled={isRunning(session)}
+                          title="Delete session"
+                          className="p-1.5 text-slate-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
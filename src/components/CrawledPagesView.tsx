@@ -0,0 +1,279 @@
+import { useMemo, useState } from 'react';
+import { CrawledPage } from '../types/crawler';
+import { formatBytes } from '../utils/formatUtils';
+import { ArrowDown, ArrowUp, ExternalLink, FileText, Search } from 'lucide-react';
+
+interface CrawledPagesViewProps {
+  pages: CrawledPage[];
+}
+
+type PageOutcome = 'all' | 'withItems' | 'withoutItems' | 'failed' | 'duplicate' | 'skipped' | 'redirected';
+type StatusClass = 'all' | '2xx' | '3xx' | '4xx' | '5xx' | 'unknown';
+type SortKey = 'url' | 'status' | 'contentType' | 'depth' | 'referrer' | 'transport' | 'fetchTime' | 'bytes' | 'itemCount';
+
+const PAGE_SIZE = 200;
+
+const COLUMNS: { key: SortKey; label: string; numeric?: boolean }[] = [
+  { key: 'url', label: 'URL' },
+  { key: 'status', label: 'Status', numeric: true },
+  { key: 'contentType', label: 'Content type' },
+  { key: 'depth', label: 'Depth', numeric: true },
+  { key: 'referrer', label: 'Referrer' },
+  { key: 'transport', label: 'Via' },
+  { key: 'fetchTime', label: 'Time', numeric: true },
+  { key: 'bytes', label: 'Size', numeric: true },
+  { key: 'itemCount', label: 'Items', numeric: true }
+];
+
+function matchesOutcome(page: CrawledPage, outcome: PageOutcome): boolean {
+  switch (outcome) {
+    case 'withItems': return !page.error && page.itemCount > 0;
+    case 'withoutItems': return !page.error && !page.duplicate && !page.skipped && page.itemCount === 0;
+    case 'failed': return !!page.error;
+    case 'duplicate': return !!page.duplicate;
+    case 'skipped': return !!page.skipped;
+    case 'redirected': return !!page.redirects?.length;
+    default: return true;
+  }
+}
+
+function matchesStatusClass(page: CrawledPage, statusClass: StatusClass): boolean {
+  if (statusClass === 'all') return true;
+  if (statusClass === 'unknown') return page.status === undefined;
+  return page.status !== undefined && `${Math.floor(page.status / 100)}xx` === statusClass;
+}
+
+// Pages without a value sort last in both directions
+function comparePages(a: CrawledPage, b: CrawledPage, key: SortKey, direction: 1 | -1): number {
+  const left = a[key];
+  const right = b[key];
+  if (left === undefined || right === undefined) {
+    return left === right ? 0 : left === undefined ? 1 : -1;
+  }
+  if (typeof left === 'number' && typeof right === 'number') {
+    return (left - right) * direction;
+  }
+  return String(left).localeCompare(String(right)) * direction;
+}
+
+// The URL as it was requested, which stays unique when several URLs redirect to the same page
+function requestedUrl(page: CrawledPage): string {
+  return page.redirects?.[0]?.url ?? page.url;
+}
+
+function formatRedirects(page: CrawledPage): string {
+  return page.redirects!.map(hop => `${hop.url}${hop.status !== undefined ? ` (${hop.status})` : ''}`).join(' → ');
+}
+
+function statusColor(page: CrawledPage): string {
+  if (page.error) return 'bg-red-100 text-red-800';
+  if (page.duplicate || page.skipped) return 'bg-slate-100 text-slate-700';
+  if (page.status !== undefined && page.status >= 300) return 'bg-amber-100 text-amber-800';
+  return 'bg-green-100 text-green-800';
+}
+
+export function CrawledPagesView({ pages }: CrawledPagesViewProps) {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [outcome, setOutcome] = useState<PageOutcome>('all');
+  const [statusClass, setStatusClass] = useState<StatusClass>('all');
+  const [sortKey, setSortKey] = useState<SortKey>('url');
+  const [sortDirection, setSortDirection] = useState<1 | -1>(1);
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  const filteredPages = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    return pages
+      .filter(page =>
+        matchesOutcome(page, outcome) &&
+        matchesStatusClass(page, statusClass) &&
+        (!term || [page.url, page.canonical, page.referrer, page.error, ...(page.redirects ?? []).map(hop => hop.url)]
+          .some(value => value?.toLowerCase().includes(term)))
+      )
+      .sort((a, b) => comparePages(a, b, sortKey, sortDirection));
+  }, [pages, searchTerm, outcome, statusClass, sortKey, sortDirection]);
+
+  const counts = useMemo(() => ({
+    failed: pages.filter(page => page.error).length,
+    withoutItems: pages.filter(page => matchesOutcome(page, 'withoutItems')).length,
+    redirected: pages.filter(page => matchesOutcome(page, 'redirected')).length
+  }), [pages]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortDirection(sortDirection === 1 ? -1 : 1);
+    } else {
+      setSortKey(key);
+      // Numbers are most interesting largest first
+      setSortDirection(COLUMNS.find(column => column.key === key)?.numeric ? -1 : 1);
+    }
+  };
+
+  const inputClassName = 'w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">Search</label>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-slate-400" />
+              <input
+                type="text"
+                value={searchTerm}
+                onChange={(e) => {
+                  setSearchTerm(e.target.value);
+                  setVisibleCount(PAGE_SIZE);
+                }}
+                placeholder="Search URLs, referrers or errors..."
+                className={`${inputClassName} pl-10 pr-4`}
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">Outcome</label>
+            <select
+              value={outcome}
+              onChange={(e) => {
+                setOutcome(e.target.value as PageOutcome);
+                setVisibleCount(PAGE_SIZE);
+              }}
+              className={inputClassName}
+            >
+              <option value="all">All pages ({pages.length})</option>
+              <option value="withItems">With structured data</option>
+              <option value="withoutItems">Without structured data ({counts.withoutItems})</option>
+              <option value="failed">Failed ({counts.failed})</option>
+              <option value="duplicate">Duplicate</option>
+              <option value="skipped">Skipped</option>
+              <option value="redirected">Redirected ({counts.redirected})</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">HTTP status</label>
+            <select
+              value={statusClass}
+              onChange={(e) => {
+                setStatusClass(e.target.value as StatusClass);
+                setVisibleCount(PAGE_SIZE);
+              }}
+              className={inputClassName}
+            >
+              <option value="all">All statuses</option>
+              <option value="2xx">2xx Success</option>
+              <option value="3xx">3xx Redirect</option>
+              <option value="4xx">4xx Client error</option>
+              <option value="5xx">5xx Server error</option>
+              <option value="unknown">Unknown (network error or proxy)</option>
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {filteredPages.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-xl border border-slate-200">
+          <FileText className="w-12 h-12 text-slate-400 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold text-slate-700 mb-2">No Pages Found</h3>
+          <p className="text-slate-500">
+            {pages.length === 0
+              ? 'This crawl has no page records.'
+              : 'Try adjusting your search terms or filters to see more results.'}
+          </p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead className="bg-slate-50 border-b border-slate-200">
+              <tr>
+                {COLUMNS.map(column => (
+                  <th key={column.key} className={`px-4 py-3 font-semibold text-slate-700 ${column.numeric ? 'text-right' : 'text-left'}`}>
+                    <button
+                      onClick={() => handleSort(column.key)}
+                      className="inline-flex items-center space-x-1 hover:text-slate-900"
+                    >
+                      <span>{column.label}</span>
+                      {sortKey === column.key && (
+                        sortDirection === 1 ? <ArrowUp className="w-3.5 h-3.5" /> : <ArrowDown className="w-3.5 h-3.5" />
+                      )}
+                    </button>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {filteredPages.slice(0, visibleCount).map(page => (
+                <tr key={requestedUrl(page)} className="align-top">
+                  <td className="px-4 py-2 max-w-md">
+                    <a
+                      href={page.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center space-x-1 text-blue-600 hover:text-blue-800"
+                    >
+                      <span className="truncate">{page.url}</span>
+                      <ExternalLink className="w-3.5 h-3.5 flex-shrink-0" />
+                    </a>
+                    {page.redirects && page.redirects.length > 0 && (
+                      <p className="text-xs text-amber-700 break-all" title={formatRedirects(page)}>
+                        Redirects: {formatRedirects(page)}
+                        {!page.error && ` → ${page.url}`}
+                      </p>
+                    )}
+                    {page.duplicate && !page.canonical && (
+                      <p className="text-xs text-slate-500">Already crawled through another URL</p>
+                    )}
+                    {page.canonical && (
+                      <p className="text-xs text-slate-500 truncate" title={page.canonical}>
+                        {page.duplicate ? 'Duplicate of' : 'Canonical'}: {page.canonical}
+                      </p>
+                    )}
+                    {page.skipped && <p className="text-xs text-slate-500">Skipped: {page.skipped}</p>}
+                    {page.error && <p className="text-xs text-red-700">{page.error}</p>}
+                    {page.retries !== undefined && !page.error && (
+                      <p className="text-xs text-amber-700">
+                        Fetched after {page.retries} {page.retries === 1 ? 'retry' : 'retries'}
+                      </p>
+                    )}
+                    {page.parseErrors && page.parseErrors.length > 0 && (
+                      <p className="text-xs text-amber-700">
+                        {page.parseErrors.length} parse error{page.parseErrors.length !== 1 ? 's' : ''}
+                      </p>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 text-right">
+                    <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${statusColor(page)}`}>
+                      {page.status ?? (page.error ? 'failed' : '–')}
+                    </span>
+                  </td>
+                  <td className="px-4 py-2 text-slate-600 whitespace-nowrap">{page.contentType?.split(';')[0] ?? '–'}</td>
+                  <td className="px-4 py-2 text-right text-slate-600">{page.depth}</td>
+                  <td className="px-4 py-2 text-slate-600 max-w-xs truncate" title={page.referrer}>{page.referrer ?? '–'}</td>
+                  <td className="px-4 py-2 text-slate-600 whitespace-nowrap">{page.transport ?? '–'}</td>
+                  <td className="px-4 py-2 text-right text-slate-600 whitespace-nowrap">
+                    {page.fetchTime !== undefined ? `${page.fetchTime} ms` : '–'}
+                  </td>
+                  <td className="px-4 py-2 text-right text-slate-600 whitespace-nowrap">
+                    {page.bytes !== undefined ? formatBytes(page.bytes) : '–'}
+                  </td>
+                  <td className="px-4 py-2 text-right text-slate-900 font-medium">{page.itemCount}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {filteredPages.length > visibleCount && (
+            <div className="px-6 py-3 border-t border-slate-200 flex items-center justify-between text-sm">
+              <span className="text-slate-500">Showing {visibleCount} of {filteredPages.length} pages</span>
+              <button
+                onClick={() => setVisibleCount(visibleCount + PAGE_SIZE)}
+                className="text-blue-600 hover:text-blue-800 font-medium"
+              >
+                Show more
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,50 @@
 import React, { useState } from 'react';
-import { Play, Square, Globe, Settings } from 'lucide-react';
+import { Play, Square, Pause, Globe, Settings } from 'lucide-react';
+import { PatternLimit, parsePatternLimit, getScopePatternError } from '../services/crawlScope';
 
 interface CrawlerFormProps {
   onStartCrawl: (domain: string, options: CrawlOptions) => void;
   onStopCrawl: () => void;
+  onPauseCrawl: () => void;
+  onResumeCrawl: () => void;
   isLoading: boolean;
+  isPaused: boolean;
+}
+
+export type DiscoveryMode = 'links' | 'both' | 'sitemap';
+
+interface ScopeText {
+  include: string;
+  exclude: string;
+  stripParams: string;
+  limits: string;
+}
+
+function splitLines(text: string): string[] {
+  return text.split('\n').map(line => line.trim()).filter(line => line !== '');
+}
+
+// The first problem with each pattern field, if any
+function getScopeErrors(text: ScopeText): Partial<Record<keyof ScopeText, string>> {
+  const errors: Partial<Record<keyof ScopeText, string>> = {};
+  const checkPatterns = (key: keyof ScopeText, patterns: string[]) => {
+    for (const pattern of patterns) {
+      const error = getScopePatternError(pattern);
+      if (error) {
+        errors[key] = `${pattern}: ${error}`;
+        return;
+      }
+    }
+  };
+
+  checkPatterns('include', splitLines(text.include));
+  checkPatterns('exclude', splitLines(text.exclude));
+  try {
+    checkPatterns('limits', splitLines(text.limits).map(line => parsePatternLimit(line).pattern));
+  } catch (err) {
+    errors.limits = (err as Error).message;
+  }
+  return errors;
 }
 
 export interface CrawlOptions {
@@ -12,22 +52,57 @@ export interface CrawlOptions {
   maxDepth: number;
   respectRobots: boolean;
   delay: number;
+  concurrency: number;
+  discoveryMode: DiscoveryMode;
+  // Redirect hops followed per URL before the page is reported as failed (default 10)
+  maxRedirects?: number;
+  // Retries of a failed request, with exponential backoff (default 2)
+  maxRetries?: number;
+  // Path patterns, globs or `re:` regular expressions. With include patterns
+  // only matching URLs are crawled; the start page always is.
+  includePatterns?: string[];
+  excludePatterns?: string[];
+  // Query parameters removed from every URL, `*` as a wildcard (e.g. utm_*)
+  stripQueryParams?: string[];
+  // Most pages to crawl per path pattern; each page counts against the first limit it matches
+  patternLimits?: PatternLimit[];
 }
 
-export function CrawlerForm({ onStartCrawl, onStopCrawl, isLoading }: CrawlerFormProps) {
+export function CrawlerForm({
+  onStartCrawl,
+  onStopCrawl,
+  onPauseCrawl,
+  onResumeCrawl,
+  isLoading,
+  isPaused
+}: CrawlerFormProps) {
   const [domain, setDomain] = useState('');
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [options, setOptions] = useState<CrawlOptions>({
     maxPages: 50,
     maxDepth: 3,
     respectRobots: true,
-    delay: 1000
+    delay: 1000,
+    concurrency: 2,
+    discoveryMode: 'both',
+    maxRedirects: 10,
+    maxRetries: 2
   });
+  // Edited as text and turned into the scope options when the crawl starts
+  const [scopeText, setScopeText] = useState<ScopeText>({ include: '', exclude: '', stripParams: '', limits: '' });
+  const scopeErrors = getScopeErrors(scopeText);
+  const hasScopeErrors = Object.keys(scopeErrors).length > 0;
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (domain.trim()) {
-      onStartCrawl(domain.trim(), options);
+    if (domain.trim() && !hasScopeErrors) {
+      onStartCrawl(domain.trim(), {
+        ...options,
+        includePatterns: splitLines(scopeText.include),
+        excludePatterns: splitLines(scopeText.exclude),
+        stripQueryParams: scopeText.stripParams.split(/[\s,]+/).filter(param => param !== ''),
+        patternLimits: splitLines(scopeText.limits).map(parsePatternLimit)
+      });
     }
   };
 
@@ -126,7 +201,64 @@ export function CrawlerForm({ onStartCrawl, onStopCrawl, isLoading }: CrawlerFor
                 step="100"
                 className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               />
-              <p className="text-xs text-slate-500 mt-1">Delay between requests to be respectful</p>
+              <p className="text-xs text-slate-500 mt-1">Minimum delay between requests to the same host</p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">
+                Concurrency
+              </label>
+              <input
+                type="number"
+                value={options.concurrency}
+                onChange={(e) => setOptions(prev => ({ ...prev, concurrency: parseInt(e.target.value) || 1 }))}
+                min="1"
+                max="10"
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <p className="text-xs text-slate-500 mt-1">Number of pages fetched in parallel</p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">
+                Max Redirects
+              </label>
+              <input
+                type="number"
+                value={options.maxRedirects}
+                onChange={(e) => setOptions(prev => ({ ...prev, maxRedirects: parseInt(e.target.value) || 0 }))}
+                min="0"
+                max="30"
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <p className="text-xs text-slate-500 mt-1">Longer redirect chains are reported as failed pages</p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">
+                Retries
+              </label>
+              <input
+                type="number"
+                value={options.maxRetries}
+                onChange={(e) => setOptions(prev => ({ ...prev, maxRetries: parseInt(e.target.value) || 0 }))}
+                min="0"
+                max="10"
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <p className="text-xs text-slate-500 mt-1">Retries after timeouts, network errors and 429/5xx responses</p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">
+                Page Discovery
+              </label>
+              <select
+                value={options.discoveryMode}
+                onChange={(e) => setOptions(prev => ({ ...prev, discoveryMode: e.target.value as DiscoveryMode }))}
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="both">Links and sitemaps</option>
+                <option value="links">Follow links only</option>
+                <option value="sitemap">Sitemap only</option>
+              </select>
+              <p className="text-xs text-slate-500 mt-1">Sitemap only audits exactly the URLs a site declares</p>
             </div>
             <div className="flex items-center">
               <label className="flex items-center space-x-2 cursor-pointer">
@@ -143,29 +275,123 @@ export function CrawlerForm({ onStartCrawl, onStopCrawl, isLoading }: CrawlerFor
               <p className="text-xs text-slate-500 mt-1 ml-6">Follow robots.txt crawling rules</p>
             </div>
           </div>
+
+          <div className="border-t border-slate-200 pt-4">
+            <h4 className="text-sm font-semibold text-slate-700 mb-2">Crawl Scope</h4>
+            <p className="text-xs text-slate-600">
+              Keep faceted navigation and other endless URL spaces out of the crawl. Patterns match the URL path, one per line:
+              {' '}<code>*</code> within a path segment, <code>**</code> across segments, or a regular expression after <code>re:</code>.
+            </p>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">
+                Include Paths
+              </label>
+              <textarea
+                value={scopeText.include}
+                onChange={(e) => setScopeText(prev => ({ ...prev, include: e.target.value }))}
+                rows={3}
+                placeholder={'/blog/**\n/product/*'}
+                spellCheck={false}
+                className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono text-sm ${scopeErrors.include ? 'border-red-400' : 'border-slate-300'}`}
+              />
+              {scopeErrors.include
+                ? <p className="text-xs text-red-700 mt-1">{scopeErrors.include}</p>
+                : <p className="text-xs text-slate-500 mt-1">Only crawl matching URLs; the start page is always crawled</p>}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">
+                Exclude Paths
+              </label>
+              <textarea
+                value={scopeText.exclude}
+                onChange={(e) => setScopeText(prev => ({ ...prev, exclude: e.target.value }))}
+                rows={3}
+                placeholder={'/cart/**\nre:^/tag/'}
+                spellCheck={false}
+                className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono text-sm ${scopeErrors.exclude ? 'border-red-400' : 'border-slate-300'}`}
+              />
+              {scopeErrors.exclude
+                ? <p className="text-xs text-red-700 mt-1">{scopeErrors.exclude}</p>
+                : <p className="text-xs text-slate-500 mt-1">Never crawl matching URLs</p>}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">
+                Strip Query Parameters
+              </label>
+              <input
+                type="text"
+                value={scopeText.stripParams}
+                onChange={(e) => setScopeText(prev => ({ ...prev, stripParams: e.target.value }))}
+                placeholder="utm_*, sessionid, color, size"
+                spellCheck={false}
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono text-sm"
+              />
+              <p className="text-xs text-slate-500 mt-1">Removed from every URL, so URLs that differ only in them are crawled once; * alone removes all</p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">
+                Pages per Pattern
+              </label>
+              <textarea
+                value={scopeText.limits}
+                onChange={(e) => setScopeText(prev => ({ ...prev, limits: e.target.value }))}
+                rows={3}
+                placeholder={'/product/* 20\n/blog/** 50'}
+                spellCheck={false}
+                className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono text-sm ${scopeErrors.limits ? 'border-red-400' : 'border-slate-300'}`}
+              />
+              {scopeErrors.limits
+                ? <p className="text-xs text-red-700 mt-1">{scopeErrors.limits}</p>
+                : <p className="text-xs text-slate-500 mt-1">A pattern and the most pages to crawl that match it</p>}
+            </div>
+          </div>
         </div>
       )}
 
       {/* Action Buttons */}
       <div className="flex space-x-4">
         {!isLoading ? (
-          <button
-            type="submit"
-            disabled={!domain.trim()}
-            className="flex items-center space-x-2 px-6 py-3 bg-blue-600 text-white rounded-xl hover:bg-blue-700 disabled:bg-slate-300 disabled:cursor-not-allowed transition-all duration-200 font-medium"
-          >
-            <Play className="w-5 h-5" />
-            <span>Start Crawling</span>
-          </button>
+          <>
+            <button
+              type="submit"
+              disabled={!domain.trim() || hasScopeErrors}
+              className="flex items-center space-x-2 px-6 py-3 bg-blue-600 text-white rounded-xl hover:bg-blue-700 disabled:bg-slate-300 disabled:cursor-not-allowed transition-all duration-200 font-medium"
+            >
+              <Play className="w-5 h-5" />
+              <span>Start Crawling</span>
+            </button>
+            {isPaused && (
+              <button
+                type="button"
+                onClick={onResumeCrawl}
+                className="flex items-center space-x-2 px-6 py-3 bg-green-600 text-white rounded-xl hover:bg-green-700 transition-all duration-200 font-medium"
+              >
+                <Play className="w-5 h-5" />
+                <span>Resume Crawl</span>
+              </button>
+            )}
+          </>
         ) : (
-          <button
-            type="button"
-            onClick={onStopCrawl}
-            className="flex items-center space-x-2 px-6 py-3 bg-red-600 text-white rounded-xl hover:bg-red-700 transition-all duration-200 font-medium"
-          >
-            <Square className="w-5 h-5" />
-            <span>Stop Crawling</span>
-          </button>
+          <>
+            <button
+              type="button"
+              onClick={onPauseCrawl}
+              className="flex items-center space-x-2 px-6 py-3 bg-amber-500 text-white rounded-xl hover:bg-amber-600 transition-all duration-200 font-medium"
+            >
+              <Pause className="w-5 h-5" />
+              <span>Pause</span>
+            </button>
+            <button
+              type="button"
+              onClick={onStopCrawl}
+              className="flex items-center space-x-2 px-6 py-3 bg-red-600 text-white rounded-xl hover:bg-red-700 transition-all duration-200 font-medium"
+            >
+              <Square className="w-5 h-5" />
+              <span>Stop Crawling</span>
+            </button>
+          </>
         )}
       </div>
     </form>
@@ -1,26 +1,38 @@
 import React, { useState } from 'react';
-import { StructuredDataItem, StructuredDataSnippet } from '../types/crawler';
+import { StructuredDataItem, StructuredDataSnippet, CrawlStats, CrawledPage } from '../types/crawler';
 import { FilterBar } from './FilterBar';
 import { ViewModeSelector } from './ViewModeSelector';
 import { ResultsGrid } from './ResultsGrid';
+import { CrawlDiffView } from './CrawlDiffView';
+import { CrawledPagesView } from './CrawledPagesView';
+import { TabularExportPanel } from './TabularExportPanel';
+import { ExportMenu } from './ExportMenu';
 import { useFilteredData, FilterOptions } from '../hooks/useFilteredData';
 import { useViewData, ViewMode } from '../hooks/useViewData';
 import { ViewModeProvider } from '../contexts/ViewModeContext';
-import { Download } from 'lucide-react';
+import { createCrawlExport } from '../services/crawlExport';
+import { serializeNQuads, createTurtleZip } from '../services/rdfExport';
+import { downloadBlob, getExportDate } from '../utils/download';
 
 interface CrawlerResultsProps {
   data: StructuredDataItem[];
   snippetData: StructuredDataSnippet[];
+  // Written into JSON exports so they can be imported again
+  stats?: CrawlStats | null;
+  // Every page the crawl fetched, for the Pages view and exports
+  pages?: CrawledPage[];
 }
 
-export function CrawlerResults({ data, snippetData }: CrawlerResultsProps) {
+export function CrawlerResults({ data, snippetData, stats, pages }: CrawlerResultsProps) {
   const [viewMode, setViewMode] = useState<ViewMode>('byUrl');
   const [showViewModeDropdown, setShowViewModeDropdown] = useState(false);
   const [showFilters, setShowFilters] = useState(false);
+  const [showTabularExport, setShowTabularExport] = useState(false);
   const [filters, setFilters] = useState<FilterOptions>({
     searchTerm: '',
     selectedType: 'all',
-    selectedFormat: 'all'
+    selectedFormat: 'all',
+    validationStatus: 'all'
   });
 
   const {
@@ -38,22 +50,23 @@ export function CrawlerResults({ data, snippetData }: CrawlerResultsProps) {
   } = useViewData(filteredData, filteredSnippetData);
 
   const exportData = () => {
-    const exportObj = {
-      crawledAt: new Date().toISOString(),
-      totalItems: data.length,
-      individualData: filteredData,
-      snippetData: snippetData
-    };
+    const exportObj = createCrawlExport(filteredData, snippetData, data.length, {
+      stats: stats ?? undefined,
+      pages
+    });
     
     const blob = new Blob([JSON.stringify(exportObj, null, 2)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `structured-data-${new Date().toISOString().split('T')[0]}.json`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    downloadBlob(blob, `structured-data-${getExportDate()}.json`);
+  };
+
+  const exportNQuads = () => {
+    const blob = new Blob([serializeNQuads(filteredData)], { type: 'application/n-quads' });
+    downloadBlob(blob, `structured-data-${getExportDate()}.nq`);
+  };
+
+  const exportTurtle = () => {
+    const blob = new Blob([createTurtleZip(filteredData)], { type: 'application/zip' });
+    downloadBlob(blob, `structured-data-${getExportDate()}-turtle.zip`);
   };
 
   const getResultsDescription = () => {
@@ -66,6 +79,19 @@ export function CrawlerResults({ data, snippetData }: CrawlerResultsProps) {
         return `${baseText} across ${byUrlData.length} URL${byUrlData.length !== 1 ? 's' : ''}`;
       case 'bySnippet':
         return `${baseText} of ${snippetData.length} snippet${snippetData.length !== 1 ? 's' : ''}`;
+      case 'pages': {
+        const failed = (pages || []).filter(page => page.error).length;
+        const pageCount = pages?.length ?? 0;
+        return `${pageCount} page${pageCount !== 1 ? 's' : ''} fetched, ${failed} failed`;
+      }
+      case 'graph': {
+        const connectionCount = filteredSnippetData.reduce((count, snippet) => count + snippet.connections.length, 0);
+        return `${filteredSnippetData.length} snippet${filteredSnippetData.length !== 1 ? 's' : ''} with ${connectionCount} connection${connectionCount !== 1 ? 's' : ''}`;
+      }
+      case 'coverage':
+        return `Share of pages per path pattern that carry each type (${byTypeData.length} type${byTypeData.length !== 1 ? 's' : ''})`;
+      case 'compare':
+        return 'Compare two crawls to see which structured data was added, removed or changed';
       case 'byOccurrence':
       default:
         return baseText;
@@ -93,38 +119,55 @@ export function CrawlerResults({ data, snippetData }: CrawlerResultsProps) {
               onToggleDropdown={() => setShowViewModeDropdown(!showViewModeDropdown)}
             />
             
-            <button
-              onClick={exportData}
-              className="hidden md:flex items-center space-x-2 px-4 py-2 bg-slate-600 text-white rounded-lg hover:bg-slate-700 transition-colors"
-            >
-              <Download className="w-4 h-4" />
-              <span>Export JSON</span>
-            </button>
+            <ExportMenu
+              onExportJson={exportData}
+              onExportTabular={() => setShowTabularExport(true)}
+              onExportNQuads={exportNQuads}
+              onExportTurtle={exportTurtle}
+            />
           </div>
         </div>
 
-        {/* Filters */}
-        <FilterBar
-          filters={filters}
-          onFiltersChange={setFilters}
-          types={uniqueTypes}
-          formats={uniqueFormats}
-          showFilters={showFilters}
-          onToggleFilters={() => setShowFilters(!showFilters)}
-        />
+        {showTabularExport && (
+          <TabularExportPanel
+            items={filteredData}
+            snippets={filteredSnippetData}
+            pages={pages}
+            onClose={() => setShowTabularExport(false)}
+          />
+        )}
 
-        {/* Results Grid */}
-        <ResultsGrid
-          viewMode={viewMode}
-          filteredData={filteredData}
-          filteredSnippetData={filteredSnippetData}
-          allSnippetData={snippetData}
-          byTypeData={byTypeData}
-          byUrlData={byUrlData}
-          expandedCategories={expandedCategories}
-          onToggleCategory={toggleCategory}
-          currentFormatFilter={filters.selectedFormat}
-        />
+        {viewMode === 'compare' ? (
+          <CrawlDiffView currentData={data} />
+        ) : viewMode === 'pages' ? (
+          <CrawledPagesView pages={pages || []} />
+        ) : (
+          <>
+            {/* Filters */}
+            <FilterBar
+              filters={filters}
+              onFiltersChange={setFilters}
+              types={uniqueTypes}
+              formats={uniqueFormats}
+              showFilters={showFilters}
+              onToggleFilters={() => setShowFilters(!showFilters)}
+            />
+
+            {/* Results Grid */}
+            <ResultsGrid
+              viewMode={viewMode}
+              filteredData={filteredData}
+              filteredSnippetData={filteredSnippetData}
+              allSnippetData={snippetData}
+              byTypeData={byTypeData}
+              byUrlData={byUrlData}
+              pages={pages}
+              expandedCategories={expandedCategories}
+              onToggleCategory={toggleCategory}
+              currentFormatFilter={filters.selectedFormat}
+            />
+          </>
+        )}
       </div>
     </ViewModeProvider>
   );
@@ -1,5 +1,6 @@
 import React from 'react';
 import { CrawlStats } from '../types/crawler';
+import { formatDuration } from '../utils/formatUtils';
 import { Clock, Globe, Database, Activity } from 'lucide-react';
 
 interface CrawlerStatsProps {
@@ -7,20 +8,6 @@ interface CrawlerStatsProps {
 }
 
 export function CrawlerStats({ stats }: CrawlerStatsProps) {
-  const formatDuration = (ms: number) => {
-    const seconds = Math.floor(ms / 1000);
-    const minutes = Math.floor(seconds / 60);
-    const hours = Math.floor(minutes / 60);
-    
-    if (hours > 0) {
-      return `${hours}h ${minutes % 60}m ${seconds % 60}s`;
-    } else if (minutes > 0) {
-      return `${minutes}m ${seconds % 60}s`;
-    } else {
-      return `${seconds}s`;
-    }
-  };
-
   const statCards = [
     {
       label: 'Pages Crawled',
@@ -44,7 +31,7 @@ export function CrawlerStats({ stats }: CrawlerStatsProps) {
       label: 'Status',
       value: stats.status,
       icon: Activity,
-      color: stats.status === 'running' ? 'orange' : stats.status === 'completed' ? 'green' : 'red'
+      color: stats.status === 'running' ? 'orange' : stats.status === 'paused' ? 'blue' : stats.status === 'completed' ? 'green' : 'red'
     }
   ];
 
@@ -0,0 +1,55 @@
+import { useState } from 'react';
+import { ChevronDown, Download, FileJson, Network, Table } from 'lucide-react';
+
+interface ExportMenuProps {
+  onExportJson: () => void;
+  onExportTabular: () => void;
+  onExportNQuads: () => void;
+  onExportTurtle: () => void;
+}
+
+export function ExportMenu({ onExportJson, onExportTabular, onExportNQuads, onExportTurtle }: ExportMenuProps) {
+  const [showMenu, setShowMenu] = useState(false);
+
+  const options = [
+    { label: 'JSON', description: 'Items, snippets and connections', icon: FileJson, onSelect: onExportJson },
+    { label: 'CSV / TSV...', description: 'Flattened, one file per type', icon: Table, onSelect: onExportTabular },
+    { label: 'N-Quads', description: 'RDF with the page URL as graph', icon: Network, onSelect: onExportNQuads },
+    { label: 'Turtle', description: 'RDF, one file per page', icon: Network, onSelect: onExportTurtle }
+  ];
+
+  return (
+    <div className="hidden md:block relative">
+      <button
+        onClick={() => setShowMenu(!showMenu)}
+        aria-expanded={showMenu}
+        className="flex items-center space-x-2 px-4 py-2 bg-slate-600 text-white rounded-lg hover:bg-slate-700 transition-colors"
+      >
+        <Download className="w-4 h-4" />
+        <span>Export</span>
+        <ChevronDown className="w-4 h-4" />
+      </button>
+
+      {showMenu && (
+        <div className="absolute top-full right-0 mt-1 w-64 bg-white rounded-lg shadow-lg border border-slate-200 z-10 py-1">
+          {options.map(({ label, description, icon: Icon, onSelect }) => (
+            <button
+              key={label}
+              onClick={() => {
+                setShowMenu(false);
+                onSelect();
+              }}
+              className="flex items-start space-x-3 w-full px-4 py-2 text-left hover:bg-slate-50"
+            >
+              <Icon className="w-4 h-4 mt-0.5 text-slate-600" />
+              <span>
+                <span className="block text-sm font-medium text-slate-900">{label}</span>
+                <span className="block text-xs text-slate-500">{description}</span>
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import React from 'react';
 import { Filter, Search, ChevronDown } from 'lucide-react';
-import { FilterOptions } from '../hooks/useFilteredData';
+import { FilterOptions, ValidationFilter } from '../hooks/useFilteredData';
 
 interface FilterBarProps {
   filters: FilterOptions;
@@ -19,7 +19,7 @@ export function FilterBar({
   showFilters,
   onToggleFilters
 }: FilterBarProps) {
-  const updateFilter = (key: keyof FilterOptions, value: string) => {
+  const updateFilter = <K extends keyof FilterOptions>(key: K, value: FilterOptions[K]) => {
     onFiltersChange({
       ...filters,
       [key]: value
@@ -41,7 +41,7 @@ export function FilterBar({
       
       <div className={`${showFilters ? 'block' : 'hidden'} md:block`}>
         <div className="px-6 pb-6 md:pt-0 pt-0">
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
             {/* Search */}
             <div>
               <label className="block text-sm font-medium text-slate-700 mb-2">
@@ -92,6 +92,23 @@ export function FilterBar({
                 ))}
               </select>
             </div>
+
+            {/* Validation Filter */}
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">
+                Validation
+              </label>
+              <select
+                value={filters.validationStatus}
+                onChange={(e) => updateFilter('validationStatus', e.target.value as ValidationFilter)}
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="all">All Items</option>
+                <option value="errors">Has Errors</option>
+                <option value="warnings">Has Warnings</option>
+                <option value="valid">Valid</option>
+              </select>
+            </div>
           </div>
         </div>
       </div>
@@ -0,0 +1,72 @@
+import { useRef, useState, DragEvent, ReactNode } from 'react';
+import { Upload } from 'lucide-react';
+
+interface ImportDropZoneProps {
+  onImport: (file: File) => void;
+  disabled?: boolean;
+  children: ReactNode;
+}
+
+const hasFiles = (event: DragEvent) => Array.from(event.dataTransfer.types).includes('Files');
+
+// Accepts an exported crawl dropped anywhere on the page
+export function ImportDropZone({ onImport, disabled = false, children }: ImportDropZoneProps) {
+  const [isDragging, setIsDragging] = useState(false);
+  // dragenter/dragleave fire for every child element, so count the nesting
+  const dragDepthRef = useRef(0);
+
+  const handleDragEnter = (event: DragEvent) => {
+    if (disabled || !hasFiles(event)) return;
+    event.preventDefault();
+    dragDepthRef.current++;
+    setIsDragging(true);
+  };
+
+  const handleDragOver = (event: DragEvent) => {
+    if (disabled || !hasFiles(event)) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'copy';
+  };
+
+  const handleDragLeave = (event: DragEvent) => {
+    if (disabled || !hasFiles(event)) return;
+    dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+    if (dragDepthRef.current === 0) {
+      setIsDragging(false);
+    }
+  };
+
+  const handleDrop = (event: DragEvent) => {
+    if (disabled || !hasFiles(event)) return;
+    event.preventDefault();
+    dragDepthRef.current = 0;
+    setIsDragging(false);
+
+    const file = event.dataTransfer.files[0];
+    if (file) {
+      onImport(file);
+    }
+  };
+
+  return (
+    <div
+      onDragEnter={handleDragEnter}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+      className="relative min-h-screen"
+    >
+      {children}
+
+      {isDragging && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-blue-600/10 backdrop-blur-sm pointer-events-none">
+          <div className="flex flex-col items-center px-10 py-8 bg-white rounded-2xl shadow-lg border-2 border-dashed border-blue-400">
+            <Upload className="w-10 h-10 text-blue-600 mb-3" />
+            <p className="text-lg font-semibold text-slate-900">Drop an exported crawl to open it</p>
+            <p className="text-sm text-slate-500">JSON files from Export or the command line</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,252 @@
+import { useState } from 'react';
+import { useProxySettings } from '../hooks/useProxySettings';
+import {
+  ProxyConfig,
+  ProxyFormat,
+  ProxyTestResult,
+  PROXY_FORMATS,
+  getActiveProxies,
+  getProxyTemplateError,
+  testProxy
+} from '../services/proxySettings';
+import { formatBytes } from '../utils/formatUtils';
+import { ArrowDown, ArrowUp, Loader2, Plus, RotateCcw, Shield, Trash2 } from 'lucide-react';
+
+const inputClassName = 'w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm';
+
+function createProxyId(): string {
+  return `proxy-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+export function ProxySettingsPanel() {
+  const { settings, updateSettings, resetSettings } = useProxySettings();
+  const [testUrl, setTestUrl] = useState('https://example.com/');
+  // Results by proxy id; null while the test is running
+  const [testResults, setTestResults] = useState<Record<string, ProxyTestResult | null>>({});
+
+  const updateProxy = (id: string, changes: Partial<ProxyConfig>) => {
+    updateSettings({
+      ...settings,
+      proxies: settings.proxies.map(proxy => (proxy.id === id ? { ...proxy, ...changes } : proxy))
+    });
+  };
+
+  const moveProxy = (index: number, offset: -1 | 1) => {
+    const proxies = [...settings.proxies];
+    [proxies[index], proxies[index + offset]] = [proxies[index + offset], proxies[index]];
+    updateSettings({ ...settings, proxies });
+  };
+
+  const removeProxy = (proxy: ProxyConfig) => {
+    if (window.confirm(`Remove the proxy ${proxy.name}?`)) {
+      updateSettings({ ...settings, proxies: settings.proxies.filter(other => other.id !== proxy.id) });
+    }
+  };
+
+  const addProxy = () => {
+    updateSettings({
+      ...settings,
+      proxies: [
+        ...settings.proxies,
+        { id: createProxyId(), name: 'New proxy', template: 'https://', format: 'raw', enabled: false, public: false }
+      ]
+    });
+  };
+
+  const runTest = async (proxy: ProxyConfig) => {
+    setTestResults(prev => ({ ...prev, [proxy.id]: null }));
+    const result = await testProxy(proxy, testUrl);
+    setTestResults(prev => ({ ...prev, [proxy.id]: result }));
+  };
+
+  const activeCount = getActiveProxies(settings).length;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6 space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <div className="flex items-center space-x-2">
+            <Shield className="w-5 h-5 text-blue-600" />
+            <h2 className="text-xl font-semibold text-slate-900">Proxy Settings</h2>
+          </div>
+          <p className="text-sm text-slate-600 mt-2 max-w-3xl">
+            Pages are fetched directly from the site. Once a site blocks cross-origin requests, its pages go through
+            the enabled proxies below, in order, until one of them answers. The Pages view shows which one served each page.
+          </p>
+        </div>
+        <button
+          onClick={() => {
+            if (window.confirm('Replace the proxy list with the defaults?')) resetSettings();
+          }}
+          className="flex items-center space-x-2 px-3 py-1.5 text-sm text-slate-600 hover:text-slate-800 hover:bg-slate-100 rounded-lg transition-all duration-200 whitespace-nowrap"
+        >
+          <RotateCcw className="w-4 h-4" />
+          <span>Reset to defaults</span>
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="bg-slate-50 rounded-xl p-4">
+          <label className="flex items-center space-x-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.allowPublicProxies}
+              onChange={(e) => updateSettings({ ...settings, allowPublicProxies: e.target.checked })}
+              className="w-4 h-4 text-blue-600 border-slate-300 rounded focus:ring-blue-500"
+            />
+            <span className="text-sm font-medium text-slate-700">Allow public proxies</span>
+          </label>
+          <p className="text-xs text-slate-500 mt-1 ml-6">
+            Public proxies are run by third parties and see every page sent through them, so they are off
+            until you switch them on. Leave this off for sites under NDA; only your own proxies are used then.
+          </p>
+        </div>
+        <div className="bg-slate-50 rounded-xl p-4">
+          <label className="block text-sm font-medium text-slate-700 mb-2">Test URL</label>
+          <input
+            type="text"
+            value={testUrl}
+            onChange={(e) => setTestUrl(e.target.value)}
+            className={inputClassName}
+          />
+          <p className="text-xs text-slate-500 mt-1">Fetched through a single proxy when you test it</p>
+        </div>
+      </div>
+
+      {activeCount === 0 && (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-800">
+          No proxy is in use: pages of sites that block cross-origin requests will fail.
+        </div>
+      )}
+
+      <ol className="space-y-3">
+        {settings.proxies.map((proxy, index) => {
+          const templateError = getProxyTemplateError(proxy.template);
+          const isSkipped = proxy.public && !settings.allowPublicProxies;
+          const result = testResults[proxy.id];
+          return (
+            <li
+              key={proxy.id}
+              className={`border rounded-xl p-4 ${proxy.enabled && !isSkipped ? 'border-slate-200' : 'border-slate-200 bg-slate-50 opacity-75'}`}
+            >
+              <div className="flex items-start space-x-3">
+                <div className="flex flex-col items-center pt-1">
+                  <span className="text-xs font-semibold text-slate-500">{index + 1}</span>
+                  <button
+                    onClick={() => moveProxy(index, -1)}
+                    disabled={index === 0}
+                    title="Move up"
+                    className="p-1 text-slate-500 hover:text-slate-800 disabled:opacity-30 disabled:cursor-not-allowed"
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => moveProxy(index, 1)}
+                    disabled={index === settings.proxies.length - 1}
+                    title="Move down"
+                    className="p-1 text-slate-500 hover:text-slate-800 disabled:opacity-30 disabled:cursor-not-allowed"
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </button>
+                </div>
+
+                <div className="flex-1 grid grid-cols-1 md:grid-cols-6 gap-3">
+                  <div className="md:col-span-2">
+                    <label className="block text-xs font-medium text-slate-600 mb-1">Name</label>
+                    <input
+                      type="text"
+                      value={proxy.name}
+                      onChange={(e) => updateProxy(proxy.id, { name: e.target.value })}
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div className="md:col-span-4">
+                    <label className="block text-xs font-medium text-slate-600 mb-1">URL template</label>
+                    <input
+                      type="text"
+                      value={proxy.template}
+                      onChange={(e) => updateProxy(proxy.id, { template: e.target.value })}
+                      spellCheck={false}
+                      className={`${inputClassName} font-mono ${templateError ? 'border-red-400' : ''}`}
+                    />
+                    {templateError && <p className="text-xs text-red-700 mt-1">{templateError}</p>}
+                  </div>
+                  <div className="md:col-span-2">
+                    <label className="block text-xs font-medium text-slate-600 mb-1">Response format</label>
+                    <select
+                      value={proxy.format}
+                      onChange={(e) => updateProxy(proxy.id, { format: e.target.value as ProxyFormat })}
+                      className={inputClassName}
+                    >
+                      {PROXY_FORMATS.map(format => (
+                        <option key={format.value} value={format.value}>{format.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="md:col-span-4 flex flex-wrap items-center gap-x-6 gap-y-2 pt-5">
+                    <label className="flex items-center space-x-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={proxy.enabled}
+                        onChange={(e) => updateProxy(proxy.id, { enabled: e.target.checked })}
+                        className="w-4 h-4 text-blue-600 border-slate-300 rounded focus:ring-blue-500"
+                      />
+                      <span className="text-sm text-slate-700">Enabled</span>
+                    </label>
+                    <label className="flex items-center space-x-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={proxy.public}
+                        onChange={(e) => updateProxy(proxy.id, { public: e.target.checked })}
+                        className="w-4 h-4 text-blue-600 border-slate-300 rounded focus:ring-blue-500"
+                      />
+                      <span className="text-sm text-slate-700">Public (third party)</span>
+                    </label>
+                    {isSkipped && proxy.enabled && (
+                      <span className="text-xs text-amber-700">Skipped while public proxies are off</span>
+                    )}
+                  </div>
+                </div>
+
+                <div className="flex flex-col items-end space-y-2">
+                  <button
+                    onClick={() => runTest(proxy)}
+                    disabled={!!templateError || result === null || !testUrl.trim()}
+                    className="flex items-center space-x-1 px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {result === null && <Loader2 className="w-4 h-4 animate-spin" />}
+                    <span>Test</span>
+                  </button>
+                  <button
+                    onClick={() => removeProxy(proxy)}
+                    title="Remove"
+                    className="p-1.5 text-slate-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+
+              {result && (
+                <p className={`text-xs mt-3 ml-10 ${result.ok ? 'text-green-700' : 'text-red-700'}`}>
+                  {result.ok
+                    ? `Works: ${result.status !== undefined ? `HTTP ${result.status}, ` : ''}` +
+                      `${result.bytes !== undefined ? `${formatBytes(result.bytes)}, ` : ''}${result.time} ms`
+                    : `Failed after ${result.time} ms: ${result.error}`}
+                </p>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      <button
+        onClick={addProxy}
+        className="flex items-center space-x-2 px-4 py-2 text-sm text-blue-600 border border-blue-200 rounded-lg hover:bg-blue-50 transition-colors"
+      >
+        <Plus className="w-4 h-4" />
+        <span>Add proxy</span>
+      </button>
+    </div>
+  );
+}
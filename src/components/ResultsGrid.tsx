@@ -1,7 +1,9 @@
-import React from 'react';
-import { StructuredDataItem, StructuredDataSnippet } from '../types/crawler';
+import React, { useMemo } from 'react';
+import { StructuredDataItem, StructuredDataSnippet, CrawledPage } from '../types/crawler';
 import { StructuredDataCard } from './StructuredDataCard';
 import { StructuredDataSnippetCard } from './StructuredDataSnippetCard';
+import { SnippetGraphView } from './SnippetGraphView';
+import { CoverageMatrixView } from './CoverageMatrixView';
 import { getSnippetIcon } from '../utils/iconUtils';
 import { ViewMode } from '../hooks/useViewData';
 import { 
@@ -9,6 +11,8 @@ import {
   TreePine, 
   Group, 
   List, 
+  Share2, 
+  Grid3x3, 
   Eye, 
   ChevronDown, 
   ChevronRight 
@@ -21,6 +25,8 @@ interface ResultsGridProps {
   allSnippetData: StructuredDataSnippet[];
   byTypeData: [string, StructuredDataSnippet[]][];
   byUrlData: [string, StructuredDataItem[]][];
+  // Pages visited by the crawl, so the coverage view can count pages without markup
+  pages?: CrawledPage[];
   expandedCategories: { [key: string]: boolean };
   onToggleCategory: (key: string) => void;
   currentFormatFilter: string;
@@ -33,10 +39,19 @@ export function ResultsGrid({
   allSnippetData,
   byTypeData,
   byUrlData,
+  pages,
   expandedCategories,
   onToggleCategory,
   currentFormatFilter
 }: ResultsGridProps) {
+  const crawledUrls = useMemo(() => {
+    const urls = new Set(
+      (pages || []).filter(page => !page.error && !page.duplicate && !page.skipped).map(page => page.canonical ?? page.url)
+    );
+    byUrlData.forEach(([url]) => urls.add(url));
+    return Array.from(urls).sort();
+  }, [pages, byUrlData]);
+
   const EmptyState = ({ icon: Icon, title, description }: { 
     icon: React.ElementType; 
     title: string; 
@@ -121,6 +136,34 @@ export function ResultsGrid({
     );
   }
 
+  if (viewMode === 'graph') {
+    return filteredSnippetData.length > 0 ? (
+      <SnippetGraphView
+        snippets={filteredSnippetData}
+        allSnippets={allSnippetData}
+        currentFormatFilter={currentFormatFilter}
+      />
+    ) : (
+      <EmptyState 
+        icon={Share2}
+        title="No Snippets Found"
+        description="Try adjusting your search terms or filters to see more results."
+      />
+    );
+  }
+
+  if (viewMode === 'coverage') {
+    return crawledUrls.length > 0 ? (
+      <CoverageMatrixView urls={crawledUrls} byTypeData={byTypeData} />
+    ) : (
+      <EmptyState 
+        icon={Grid3x3}
+        title="No Pages Found"
+        description="Try adjusting your search terms or filters to see more results."
+      />
+    );
+  }
+
   if (viewMode === 'byUrl') {
     return byUrlData.length > 0 ? (
       <div className="space-y-8">
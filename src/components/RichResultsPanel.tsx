@@ -0,0 +1,131 @@
+import { useMemo, useState } from 'react';
+import { RichResultCheck, RichResultStatus, StructuredDataSnippet } from '../types/crawler';
+import { checkRichResults, summarizeRichResults } from '../services/richResults';
+import { ChevronDown, ChevronRight, ExternalLink, Sparkles } from 'lucide-react';
+
+interface RichResultsPanelProps {
+  snippetData: StructuredDataSnippet[];
+}
+
+const MAX_PAGES_SHOWN = 5;
+
+const statusStyles: Record<RichResultStatus, { label: string; className: string }> = {
+  eligible: { label: 'Eligible', className: 'bg-green-100 text-green-800' },
+  warnings: { label: 'With warnings', className: 'bg-amber-100 text-amber-800' },
+  invalid: { label: 'Invalid', className: 'bg-red-100 text-red-800' }
+};
+
+function RichResultCheckRow({ check }: { check: RichResultCheck }) {
+  const { label, className } = statusStyles[check.status];
+  const shownPages = check.pages.slice(0, MAX_PAGES_SHOWN);
+
+  return (
+    <li className="py-3 space-y-2">
+      <div className="flex items-center space-x-2">
+        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${className}`}>
+          {label}
+        </span>
+        {check.snippet.type && (
+          <span className="text-sm font-medium text-slate-800">{check.snippet.type}</span>
+        )}
+        <span className="text-xs text-slate-500">
+          on {check.pages.length} page{check.pages.length !== 1 ? 's' : ''}
+        </span>
+      </div>
+
+      {check.missingRequired.length > 0 && (
+        <p className="text-xs text-red-700">
+          Missing required: {check.missingRequired.join(', ')}
+        </p>
+      )}
+      {check.missingRecommended.length > 0 && (
+        <p className="text-xs text-amber-700">
+          Missing recommended: {check.missingRecommended.join(', ')}
+        </p>
+      )}
+
+      <ul className="space-y-1">
+        {shownPages.map(page => (
+          <li key={page}>
+            <a
+              href={page}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-xs text-blue-600 hover:text-blue-800 flex items-center space-x-1 group"
+            >
+              <span className="truncate">{page}</span>
+              <ExternalLink className="w-3 h-3 opacity-0 group-hover:opacity-100 transition-opacity flex-shrink-0" />
+            </a>
+          </li>
+        ))}
+        {check.pages.length > MAX_PAGES_SHOWN && (
+          <li className="text-xs text-slate-500">
+            and {check.pages.length - MAX_PAGES_SHOWN} more
+          </li>
+        )}
+      </ul>
+    </li>
+  );
+}
+
+export function RichResultsPanel({ snippetData }: RichResultsPanelProps) {
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const summaries = useMemo(() => summarizeRichResults(checkRichResults(snippetData)), [snippetData]);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+      <div className="flex items-center space-x-2 mb-4">
+        <Sparkles className="w-5 h-5 text-blue-600" />
+        <h3 className="text-lg font-semibold text-slate-900">Rich Result Eligibility</h3>
+      </div>
+
+      {summaries.length === 0 ? (
+        <p className="text-sm text-slate-500">
+          No markup for rich result types (Product, Article, Recipe, FAQ, Breadcrumb, Event, Job Posting, ...) found yet.
+        </p>
+      ) : (
+        <div className="divide-y divide-slate-200">
+          <div className="grid grid-cols-5 gap-2 pb-2 text-xs font-medium text-slate-500 uppercase tracking-wide">
+            <span className="col-span-2">Rich Result</span>
+            <span className="text-center">Eligible</span>
+            <span className="text-center">Warnings</span>
+            <span className="text-center">Invalid</span>
+          </div>
+
+          {summaries.map(summary => {
+            const isExpanded = expanded === summary.richResult;
+            return (
+              <div key={summary.richResult}>
+                <button
+                  onClick={() => setExpanded(isExpanded ? null : summary.richResult)}
+                  aria-expanded={isExpanded}
+                  className="w-full grid grid-cols-5 gap-2 py-2 text-sm text-left hover:bg-slate-50 transition-colors"
+                >
+                  <span className="col-span-2 flex items-center space-x-1 font-medium text-slate-800">
+                    {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                    <span>{summary.richResult}</span>
+                    <span className="text-xs font-normal text-slate-500">
+                      ({summary.pages} page{summary.pages !== 1 ? 's' : ''})
+                    </span>
+                  </span>
+                  <span className="text-center font-semibold text-green-600">{summary.eligible}</span>
+                  <span className="text-center font-semibold text-amber-600">{summary.warnings}</span>
+                  <span className="text-center font-semibold text-red-600">{summary.invalid}</span>
+                </button>
+
+                {isExpanded && (
+                  <ul className="pl-5 pb-2 divide-y divide-slate-100">
+                    {summary.checks.map(check => (
+                      <RichResultCheckRow key={check.snippet.hash} check={check} />
+                    ))}
+                  </ul>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
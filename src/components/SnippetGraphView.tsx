@@ -0,0 +1,430 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Connection, StructuredDataSnippet } from '../types/crawler';
+import { StructuredDataSnippetCard } from './StructuredDataSnippetCard';
+import {
+  CONNECTION_TYPES,
+  GraphNode,
+  SnippetGraph,
+  buildSnippetGraph,
+  findOrphans,
+  getGraphBounds
+} from '../services/snippetGraph';
+import { Maximize, X, ZoomIn, ZoomOut } from 'lucide-react';
+
+interface SnippetGraphViewProps {
+  snippets: StructuredDataSnippet[];
+  allSnippets: StructuredDataSnippet[];
+  currentFormatFilter?: string;
+}
+
+interface Viewport {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+// Same hues as the connection and format badges on the snippet cards
+const CONNECTION_COLORS: Record<Connection['type'], string> = {
+  reference: '#3b82f6',
+  sameAs: '#22c55e',
+  mainEntity: '#a855f7',
+  about: '#f97316',
+  author: '#ec4899',
+  publisher: '#6366f1'
+};
+
+const FORMAT_COLORS: Record<string, string> = {
+  'JSON-LD': '#2563eb',
+  'Microdata': '#16a34a',
+  'RDFa': '#9333ea',
+  'OpenGraph': '#ea580c',
+  'Twitter Cards': '#0891b2',
+  'Schema.org': '#4f46e5',
+  'Mixed': '#475569'
+};
+
+const ORPHAN_COLOR = '#ef4444';
+const CANVAS_HEIGHT = 600;
+const MIN_SCALE = 0.02;
+const MAX_SCALE = 8;
+// Pointer movement below this many pixels still counts as a click
+const CLICK_TOLERANCE = 4;
+
+function getNodeLabel(snippet: StructuredDataSnippet): string {
+  const data = snippet.items[0]?.data;
+  const name = data && typeof data === 'object'
+    ? [data.name, data.headline, data.title, data['og:title']].find(value => typeof value === 'string' && value.trim())
+    : undefined;
+  const type = snippet.type || snippet.format;
+  return name ? `${type}: ${name}` : type;
+}
+
+export function SnippetGraphView({ snippets, allSnippets, currentFormatFilter = 'all' }: SnippetGraphViewProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const viewportRef = useRef<Viewport>({ x: 0, y: 0, scale: 1 });
+  const dragRef = useRef<{ startX: number; startY: number; lastX: number; lastY: number; moved: boolean } | null>(null);
+  const frameRef = useRef<number | null>(null);
+  const fittedGraphRef = useRef<SnippetGraph | null>(null);
+  const [width, setWidth] = useState(0);
+  const [enabledTypes, setEnabledTypes] = useState<Set<Connection['type']>>(() => new Set(CONNECTION_TYPES));
+  const [highlightOrphans, setHighlightOrphans] = useState(true);
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [hovered, setHovered] = useState<{ index: number; x: number; y: number } | null>(null);
+
+  const graph = useMemo(() => buildSnippetGraph(snippets), [snippets]);
+  const orphans = useMemo(() => findOrphans(graph, enabledTypes), [graph, enabledTypes]);
+
+  const edgeCounts = useMemo(() => {
+    const counts = {} as Record<Connection['type'], number>;
+    CONNECTION_TYPES.forEach(type => { counts[type] = 0; });
+    graph.edges.forEach(edge => { counts[edge.type]++; });
+    return counts;
+  }, [graph]);
+
+  const draw = useCallback(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    const { x, y, scale } = viewportRef.current;
+    context.setTransform(ratio, 0, 0, ratio, 0, 0);
+    context.clearRect(0, 0, canvas.width / ratio, canvas.height / ratio);
+    context.setTransform(ratio * scale, 0, 0, ratio * scale, ratio * x, ratio * y);
+
+    // Only draw what's on screen, which keeps panning smooth on large graphs
+    const viewLeft = -x / scale;
+    const viewTop = -y / scale;
+    const viewRight = viewLeft + canvas.width / ratio / scale;
+    const viewBottom = viewTop + canvas.height / ratio / scale;
+    const isVisible = (node: GraphNode) =>
+      node.x + node.radius >= viewLeft && node.x - node.radius <= viewRight &&
+      node.y + node.radius >= viewTop && node.y - node.radius <= viewBottom;
+
+    const showArrows = scale > 0.5;
+    context.lineWidth = 1.5 / scale;
+    graph.edges.forEach(edge => {
+      if (!enabledTypes.has(edge.type)) return;
+      const source = graph.nodes[edge.source];
+      const target = graph.nodes[edge.target];
+      if (!isVisible(source) && !isVisible(target)) return;
+
+      const isSelected = selectedIndex !== null && (edge.source === selectedIndex || edge.target === selectedIndex);
+      context.strokeStyle = CONNECTION_COLORS[edge.type];
+      context.globalAlpha = selectedIndex === null || isSelected ? 0.8 : 0.15;
+      context.beginPath();
+      context.moveTo(source.x, source.y);
+      context.lineTo(target.x, target.y);
+      context.stroke();
+
+      if (showArrows) {
+        const angle = Math.atan2(target.y - source.y, target.x - source.x);
+        const tipX = target.x - Math.cos(angle) * target.radius;
+        const tipY = target.y - Math.sin(angle) * target.radius;
+        const size = 6;
+        context.fillStyle = CONNECTION_COLORS[edge.type];
+        context.beginPath();
+        context.moveTo(tipX, tipY);
+        context.lineTo(tipX - size * Math.cos(angle - 0.4), tipY - size * Math.sin(angle - 0.4));
+        context.lineTo(tipX - size * Math.cos(angle + 0.4), tipY - size * Math.sin(angle + 0.4));
+        context.closePath();
+        context.fill();
+      }
+    });
+    context.globalAlpha = 1;
+
+    const showLabels = scale > 1.2;
+    context.font = `${11 / scale}px sans-serif`;
+    graph.nodes.forEach((node, index) => {
+      if (!isVisible(node)) return;
+
+      context.fillStyle = FORMAT_COLORS[node.snippet.format] || FORMAT_COLORS.Mixed;
+      context.beginPath();
+      context.arc(node.x, node.y, node.radius, 0, Math.PI * 2);
+      context.fill();
+
+      if (highlightOrphans && orphans.has(index)) {
+        context.strokeStyle = ORPHAN_COLOR;
+        context.lineWidth = 3 / scale;
+        context.stroke();
+      }
+      if (index === selectedIndex) {
+        context.strokeStyle = '#0f172a';
+        context.lineWidth = 3 / scale;
+        context.beginPath();
+        context.arc(node.x, node.y, node.radius + 4 / scale, 0, Math.PI * 2);
+        context.stroke();
+      }
+      if (showLabels) {
+        context.fillStyle = '#334155';
+        context.fillText(getNodeLabel(node.snippet).substring(0, 40), node.x + node.radius + 3 / scale, node.y + 4 / scale);
+      }
+    });
+  }, [graph, enabledTypes, orphans, highlightOrphans, selectedIndex]);
+
+  // A frame that is already scheduled picks up the latest draw through the ref
+  const drawRef = useRef(draw);
+  drawRef.current = draw;
+  const scheduleDraw = useCallback(() => {
+    if (frameRef.current !== null) return;
+    frameRef.current = requestAnimationFrame(() => {
+      frameRef.current = null;
+      drawRef.current();
+    });
+  }, []);
+
+  const fitToView = useCallback(() => {
+    if (width === 0) return;
+    const bounds = getGraphBounds(graph);
+    const padding = 40;
+    // Small graphs aren't blown up beyond twice their size
+    const scale = Math.min(
+      2,
+      Math.max(MIN_SCALE, Math.min(
+        (width - padding * 2) / Math.max(1, bounds.maxX - bounds.minX),
+        (CANVAS_HEIGHT - padding * 2) / Math.max(1, bounds.maxY - bounds.minY)
+      ))
+    );
+    viewportRef.current = {
+      scale,
+      x: width / 2 - ((bounds.minX + bounds.maxX) / 2) * scale,
+      y: CANVAS_HEIGHT / 2 - ((bounds.minY + bounds.maxY) / 2) * scale
+    };
+    scheduleDraw();
+  }, [graph, width, scheduleDraw]);
+
+  const zoomAt = useCallback((factor: number, screenX: number, screenY: number) => {
+    const viewport = viewportRef.current;
+    const scale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, viewport.scale * factor));
+    // Keep the point under the cursor where it is
+    viewportRef.current = {
+      scale,
+      x: screenX - ((screenX - viewport.x) / viewport.scale) * scale,
+      y: screenY - ((screenY - viewport.y) / viewport.scale) * scale
+    };
+    scheduleDraw();
+  }, [scheduleDraw]);
+
+  // Track the container width so the canvas fills it
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(entries => setWidth(Math.floor(entries[0].contentRect.width)));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || width === 0) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = width * ratio;
+    canvas.height = CANVAS_HEIGHT * ratio;
+    scheduleDraw();
+  }, [width, scheduleDraw]);
+
+  useEffect(() => {
+    setSelectedIndex(null);
+    setHovered(null);
+  }, [graph]);
+
+  // Fit a new graph once the canvas has a size, but leave the viewport alone on resizes
+  useEffect(() => {
+    if (width > 0 && fittedGraphRef.current !== graph) {
+      fittedGraphRef.current = graph;
+      fitToView();
+    }
+  }, [graph, width, fitToView]);
+
+  useEffect(() => {
+    scheduleDraw();
+  }, [draw, scheduleDraw]);
+
+  useEffect(() => () => {
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+  }, []);
+
+  // React registers wheel listeners as passive, so preventing page scroll needs a native listener
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = canvas.getBoundingClientRect();
+      zoomAt(Math.exp(-event.deltaY * 0.002), event.clientX - rect.left, event.clientY - rect.top);
+    };
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, [zoomAt]);
+
+  const findNodeAt = (screenX: number, screenY: number): number | null => {
+    const { x, y, scale } = viewportRef.current;
+    const worldX = (screenX - x) / scale;
+    const worldY = (screenY - y) / scale;
+    // Small nodes get a minimum hit area so they stay clickable when zoomed out
+    const tolerance = 4 / scale;
+    let closest: number | null = null;
+    let closestDistance = Infinity;
+    for (let index = 0; index < graph.nodes.length; index++) {
+      const node = graph.nodes[index];
+      const distance = Math.hypot(node.x - worldX, node.y - worldY);
+      if (distance <= node.radius + tolerance && distance < closestDistance) {
+        closest = index;
+        closestDistance = distance;
+      }
+    }
+    return closest;
+  };
+
+  const getPointerPosition = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const { x, y } = getPointerPosition(event);
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { startX: x, startY: y, lastX: x, lastY: y, moved: false };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const { x, y } = getPointerPosition(event);
+    const drag = dragRef.current;
+    if (drag) {
+      if (Math.hypot(x - drag.startX, y - drag.startY) > CLICK_TOLERANCE) {
+        drag.moved = true;
+      }
+      if (drag.moved) {
+        viewportRef.current = {
+          ...viewportRef.current,
+          x: viewportRef.current.x + x - drag.lastX,
+          y: viewportRef.current.y + y - drag.lastY
+        };
+        scheduleDraw();
+        setHovered(null);
+      }
+      drag.lastX = x;
+      drag.lastY = y;
+      return;
+    }
+    const index = findNodeAt(x, y);
+    setHovered(index === null ? null : { index, x, y });
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (drag && !drag.moved) {
+      const { x, y } = getPointerPosition(event);
+      setSelectedIndex(findNodeAt(x, y));
+    }
+  };
+
+  const toggleType = (type: Connection['type']) => {
+    setEnabledTypes(prev => {
+      const next = new Set(prev);
+      if (next.has(type)) {
+        next.delete(type);
+      } else {
+        next.add(type);
+      }
+      return next;
+    });
+  };
+
+  const selectedSnippet = selectedIndex !== null ? graph.nodes[selectedIndex]?.snippet : undefined;
+  const buttonClassName = 'p-2 bg-white text-slate-600 hover:text-slate-900 rounded-lg border border-slate-200 shadow-sm transition-colors';
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-200 flex flex-wrap items-center gap-x-4 gap-y-2">
+          {CONNECTION_TYPES.map(type => (
+            <label key={type} className="flex items-center space-x-2 text-sm text-slate-700">
+              <input
+                type="checkbox"
+                checked={enabledTypes.has(type)}
+                onChange={() => toggleType(type)}
+                className="w-4 h-4 border-slate-300 rounded focus:ring-blue-500"
+              />
+              <span className="w-3 h-3 rounded-full" style={{ backgroundColor: CONNECTION_COLORS[type] }} />
+              <span>{type}</span>
+              <span className="text-xs text-slate-500">({edgeCounts[type]})</span>
+            </label>
+          ))}
+          <label className="flex items-center space-x-2 text-sm text-slate-700 md:ml-auto">
+            <input
+              type="checkbox"
+              checked={highlightOrphans}
+              onChange={() => setHighlightOrphans(!highlightOrphans)}
+              className="w-4 h-4 border-slate-300 rounded focus:ring-blue-500"
+            />
+            <span className="w-3 h-3 rounded-full border-2" style={{ borderColor: ORPHAN_COLOR }} />
+            <span>Highlight orphans</span>
+            <span className="text-xs text-slate-500">({orphans.size})</span>
+          </label>
+        </div>
+
+        <div ref={containerRef} className="relative bg-slate-50" style={{ height: CANVAS_HEIGHT }}>
+          <canvas
+            ref={canvasRef}
+            style={{ width, height: CANVAS_HEIGHT, touchAction: 'none' }}
+            className={hovered ? 'cursor-pointer' : 'cursor-grab active:cursor-grabbing'}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerLeave={() => setHovered(null)}
+          />
+
+          {hovered && graph.nodes[hovered.index] && (
+            <div
+              className="absolute pointer-events-none px-2 py-1 bg-slate-900 text-white text-xs rounded shadow max-w-xs truncate"
+              style={{ left: hovered.x + 12, top: hovered.y + 12 }}
+            >
+              {getNodeLabel(graph.nodes[hovered.index].snippet)}
+              {' · '}
+              {graph.nodes[hovered.index].snippet.duplicateCount} occurrence{graph.nodes[hovered.index].snippet.duplicateCount !== 1 ? 's' : ''}
+            </div>
+          )}
+
+          <div className="absolute top-3 right-3 flex flex-col space-y-2">
+            <button onClick={() => zoomAt(1.5, width / 2, CANVAS_HEIGHT / 2)} title="Zoom in" className={buttonClassName}>
+              <ZoomIn className="w-4 h-4" />
+            </button>
+            <button onClick={() => zoomAt(1 / 1.5, width / 2, CANVAS_HEIGHT / 2)} title="Zoom out" className={buttonClassName}>
+              <ZoomOut className="w-4 h-4" />
+            </button>
+            <button onClick={fitToView} title="Fit to view" className={buttonClassName}>
+              <Maximize className="w-4 h-4" />
+            </button>
+          </div>
+
+          <p className="absolute bottom-3 left-3 text-xs text-slate-500">
+            {graph.nodes.length} snippet{graph.nodes.length !== 1 ? 's' : ''}, {graph.edges.length} connection{graph.edges.length !== 1 ? 's' : ''}. Scroll to zoom, drag to pan, click a node to open it.
+          </p>
+        </div>
+      </div>
+
+      {selectedSnippet && (
+        <div className="space-y-2">
+          <div className="flex justify-end">
+            <button
+              onClick={() => setSelectedIndex(null)}
+              className="flex items-center space-x-1 text-sm text-slate-600 hover:text-slate-900"
+            >
+              <X className="w-4 h-4" />
+              <span>Close</span>
+            </button>
+          </div>
+          <StructuredDataSnippetCard
+            key={selectedSnippet.hash}
+            snippet={selectedSnippet}
+            allSnippets={allSnippets}
+            currentFormatFilter={currentFormatFilter}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { StructuredDataItem } from '../types/crawler';
 import { groupStructuredData, findRelatedSnippets } from '../services/dataGrouper';
 import { getSnippetIcon } from '../utils/iconUtils';
 import { useViewMode } from '../contexts/ViewModeContext';
+import { ValidationBadges, ValidationIssueList } from './ValidationBadges';
 import { ExternalLink, ChevronDown, ChevronRight, Copy, Check, Link, GitBranch } from 'lucide-react';
 
 interface StructuredDataCardProps {
@@ -74,9 +75,12 @@ export function StructuredDataCard({ item, allData = [], compact = false, showUr
     return colors[format as keyof typeof colors] || 'bg-slate-100 text-slate-800';
   };
 
+  // Show the markup as published, even though grouping works on the normalised data
+  const displayData = item.raw ?? item.data;
+
   const copyToClipboard = async () => {
     try {
-      await navigator.clipboard.writeText(JSON.stringify(item.data, null, 2));
+      await navigator.clipboard.writeText(JSON.stringify(displayData, null, 2));
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
     } catch (err) {
@@ -116,6 +120,7 @@ export function StructuredDataCard({ item, allData = [], compact = false, showUr
                   {item.type}
                 </span>
               )}
+              <ValidationBadges issues={item.validation} />
             </div>
           </div>
         </div>
@@ -131,7 +136,7 @@ export function StructuredDataCard({ item, allData = [], compact = false, showUr
         {/* Quick Preview */}
         <div className={`bg-slate-50 rounded-lg ${compact ? 'p-2' : 'p-3'}`}>
           <pre className={`${compact ? 'text-xs' : 'text-xs'} text-slate-700 font-mono overflow-hidden`}>
-            {formatJsonPreview(item.data)}
+            {formatJsonPreview(displayData)}
           </pre>
         </div>
       </div>
@@ -172,10 +177,11 @@ export function StructuredDataCard({ item, allData = [], compact = false, showUr
         </div>
 
         {isExpanded && (
-          <div className="mt-4">
+          <div className="mt-4 space-y-3">
+            <ValidationIssueList issues={item.validation} />
             <div className="bg-slate-900 rounded-lg p-4 overflow-auto">
               <pre className="text-sm text-green-400 font-mono whitespace-pre-wrap">
-                {JSON.stringify(item.data, null, 2)}
+                {JSON.stringify(displayData, null, 2)}
               </pre>
             </div>
           </div>
@@ -3,6 +3,7 @@ import { StructuredDataSnippet } from '../types/crawler';
 import { StructuredDataCard } from './StructuredDataCard';
 import { findRelatedSnippets } from '../services/dataGrouper';
 import { getSnippetIcon } from '../utils/iconUtils';
+import { ValidationBadges } from './ValidationBadges';
 import { 
   ChevronDown, 
   ChevronRight, 
@@ -143,6 +144,7 @@ const handleAnchorLinkClick = (e: React.MouseEvent<HTMLAnchorElement>, targetHas
                   </p>
                 )}
               </div>
+              <ValidationBadges issues={snippet.items[0]?.validation} />
             </div>
             {/* URLs */}
             <div className="space-y-1">
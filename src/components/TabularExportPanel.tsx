@@ -0,0 +1,203 @@
+import { useMemo, useState } from 'react';
+import { StructuredDataItem, StructuredDataSnippet, CrawledPage } from '../types/crawler';
+import {
+  ArrayMode,
+  TabularFormat,
+  TabularRows,
+  buildTables,
+  buildPagesTable,
+  createTabularZip,
+  getAvailableColumns
+} from '../services/tabularExport';
+import { downloadBlob, getExportDate } from '../utils/download';
+import { ChevronDown, ChevronRight, Download, Table, X } from 'lucide-react';
+
+interface TabularExportPanelProps {
+  items: StructuredDataItem[];
+  snippets: StructuredDataSnippet[];
+  pages?: CrawledPage[];
+  onClose: () => void;
+}
+
+export function TabularExportPanel({ items, snippets, pages = [], onClose }: TabularExportPanelProps) {
+  const [rows, setRows] = useState<TabularRows>('items');
+  const [arrays, setArrays] = useState<ArrayMode>('join');
+  const [format, setFormat] = useState<TabularFormat>('csv');
+  // Per table: the unchecked columns, so new types start fully selected
+  const [excludedColumns, setExcludedColumns] = useState<Record<string, string[]>>({});
+  const [excludedTables, setExcludedTables] = useState<string[]>([]);
+  const [expandedTable, setExpandedTable] = useState<string | null>(null);
+  const [includePages, setIncludePages] = useState(pages.length > 0);
+
+  const availableColumns = useMemo(() => getAvailableColumns(snippets), [snippets]);
+
+  const selectedColumns = useMemo(() => {
+    const columns: Record<string, string[]> = {};
+    availableColumns.forEach((paths, name) => {
+      if (!excludedTables.includes(name)) {
+        columns[name] = paths.filter(path => !excludedColumns[name]?.includes(path));
+      }
+    });
+    return columns;
+  }, [availableColumns, excludedColumns, excludedTables]);
+
+  const toggleTable = (name: string) => {
+    setExcludedTables(prev => prev.includes(name) ? prev.filter(table => table !== name) : [...prev, name]);
+  };
+
+  const toggleColumn = (name: string, path: string) => {
+    setExcludedColumns(prev => {
+      const excluded = prev[name] || [];
+      return {
+        ...prev,
+        [name]: excluded.includes(path) ? excluded.filter(column => column !== path) : [...excluded, path]
+      };
+    });
+  };
+
+  const setAllColumns = (name: string, selected: boolean) => {
+    setExcludedColumns(prev => ({ ...prev, [name]: selected ? [] : [...(availableColumns.get(name) || [])] }));
+  };
+
+  const handleExport = () => {
+    const tables = buildTables(items, snippets, { rows, arrays, format, columns: selectedColumns });
+    if (includePages) {
+      tables.unshift(buildPagesTable(pages));
+    }
+    const zip = createTabularZip(tables, format);
+    downloadBlob(new Blob([zip], { type: 'application/zip' }), `structured-data-${getExportDate()}-${format}.zip`);
+    onClose();
+  };
+
+  const selectClassName = 'w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Table className="w-5 h-5 text-slate-600" />
+          <h3 className="text-lg font-semibold text-slate-900">Export CSV / TSV</h3>
+        </div>
+        <button
+          onClick={onClose}
+          title="Close"
+          className="p-1.5 text-slate-500 hover:text-slate-800 hover:bg-slate-100 rounded-lg transition-colors"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">Rows</label>
+          <select value={rows} onChange={(e) => setRows(e.target.value as TabularRows)} className={selectClassName}>
+            <option value="items">One per occurrence ({items.length})</option>
+            <option value="snippets">One per snippet ({snippets.length})</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">Arrays</label>
+          <select value={arrays} onChange={(e) => setArrays(e.target.value as ArrayMode)} className={selectClassName}>
+            <option value="join">Join values in one cell (a | b)</option>
+            <option value="explode">One row per value</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">Format</label>
+          <select value={format} onChange={(e) => setFormat(e.target.value as TabularFormat)} className={selectClassName}>
+            <option value="csv">CSV (comma separated)</option>
+            <option value="tsv">TSV (tab separated)</option>
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <p className="text-sm font-medium text-slate-700 mb-2">
+          Columns <span className="font-normal text-slate-500">(one file per type, bundled in a zip)</span>
+        </p>
+        <div className="border border-slate-200 rounded-lg divide-y divide-slate-100 max-h-80 overflow-y-auto">
+          {Array.from(availableColumns, ([name, paths]) => {
+            const isIncluded = !excludedTables.includes(name);
+            const isExpanded = expandedTable === name;
+            const selectedCount = selectedColumns[name]?.length ?? 0;
+            return (
+              <div key={name}>
+                <div className="flex items-center px-3 py-2 space-x-3">
+                  <input
+                    type="checkbox"
+                    checked={isIncluded}
+                    onChange={() => toggleTable(name)}
+                    className="w-4 h-4 text-blue-600 border-slate-300 rounded focus:ring-blue-500"
+                  />
+                  <button
+                    onClick={() => setExpandedTable(isExpanded ? null : name)}
+                    disabled={!isIncluded}
+                    aria-expanded={isExpanded}
+                    className="flex-1 flex items-center space-x-1 text-left text-sm text-slate-800 disabled:text-slate-400"
+                  >
+                    {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                    <span className="font-medium">{name}</span>
+                    <span className="text-xs text-slate-500">
+                      {isIncluded ? `${selectedCount} of ${paths.length} columns` : 'not exported'}
+                    </span>
+                  </button>
+                </div>
+
+                {isExpanded && isIncluded && (
+                  <div className="px-10 pb-3 space-y-2">
+                    <div className="flex space-x-3 text-xs">
+                      <button onClick={() => setAllColumns(name, true)} className="text-blue-600 hover:text-blue-800">
+                        Select all
+                      </button>
+                      <button onClick={() => setAllColumns(name, false)} className="text-blue-600 hover:text-blue-800">
+                        Select none
+                      </button>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-1">
+                      {paths.map(path => (
+                        <label key={path} className="flex items-center space-x-2 text-xs text-slate-700">
+                          <input
+                            type="checkbox"
+                            checked={!excludedColumns[name]?.includes(path)}
+                            onChange={() => toggleColumn(name, path)}
+                            className="w-3.5 h-3.5 text-blue-600 border-slate-300 rounded focus:ring-blue-500"
+                          />
+                          <span className="font-mono truncate" title={path}>{path}</span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <label className="flex items-center space-x-3 text-sm text-slate-700">
+        <input
+          type="checkbox"
+          checked={includePages}
+          onChange={() => setIncludePages(!includePages)}
+          disabled={pages.length === 0}
+          className="w-4 h-4 text-blue-600 border-slate-300 rounded focus:ring-blue-500"
+        />
+        <span>
+          Include <span className="font-mono">pages.{format}</span> with every crawled page
+          <span className="text-slate-500"> ({pages.length}: status, content type, size, item count and errors)</span>
+        </span>
+      </label>
+
+      <div className="flex justify-end">
+        <button
+          onClick={handleExport}
+          disabled={Object.keys(selectedColumns).length === 0 && !includePages}
+          className="flex items-center space-x-2 px-4 py-2 bg-slate-600 text-white rounded-lg hover:bg-slate-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Download className="w-4 h-4" />
+          <span>Download zip</span>
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { ValidationIssue } from '../types/crawler';
+import { getValidationCounts } from '../services/schemaValidator';
+import { AlertCircle, AlertTriangle, CheckCircle } from 'lucide-react';
+
+interface ValidationBadgesProps {
+  issues?: ValidationIssue[];
+}
+
+export function ValidationBadges({ issues }: ValidationBadgesProps) {
+  if (!issues) return null;
+
+  const { errors, warnings } = getValidationCounts(issues);
+  const summary = issues.map(issue => `${issue.severity}: ${issue.path} - ${issue.message}`).join('\n');
+
+  if (errors === 0 && warnings === 0) {
+    return (
+      <span className="inline-flex items-center space-x-1 px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+        <CheckCircle className="w-3 h-3" />
+        <span>Valid</span>
+      </span>
+    );
+  }
+
+  return (
+    <>
+      {errors > 0 && (
+        <span
+          title={summary}
+          className="inline-flex items-center space-x-1 px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800"
+        >
+          <AlertCircle className="w-3 h-3" />
+          <span>{errors} error{errors !== 1 ? 's' : ''}</span>
+        </span>
+      )}
+      {warnings > 0 && (
+        <span
+          title={summary}
+          className="inline-flex items-center space-x-1 px-2.5 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800"
+        >
+          <AlertTriangle className="w-3 h-3" />
+          <span>{warnings} warning{warnings !== 1 ? 's' : ''}</span>
+        </span>
+      )}
+    </>
+  );
+}
+
+export function ValidationIssueList({ issues }: ValidationBadgesProps) {
+  if (!issues || issues.length === 0) return null;
+
+  return (
+    <ul className="space-y-1">
+      {issues.map((issue, index) => (
+        <li
+          key={index}
+          className={`flex items-start space-x-2 text-xs rounded-md px-2 py-1 ${
+            issue.severity === 'error' ? 'bg-red-50 text-red-800' : 'bg-amber-50 text-amber-800'
+          }`}
+        >
+          {issue.severity === 'error' ? (
+            <AlertCircle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+          ) : (
+            <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+          )}
+          <span>
+            <code className="font-mono">{issue.path}</code>: {issue.message}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -1,5 +1,5 @@
 import React from 'react';
-import { Globe, TreePine, Group, List, Eye, ChevronDown } from 'lucide-react';
+import { Globe, TreePine, Group, List, FileText, Share2, Grid3x3, GitCompare, Eye, ChevronDown } from 'lucide-react';
 import { ViewMode } from '../hooks/useViewData';
 
 interface ViewModeSelectorProps {
@@ -21,6 +21,10 @@ export function ViewModeSelector({
       case 'byType': return 'By Type';
       case 'bySnippet': return 'By Snippet';
       case 'byOccurrence': return 'By Occurrence';
+      case 'pages': return 'Pages';
+      case 'graph': return 'Graph';
+      case 'coverage': return 'Coverage';
+      case 'compare': return 'Compare';
       default: return 'Select View';
     }
   };
@@ -31,6 +35,10 @@ export function ViewModeSelector({
       case 'byType': return TreePine;
       case 'bySnippet': return Group;
       case 'byOccurrence': return List;
+      case 'pages': return FileText;
+      case 'graph': return Share2;
+      case 'coverage': return Grid3x3;
+      case 'compare': return GitCompare;
       default: return Eye;
     }
   };
@@ -90,6 +98,50 @@ export function ViewModeSelector({
           <List className="w-4 h-4" />
           <span>By Occurrence</span>
         </button>
+        <button
+          onClick={() => onViewModeChange('pages')}
+          className={`flex items-center space-x-2 px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+            viewMode === 'pages'
+              ? 'bg-white text-slate-900 shadow-sm'
+              : 'text-slate-600 hover:text-slate-900'
+          }`}
+        >
+          <FileText className="w-4 h-4" />
+          <span>Pages</span>
+        </button>
+        <button
+          onClick={() => onViewModeChange('graph')}
+          className={`flex items-center space-x-2 px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+            viewMode === 'graph'
+              ? 'bg-white text-slate-900 shadow-sm'
+              : 'text-slate-600 hover:text-slate-900'
+          }`}
+        >
+          <Share2 className="w-4 h-4" />
+          <span>Graph</span>
+        </button>
+        <button
+          onClick={() => onViewModeChange('coverage')}
+          className={`flex items-center space-x-2 px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+            viewMode === 'coverage'
+              ? 'bg-white text-slate-900 shadow-sm'
+              : 'text-slate-600 hover:text-slate-900'
+          }`}
+        >
+          <Grid3x3 className="w-4 h-4" />
+          <span>Coverage</span>
+        </button>
+        <button
+          onClick={() => onViewModeChange('compare')}
+          className={`flex items-center space-x-2 px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+            viewMode === 'compare'
+              ? 'bg-white text-slate-900 shadow-sm'
+              : 'text-slate-600 hover:text-slate-900'
+          }`}
+        >
+          <GitCompare className="w-4 h-4" />
+          <span>Compare</span>
+        </button>
       </div>
 
       {/* Mobile View Mode Dropdown */}
@@ -141,6 +193,42 @@ export function ViewModeSelector({
               <List className="w-4 h-4" />
               <span>By Occurrence</span>
             </button>
+            <button
+              onClick={() => handleModeSelect('pages')}
+              className={`flex items-center space-x-2 w-full px-4 py-2 text-left text-sm ${
+                viewMode === 'pages' ? 'bg-slate-100 text-slate-900' : 'text-slate-700'
+              }`}
+            >
+              <FileText className="w-4 h-4" />
+              <span>Pages</span>
+            </button>
+            <button
+              onClick={() => handleModeSelect('graph')}
+              className={`flex items-center space-x-2 w-full px-4 py-2 text-left text-sm ${
+                viewMode === 'graph' ? 'bg-slate-100 text-slate-900' : 'text-slate-700'
+              }`}
+            >
+              <Share2 className="w-4 h-4" />
+              <span>Graph</span>
+            </button>
+            <button
+              onClick={() => handleModeSelect('coverage')}
+              className={`flex items-center space-x-2 w-full px-4 py-2 text-left text-sm ${
+                viewMode === 'coverage' ? 'bg-slate-100 text-slate-900' : 'text-slate-700'
+              }`}
+            >
+              <Grid3x3 className="w-4 h-4" />
+              <span>Coverage</span>
+            </button>
+            <button
+              onClick={() => handleModeSelect('compare')}
+              className={`flex items-center space-x-2 w-full px-4 py-2 text-left text-sm ${
+                viewMode === 'compare' ? 'bg-slate-100 text-slate-900' : 'text-slate-700'
+              }`}
+            >
+              <GitCompare className="w-4 h-4" />
+              <span>Compare</span>
+            </button>
           </div>
         )}
       </div>
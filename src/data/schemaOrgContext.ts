@@ -0,0 +1,60 @@
+type TermDefinition = string | { '@id': string; '@type': string };
+
+// Properties whose text values the schema.org context declares to be IRIs ("@type": "@id")
+const IRI_PROPERTIES = [
+  'additionalType', 'codeRepository', 'contentUrl', 'discussionUrl', 'downloadUrl', 'embedUrl',
+  'hasMap', 'image', 'installUrl', 'isBasedOn', 'license', 'logo', 'mainEntityOfPage',
+  'relatedLink', 'sameAs', 'significantLink', 'thumbnailUrl', 'url'
+];
+
+/**
+ * Offline copy of the parts of the schema.org JSON-LD context that matter for
+ * canonicalisation and RDF export: the vocabulary, the keyword aliases, the
+ * prefixes it declares and the properties holding IRIs. Used whenever a
+ * document points at schema.org as its @context.
+ */
+export const SCHEMA_ORG_CONTEXT_DOCUMENT: Record<string, TermDefinition> = {
+  '@vocab': 'http://schema.org/',
+  schema: 'http://schema.org/',
+  id: '@id',
+  type: '@type',
+  brick: 'https://brickschema.org/schema/Brick#',
+  csvw: 'http://www.w3.org/ns/csvw#',
+  dc: 'http://purl.org/dc/elements/1.1/',
+  dcam: 'http://purl.org/dc/dcam/',
+  dcat: 'http://www.w3.org/ns/dcat#',
+  dcmitype: 'http://purl.org/dc/dcmitype/',
+  dcterms: 'http://purl.org/dc/terms/',
+  dctype: 'http://purl.org/dc/dcmitype/',
+  doap: 'http://usefulinc.com/ns/doap#',
+  foaf: 'http://xmlns.com/foaf/0.1/',
+  odrl: 'http://www.w3.org/ns/odrl/2/',
+  org: 'http://www.w3.org/ns/org#',
+  owl: 'http://www.w3.org/2002/07/owl#',
+  prof: 'http://www.w3.org/ns/dx/prof/',
+  prov: 'http://www.w3.org/ns/prov#',
+  qb: 'http://purl.org/linked-data/cube#',
+  rdf: 'http://www.w3.org/1999/02/22-rdf-syntax-ns#',
+  rdfs: 'http://www.w3.org/2000/01/rdf-schema#',
+  sh: 'http://www.w3.org/ns/shacl#',
+  skos: 'http://www.w3.org/2004/02/skos/core#',
+  sosa: 'http://www.w3.org/ns/sosa/',
+  ssn: 'http://www.w3.org/ns/ssn/',
+  time: 'http://www.w3.org/2006/time#',
+  vann: 'http://purl.org/vocab/vann/',
+  void: 'http://rdfs.org/ns/void#',
+  xsd: 'http://www.w3.org/2001/XMLSchema#',
+  ...Object.fromEntries(IRI_PROPERTIES.map(term => [term, { '@id': `schema:${term}`, '@type': '@id' }]))
+};
+
+// Context URLs that all resolve to the bundled schema.org context
+export const SCHEMA_ORG_CONTEXT_URLS = [
+  'http://schema.org',
+  'https://schema.org',
+  'http://schema.org/',
+  'https://schema.org/',
+  'http://schema.org/docs/jsonldcontext.json',
+  'https://schema.org/docs/jsonldcontext.json',
+  'http://schema.org/docs/jsonldcontext.jsonld',
+  'https://schema.org/docs/jsonldcontext.jsonld'
+];
@@ -0,0 +1,51 @@
+import { useState, useCallback, useEffect } from 'react';
+import {
+  CrawlSession,
+  StorageUsage,
+  listSessions,
+  deleteSession,
+  getStorageUsage
+} from '../services/sessionStore';
+
+export function useCrawlHistory() {
+  const [sessions, setSessions] = useState<CrawlSession[]>([]);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [storedSessions, usage] = await Promise.all([listSessions(), getStorageUsage()]);
+      setSessions(storedSessions);
+      setStorageUsage(usage);
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message || 'Could not read crawl history');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const removeSession = useCallback(async (id: string) => {
+    try {
+      await deleteSession(id);
+    } catch (err) {
+      setError((err as Error).message || 'Could not delete crawl session');
+    }
+    await refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return {
+    sessions,
+    storageUsage,
+    isLoading,
+    error,
+    refresh,
+    removeSession
+  };
+}
@@ -1,8 +1,34 @@
 import { useState, useCallback, useRef } from 'react';
-import { StructuredDataItem, CrawlStats, StructuredDataSnippet } from '../types/crawler';
+import { StructuredDataItem, CrawlStats, StructuredDataSnippet, CrawledPage } from '../types/crawler';
 import { CrawlOptions } from '../components/CrawlerForm';
-import { crawlDomain } from '../services/crawler';
+import { crawlDomain, CrawlFrontier } from '../services/crawler';
+import { createSettingsFetcher, loadProxySettings } from '../services/proxySettings';
 import { groupStructuredData } from '../services/dataGrouper';
+import { readCrawlExport } from '../services/crawlExport';
+import {
+  CrawlSession,
+  createSessionId,
+  saveSession,
+  appendSessionItems,
+  appendSessionPages,
+  loadSession,
+  saveCheckpoint,
+  loadCheckpoint,
+  deleteCheckpoint
+} from '../services/sessionStore';
+
+// Storage failures (quota, private mode) shouldn't interrupt a running crawl
+function persist(write: Promise<void>) {
+  write.catch(err => console.warn('Could not save crawl session:', err));
+}
+
+// Everything needed to continue a paused crawl without going back to IndexedDB
+interface PausedCrawl {
+  session: CrawlSession;
+  frontier: CrawlFrontier;
+  items: StructuredDataItem[];
+  pages: CrawledPage[];
+}
 
 export function useCrawler() {
   const [crawlData, setCrawlData] = useState<StructuredDataItem[]>([]);
@@ -10,36 +36,61 @@ export function useCrawler() {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [stats, setStats] = useState<CrawlStats | null>(null);
+  const [pages, setPages] = useState<CrawledPage[]>([]);
+  const [sessionId, setSessionId] = useState<string | null>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
+  const pauseControllerRef = useRef<AbortController | null>(null);
+  const pausedCrawlRef = useRef<PausedCrawl | null>(null);
 
-  const startCrawl = useCallback(async (domain: string, options: CrawlOptions) => {
+  const runCrawl = useCallback(async (
+    session: CrawlSession,
+    initialItems: StructuredDataItem[] = [],
+    initialPages: CrawledPage[] = [],
+    frontier?: CrawlFrontier
+  ) => {
     setIsLoading(true);
     setError(null);
-    setCrawlData([]);
-    setSnippetData([]);
-    setStats({
-      pagesCrawled: 0,
-      structuredDataFound: 0,
-      duration: 0,
-      status: 'running'
-    });
+    setCrawlData(initialItems);
+    setSnippetData(groupStructuredData(initialItems));
+    setPages(initialPages);
+    pausedCrawlRef.current = null;
+
+    session.stats = { ...session.stats, status: 'running' };
+    session.error = undefined;
+    setSessionId(session.id);
+    setStats(session.stats);
+    persist(saveSession({ ...session }));
 
-    // Create abort controller for this crawl
+    const updateSession = (stats: CrawlStats, error?: string) => {
+      session.stats = stats;
+      session.updatedAt = new Date().toISOString();
+      if (error) session.error = error;
+      persist(saveSession({ ...session }));
+    };
+
+    // Create abort and pause controllers for this crawl
     abortControllerRef.current = new AbortController();
-    const startTime = Date.now();
+    pauseControllerRef.current = new AbortController();
+    const pauseSignal = pauseControllerRef.current.signal;
+    // A resumed crawl keeps counting from where the previous run left off
+    const startTime = Date.now() - session.stats.duration;
+
+    const results: StructuredDataItem[] = [...initialItems];
+    const crawledPages: CrawledPage[] = [...initialPages];
+    let lastFrontier = frontier;
 
     try {
-      const results: StructuredDataItem[] = [];
-      
       // Progress callback to update stats
       const onProgress = (pagesCrawled: number, structuredDataFound: number) => {
-        setStats({
+        const progress: CrawlStats = {
           pagesCrawled,
           structuredDataFound,
           duration: Date.now() - startTime,
           status: 'running'
-        });
+        };
+        setStats(progress);
         setCrawlData([...results]);
+        updateSession(progress);
       };
 
       // Data callback to add new structured data
@@ -47,38 +98,147 @@ export function useCrawler() {
         results.push(...newData);
         setCrawlData([...results]);
         setSnippetData(groupStructuredData([...results]));
+        session.itemCount = results.length;
+        persist(appendSessionItems(session.id, newData));
+      };
+
+      const onPage = (page: CrawledPage) => {
+        crawledPages.push(page);
+        setPages([...crawledPages]);
+        session.pageCount = crawledPages.length;
+        if (page.error) session.errorCount++;
+        persist(appendSessionPages(session.id, [page]));
       };
 
-      await crawlDomain(domain, options, {
+      const onCheckpoint = (checkpoint: CrawlFrontier) => {
+        lastFrontier = checkpoint;
+        persist(saveCheckpoint(session.id, checkpoint));
+      };
+
+      await crawlDomain(session.domain, session.options, {
         onProgress,
         onData,
-        signal: abortControllerRef.current.signal
-      });
+        onPage,
+        onCheckpoint,
+        signal: abortControllerRef.current.signal,
+        pauseSignal,
+        // The proxy settings as they are when the crawl starts or resumes
+        fetcher: createSettingsFetcher(loadProxySettings())
+      }, frontier);
 
-      setStats(prev => prev ? {
-        ...prev,
-        duration: Date.now() - startTime,
-        status: 'completed'
-      } : null);
+      if (pauseSignal.aborted && lastFrontier) {
+        const paused: CrawlStats = { ...session.stats, duration: Date.now() - startTime, status: 'paused' };
+        setStats(paused);
+        updateSession(paused);
+        pausedCrawlRef.current = { session, frontier: lastFrontier, items: results, pages: crawledPages };
+      } else {
+        const completed: CrawlStats = { ...session.stats, duration: Date.now() - startTime, status: 'completed' };
+        setStats(completed);
+        updateSession(completed);
+        persist(deleteCheckpoint(session.id));
+      }
 
     } catch (err: any) {
       if (err.name === 'AbortError') {
-        setStats(prev => prev ? {
-          ...prev,
-          duration: Date.now() - startTime,
-          status: 'stopped'
-        } : null);
+        const stopped: CrawlStats = { ...session.stats, duration: Date.now() - startTime, status: 'stopped' };
+        setStats(stopped);
+        updateSession(stopped);
       } else {
-        setError(err.message || 'An error occurred during crawling');
-        setStats(prev => prev ? {
-          ...prev,
-          duration: Date.now() - startTime,
-          status: 'error'
-        } : null);
+        const message = err.message || 'An error occurred during crawling';
+        const failed: CrawlStats = { ...session.stats, duration: Date.now() - startTime, status: 'error' };
+        setError(message);
+        setStats(failed);
+        updateSession(failed, message);
       }
     } finally {
       setIsLoading(false);
       abortControllerRef.current = null;
+      pauseControllerRef.current = null;
+    }
+  }, []);
+
+  const startCrawl = useCallback(async (domain: string, options: CrawlOptions) => {
+    const session: CrawlSession = {
+      id: createSessionId(),
+      domain,
+      options,
+      stats: {
+        pagesCrawled: 0,
+        structuredDataFound: 0,
+        duration: 0,
+        status: 'running'
+      },
+      startedAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+      itemCount: 0,
+      pageCount: 0,
+      errorCount: 0
+    };
+
+    await runCrawl(session);
+  }, [runCrawl]);
+
+  const pauseCrawl = useCallback(() => {
+    if (pauseControllerRef.current) {
+      pauseControllerRef.current.abort();
+    }
+  }, []);
+
+  // Resumes the paused crawl, or any saved session with a checkpoint (e.g. after a reload)
+  const resumeCrawl = useCallback(async (id?: string) => {
+    const paused = pausedCrawlRef.current;
+    if (paused && (!id || id === paused.session.id)) {
+      await runCrawl(paused.session, paused.items, paused.pages, paused.frontier);
+      return;
+    }
+    if (!id) return;
+
+    const loaded = await Promise.all([loadSession(id), loadCheckpoint(id)]).catch((err: Error) => {
+      setError(`Could not load the crawl to resume: ${err.message}`);
+      return null;
+    });
+    if (!loaded) return;
+
+    const [stored, frontier] = loaded;
+    if (!stored || !frontier) {
+      setError('This crawl cannot be resumed because no checkpoint was saved');
+      return;
+    }
+
+    await runCrawl(stored.session, stored.items, stored.pages, frontier);
+  }, [runCrawl]);
+
+  const openSession = useCallback(async (id: string) => {
+    const stored = await loadSession(id);
+    if (!stored) {
+      setError('This crawl session no longer exists');
+      return;
+    }
+
+    const { session, items, pages } = stored;
+    pausedCrawlRef.current = null;
+    setSessionId(session.id);
+    setCrawlData(items);
+    setSnippetData(groupStructuredData(items));
+    setPages(pages);
+    setError(session.error || null);
+    // A session still marked as running was cut off by a reload or a closed tab
+    setStats(session.stats.status === 'running' ? { ...session.stats, status: 'stopped' } : session.stats);
+  }, []);
+
+  // Opens a file written by Export -> JSON (or `sdc crawl`); it isn't added to the history
+  const importCrawl = useCallback(async (file: File) => {
+    try {
+      const imported = readCrawlExport(JSON.parse(await file.text()));
+      pausedCrawlRef.current = null;
+      setSessionId(null);
+      setCrawlData(imported.items);
+      setSnippetData(imported.snippets);
+      setPages(imported.pages);
+      setStats(imported.stats);
+      setError(null);
+    } catch (err) {
+      setError(`Could not import ${file.name}: ${(err as Error).message}`);
     }
   }, []);
 
@@ -94,7 +254,13 @@ export function useCrawler() {
     isLoading,
     error,
     stats,
+    pages,
+    sessionId,
     startCrawl,
-    stopCrawl
+    stopCrawl,
+    pauseCrawl,
+    resumeCrawl,
+    openSession,
+    importCrawl
   };
 }
\ No newline at end of file
@@ -1,10 +1,28 @@
 import { useMemo } from 'react';
 import { StructuredDataItem, StructuredDataSnippet } from '../types/crawler';
+import { getValidationCounts } from '../services/schemaValidator';
+
+export type ValidationFilter = 'all' | 'errors' | 'warnings' | 'valid';
 
 export interface FilterOptions {
   searchTerm: string;
   selectedType: string;
   selectedFormat: string;
+  validationStatus: ValidationFilter;
+}
+
+function matchesValidation(item: StructuredDataItem, status: ValidationFilter): boolean {
+  if (status === 'all') return true;
+
+  const { errors, warnings } = getValidationCounts(item.validation);
+  switch (status) {
+    case 'errors':
+      return errors > 0;
+    case 'warnings':
+      return warnings > 0;
+    case 'valid':
+      return !!item.validation && errors === 0 && warnings === 0;
+  }
 }
 
 export function useFilteredData(
@@ -21,10 +39,11 @@ export function useFilteredData(
       
       const matchesType = filters.selectedType === 'all' || item.type === filters.selectedType;
       const matchesFormat = filters.selectedFormat === 'all' || item.format === filters.selectedFormat;
+      const matchesStatus = matchesValidation(item, filters.validationStatus);
       
-      return matchesSearch && matchesType && matchesFormat;
+      return matchesSearch && matchesType && matchesFormat && matchesStatus;
     });
-  }, [data, filters.searchTerm, filters.selectedType, filters.selectedFormat]);
+  }, [data, filters.searchTerm, filters.selectedType, filters.selectedFormat, filters.validationStatus]);
 
   const filteredSnippetData = useMemo(() => {
     return snippetData.filter(snippet => {
@@ -37,10 +56,11 @@ export function useFilteredData(
       
       const matchesType = filters.selectedType === 'all' || snippet.type === filters.selectedType;
       const matchesFormat = filters.selectedFormat === 'all' || snippet.format === filters.selectedFormat;
+      const matchesStatus = snippet.items.some(item => matchesValidation(item, filters.validationStatus));
       
-      return matchesSearch && matchesType && matchesFormat;
+      return matchesSearch && matchesType && matchesFormat && matchesStatus;
     });
-  }, [snippetData, filters.searchTerm, filters.selectedType, filters.selectedFormat]);
+  }, [snippetData, filters.searchTerm, filters.selectedType, filters.selectedFormat, filters.validationStatus]);
 
   const uniqueTypes = useMemo(() => {
     const typeSet = new Set<string>();
@@ -0,0 +1,23 @@
+import { useState, useCallback } from 'react';
+import {
+  ProxySettings,
+  DEFAULT_PROXY_SETTINGS,
+  loadProxySettings,
+  saveProxySettings
+} from '../services/proxySettings';
+
+export function useProxySettings() {
+  const [settings, setSettings] = useState<ProxySettings>(loadProxySettings);
+
+  // Saved right away; the next crawl picks the settings up when it starts
+  const updateSettings = useCallback((next: ProxySettings) => {
+    setSettings(next);
+    saveProxySettings(next);
+  }, []);
+
+  const resetSettings = useCallback(() => {
+    updateSettings(DEFAULT_PROXY_SETTINGS);
+  }, [updateSettings]);
+
+  return { settings, updateSettings, resetSettings };
+}
@@ -1,7 +1,7 @@
 import { useMemo, useState, useEffect } from 'react';
 import { StructuredDataItem, StructuredDataSnippet } from '../types/crawler';
 
-export type ViewMode = 'byUrl' | 'byType' | 'bySnippet' | 'byOccurrence';
+export type ViewMode = 'byUrl' | 'byType' | 'bySnippet' | 'byOccurrence' | 'pages' | 'graph' | 'coverage' | 'compare';
 
 export function useViewData(
   filteredData: StructuredDataItem[],
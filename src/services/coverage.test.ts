@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { detectPathPatterns, bucketUrls, buildCoverageMatrix } from './coverage';
+import { StructuredDataSnippet } from '../types/crawler';
+
+const urls = (paths: string[]) => paths.map(path => `https://example.com${path}`);
+
+describe('detectPathPatterns', () => {
+  it('merges three or more alike siblings into :slug, or :id when they are all numbers', () => {
+    expect(detectPathPatterns(urls([
+      '/', '/about',
+      '/product/shoe', '/product/shirt', '/product/hat',
+      '/order/1', '/order/22', '/order/333'
+    ]))).toEqual(['/', '/about', '/order/:id', '/product/:slug']);
+  });
+
+  it('keeps fewer than three siblings as they are', () => {
+    expect(detectPathPatterns(urls(['/product/shoe', '/product/hat']))).toEqual(['/product/hat', '/product/shoe']);
+  });
+
+  it('only merges siblings with the same structure below them', () => {
+    expect(detectPathPatterns(urls([
+      '/blog/a', '/blog/b', '/blog/c',
+      '/shop/shoe/reviews', '/shop/hat/reviews', '/shop/shirt/reviews',
+      '/shop/sale'
+    ]))).toEqual(['/blog/:slug', '/shop/sale', '/shop/:slug/reviews']);
+  });
+
+  it('merges parameters at several levels', () => {
+    expect(detectPathPatterns(urls([
+      '/en/product/1', '/en/product/2', '/en/product/3',
+      '/de/product/1', '/de/product/2', '/de/product/3',
+      '/fr/product/1', '/fr/product/2', '/fr/product/3'
+    ]))).toEqual(['/:slug/product/:id']);
+  });
+
+  it('treats a trailing slash as the same page and skips invalid URLs', () => {
+    expect(detectPathPatterns(['https://example.com/blog/', 'https://example.com/blog', 'not a url'])).toEqual(['/blog']);
+  });
+});
+
+describe('bucketUrls', () => {
+  it('puts each page in the first bucket it matches and the rest in a bucket without a pattern', () => {
+    expect(bucketUrls(urls(['/about', '/product/shoe', '/product/shoe/reviews', '/contact']), ['/about', '/:slug', '/product/*'])).toEqual([
+      { pattern: '/about', pages: urls(['/about']) },
+      { pattern: '/:slug', pages: urls(['/contact']) },
+      { pattern: '/product/*', pages: urls(['/product/shoe']) },
+      { pages: urls(['/product/shoe/reviews']) }
+    ]);
+  });
+});
+
+describe('buildCoverageMatrix', () => {
+  const snippet = (pages: string[]) => ({ items: urls(pages).map(url => ({ url })) }) as StructuredDataSnippet;
+
+  it('counts the pages of each bucket that have each kind of markup', () => {
+    const matrix = buildCoverageMatrix(
+      urls(['/product/shoe', '/product/hat', '/product/shirt', '/about']),
+      ['/product/:slug', '/blog/:slug'],
+      [
+        ['JSON-LD - Product', [snippet(['/product/shoe']), snippet(['/product/hat'])]],
+        ['JSON-LD - Organization', [snippet(['/product/shoe', '/product/hat', '/product/shirt', '/about'])]]
+      ]
+    );
+
+    // Buckets without pages are left out
+    expect(matrix.buckets.map(bucket => bucket.pattern)).toEqual(['/product/:slug', undefined]);
+    expect(matrix.columns).toEqual(['JSON-LD - Product', 'JSON-LD - Organization']);
+    expect(matrix.cells).toEqual([
+      [
+        { covered: 2, total: 3, missing: urls(['/product/shirt']) },
+        { covered: 3, total: 3, missing: [] }
+      ],
+      [
+        { covered: 0, total: 1, missing: urls(['/about']) },
+        { covered: 1, total: 1, missing: [] }
+      ]
+    ]);
+  });
+});
@@ -0,0 +1,140 @@
+import { StructuredDataSnippet } from '../types/crawler';
+import { compilePathPattern } from '../utils/pathPattern';
+
+export interface CoverageBucket {
+  // Undefined for the bucket of pages that match none of the patterns
+  pattern?: string;
+  pages: string[];
+}
+
+export interface CoverageCell {
+  covered: number;
+  total: number;
+  missing: string[];
+}
+
+export interface CoverageMatrix {
+  buckets: CoverageBucket[];
+  // `format - type` keys, as grouped by useViewData's byTypeData
+  columns: string[];
+  // cells[bucket][column]
+  cells: CoverageCell[][];
+}
+
+// Siblings that look alike are merged into a parameter once there are this many
+const MIN_PARAMETER_SIBLINGS = 3;
+
+interface PathTree {
+  isPage: boolean;
+  children: Map<string, PathTree>;
+}
+
+// Pathname without a trailing slash, so `/blog/` and `/blog` land in the same bucket
+function getPath(url: string): string | null {
+  try {
+    const path = new URL(url).pathname;
+    return path.length > 1 && path.endsWith('/') ? path.slice(0, -1) : path;
+  } catch {
+    return null;
+  }
+}
+
+function getSegments(path: string): string[] {
+  return path.split('/').filter(segment => segment !== '');
+}
+
+// The patterns below a tree node, relative to it; '' stands for the node itself
+function collectPatterns(tree: PathTree): string[] {
+  const patterns = new Set<string>();
+  if (tree.isPage) patterns.add('');
+
+  // Children with the same structure below them are candidates for a parameter
+  const bySignature = new Map<string, { segments: string[]; patterns: string[] }>();
+  tree.children.forEach((child, segment) => {
+    const childPatterns = collectPatterns(child);
+    const signature = childPatterns.join('\n');
+    if (!bySignature.has(signature)) {
+      bySignature.set(signature, { segments: [], patterns: childPatterns });
+    }
+    bySignature.get(signature)!.segments.push(segment);
+  });
+
+  bySignature.forEach(({ segments, patterns: childPatterns }) => {
+    const names = segments.length >= MIN_PARAMETER_SIBLINGS
+      ? [segments.every(segment => /^\d+$/.test(segment)) ? ':id' : ':slug']
+      : segments;
+    names.forEach(name => {
+      childPatterns.forEach(pattern => patterns.add(pattern ? `${name}/${pattern}` : name));
+    });
+  });
+
+  return Array.from(patterns).sort();
+}
+
+/**
+ * Guesses the page templates of a site from its URLs. Path segments that vary
+ * between at least three otherwise alike URLs become parameters, so
+ * `/product/shoe`, `/product/shirt` and `/product/hat` give `/product/:slug`,
+ * and all-numeric segments give `:id`.
+ */
+export function detectPathPatterns(urls: string[]): string[] {
+  const root: PathTree = { isPage: false, children: new Map() };
+  urls.forEach(url => {
+    const path = getPath(url);
+    if (path === null) return;
+    let node = root;
+    getSegments(path).forEach(segment => {
+      if (!node.children.has(segment)) {
+        node.children.set(segment, { isPage: false, children: new Map() });
+      }
+      node = node.children.get(segment)!;
+    });
+    node.isPage = true;
+  });
+
+  // Literal segments sort before parameters, so `/about` is matched before `/:slug`
+  const sortKey = (pattern: string) => pattern.replace(/:/g, '\uffff');
+  return collectPatterns(root)
+    .map(pattern => `/${pattern}`)
+    .sort((a, b) => (sortKey(a) < sortKey(b) ? -1 : sortKey(a) > sortKey(b) ? 1 : 0));
+}
+
+// Each page goes to the first pattern it matches; the rest end up in a final bucket without a pattern
+export function bucketUrls(urls: string[], patterns: string[]): CoverageBucket[] {
+  const buckets: CoverageBucket[] = patterns.map(pattern => ({ pattern, pages: [] }));
+  const unmatched: string[] = [];
+  const regexes = patterns.map(compilePathPattern);
+
+  urls.forEach(url => {
+    const path = getPath(url);
+    const index = path === null ? -1 : regexes.findIndex(regex => regex.test(path));
+    if (index === -1) {
+      unmatched.push(url);
+    } else {
+      buckets[index].pages.push(url);
+    }
+  });
+
+  if (unmatched.length > 0) {
+    buckets.push({ pages: unmatched });
+  }
+  return buckets;
+}
+
+export function buildCoverageMatrix(
+  urls: string[],
+  patterns: string[],
+  byTypeData: [string, StructuredDataSnippet[]][]
+): CoverageMatrix {
+  const buckets = bucketUrls(urls, patterns).filter(bucket => bucket.pages.length > 0);
+  const pagesByColumn = byTypeData.map(([, snippets]) =>
+    new Set(snippets.flatMap(snippet => snippet.items.map(item => item.url)))
+  );
+
+  const cells = buckets.map(bucket => pagesByColumn.map(pages => {
+    const missing = bucket.pages.filter(url => !pages.has(url));
+    return { covered: bucket.pages.length - missing.length, total: bucket.pages.length, missing };
+  }));
+
+  return { buckets, columns: byTypeData.map(([key]) => key), cells };
+}
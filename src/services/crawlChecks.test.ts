@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { readCheckConfig } from './crawlChecks';
+
+describe('readCheckConfig', () => {
+  it('accepts crawl options of the right kind', () => {
+    const crawl = {
+      maxPages: 200,
+      maxDepth: 0,
+      respectRobots: false,
+      delay: 500,
+      concurrency: 4,
+      discoveryMode: 'sitemap',
+      maxRedirects: 5,
+      maxRetries: 0,
+      includePatterns: ['/product/*', 're:^/(en|de)/'],
+      excludePatterns: ['/cart/**'],
+      stripQueryParams: ['utm_*'],
+      patternLimits: [{ pattern: '/product/*', maxPages: 20 }]
+    };
+    expect(readCheckConfig({ crawl, rules: [] }).crawl).toEqual(crawl);
+  });
+
+  it.each([
+    [{ maxPages: '200' }, 'crawl.maxPages must be a whole number of at least 1'],
+    [{ maxPages: 0 }, 'crawl.maxPages must be a whole number of at least 1'],
+    [{ concurrency: -1 }, 'crawl.concurrency must be a whole number of at least 1'],
+    [{ delay: 0.5 }, 'crawl.delay must be a number of milliseconds'],
+    [{ respectRobots: 'no' }, 'crawl.respectRobots must be true or false'],
+    [{ discoveryMode: 'all' }, 'crawl.discoveryMode must be one of links, sitemap, both'],
+    [{ includePatterns: '/product/*' }, 'crawl.includePatterns must be an array of path patterns'],
+    [{ excludePatterns: ['re:('] }, 'crawl.excludePatterns must be an array of path patterns'],
+    [{ stripQueryParams: [1] }, 'crawl.stripQueryParams must be an array of query parameter names'],
+    [{ patternLimits: [{ pattern: '/product/*', maxPages: '20' }] }, 'crawl.patternLimits must be an array of'],
+    [{ maxPage: 10 }, 'crawl.maxPage is not a crawl option']
+  ])('rejects the crawl options %j', (crawl, message) => {
+    expect(() => readCheckConfig({ crawl, rules: [] })).toThrow(message);
+  });
+
+  it('rejects a crawl block that is not an object', () => {
+    expect(() => readCheckConfig({ crawl: [], rules: [] })).toThrow('"crawl" must be an object of crawl options');
+  });
+
+  it('rejects rules it does not know', () => {
+    expect(() => readCheckConfig({ rules: [{ rule: 'noBrokenLinks' }] })).toThrow('rules[0] must have "rule" set to one of');
+  });
+});
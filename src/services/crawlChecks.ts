@@ -0,0 +1,300 @@
+import { StructuredDataItem, CrawledPage } from '../types/crawler';
+import { CrawlOptions } from '../components/CrawlerForm';
+import { diffCrawls } from './crawlDiff';
+import { hasPropertyPath } from './richResults';
+import { isSubtypeOf, getValidationCounts } from './schemaValidator';
+import { matchesPathPattern } from '../utils/pathPattern';
+import { getScopePatternError } from './crawlScope';
+
+// Rules apply to the crawled pages matching the `pages` path pattern (all pages when omitted)
+export type CheckRule =
+  | {
+      rule: 'require';
+      name?: string;
+      pages?: string;
+      // schema.org type (subtypes count) or item type label
+      type: string;
+      format?: StructuredDataItem['format'];
+      // Dotted property paths that must all be present on the same item
+      properties?: string[];
+    }
+  | { rule: 'noParseErrors'; name?: string; pages?: string }
+  | { rule: 'noValidationErrors'; name?: string; pages?: string; severity?: 'error' | 'warning' }
+  | { rule: 'noFailedPages'; name?: string; pages?: string };
+
+export interface CheckConfig {
+  // Crawl export to compare against, resolved relative to the config file by the CLI
+  baseline?: string;
+  // Defaults for the crawl options, command line flags take precedence
+  crawl?: Partial<CrawlOptions>;
+  rules: CheckRule[];
+}
+
+export interface CheckCase {
+  // Page URL, or the pattern when a rule matched no pages
+  name: string;
+  failures: string[];
+}
+
+export interface CheckResult {
+  name: string;
+  cases: CheckCase[];
+  failures: number;
+}
+
+export interface CheckReport {
+  results: CheckResult[];
+  passed: boolean;
+  failures: number;
+}
+
+export interface CheckInput {
+  items: StructuredDataItem[];
+  pages: CrawledPage[];
+}
+
+const RULE_KINDS = ['require', 'noParseErrors', 'noValidationErrors', 'noFailedPages'];
+
+function toArray<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(entry => typeof entry === 'string');
+}
+
+const isInteger = (min: number) => (value: unknown) => Number.isInteger(value) && (value as number) >= min;
+const isPatternArray = (value: unknown) => isStringArray(value) && value.every(pattern => getScopePatternError(pattern) === null);
+
+// How each crawl option in a config is checked, and what it should be otherwise
+const CRAWL_OPTION_CHECKS: Record<keyof CrawlOptions, [(value: unknown) => boolean, string]> = {
+  maxPages: [isInteger(1), 'a whole number of at least 1'],
+  maxDepth: [isInteger(0), 'a whole number of at least 0'],
+  respectRobots: [value => typeof value === 'boolean', 'true or false'],
+  delay: [isInteger(0), 'a number of milliseconds'],
+  concurrency: [isInteger(1), 'a whole number of at least 1'],
+  discoveryMode: [value => ['links', 'sitemap', 'both'].includes(value as string), 'one of links, sitemap, both'],
+  maxRedirects: [isInteger(0), 'a whole number of at least 0'],
+  maxRetries: [isInteger(0), 'a whole number of at least 0'],
+  includePatterns: [isPatternArray, 'an array of path patterns such as "/product/*"'],
+  excludePatterns: [isPatternArray, 'an array of path patterns such as "/product/*"'],
+  stripQueryParams: [isStringArray, 'an array of query parameter names such as "utm_*"'],
+  patternLimits: [
+    value => Array.isArray(value) && value.every(limit =>
+      !!limit && typeof limit === 'object' && isPatternArray([limit.pattern]) && isInteger(0)(limit.maxPages)),
+    'an array of { "pattern": "/product/*", "maxPages": 20 }'
+  ]
+};
+
+// Validates a parsed config file and throws a message pointing at the offending rule
+export function readCheckConfig(json: unknown): CheckConfig {
+  if (!json || typeof json !== 'object' || Array.isArray(json)) {
+    throw new Error('Invalid check config: expected a JSON object');
+  }
+  const config = json as Record<string, unknown>;
+  if (!Array.isArray(config.rules)) {
+    throw new Error('Invalid check config: "rules" must be an array');
+  }
+  if (config.baseline !== undefined && typeof config.baseline !== 'string') {
+    throw new Error('Invalid check config: "baseline" must be a file path');
+  }
+  if (config.crawl !== undefined && (!config.crawl || typeof config.crawl !== 'object' || Array.isArray(config.crawl))) {
+    throw new Error('Invalid check config: "crawl" must be an object of crawl options');
+  }
+  Object.entries(config.crawl ?? {}).forEach(([name, value]) => {
+    const check = CRAWL_OPTION_CHECKS[name as keyof CrawlOptions];
+    if (!check) {
+      throw new Error(`Invalid check config: crawl.${name} is not a crawl option`);
+    }
+    if (!check[0](value)) {
+      throw new Error(`Invalid check config: crawl.${name} must be ${check[1]}`);
+    }
+  });
+
+  config.rules.forEach((rule: Record<string, unknown>, index) => {
+    const where = `Invalid check config: rules[${index}]`;
+    if (!rule || typeof rule !== 'object' || !RULE_KINDS.includes(rule.rule as string)) {
+      throw new Error(`${where} must have "rule" set to one of ${RULE_KINDS.join(', ')}`);
+    }
+    if (rule.pages !== undefined && typeof rule.pages !== 'string') {
+      throw new Error(`${where}.pages must be a path pattern such as "/product/*"`);
+    }
+    if (rule.rule === 'require') {
+      if (typeof rule.type !== 'string' || !rule.type) {
+        throw new Error(`${where}.type is required`);
+      }
+      if (rule.properties !== undefined && !isStringArray(rule.properties)) {
+        throw new Error(`${where}.properties must be an array of property paths`);
+      }
+    }
+    if (rule.rule === 'noValidationErrors' && rule.severity !== undefined && !['error', 'warning'].includes(rule.severity as string)) {
+      throw new Error(`${where}.severity must be "error" or "warning"`);
+    }
+  });
+
+  return config as unknown as CheckConfig;
+}
+
+export function describeRule(rule: CheckRule): string {
+  if (rule.name) return rule.name;
+
+  const scope = rule.pages ? `pages matching ${rule.pages}` : 'all pages';
+  switch (rule.rule) {
+    case 'require':
+      return `Every page ${rule.pages ? `matching ${rule.pages} ` : ''}has ${rule.type}` +
+        (rule.properties?.length ? ` with ${rule.properties.join(', ')}` : '');
+    case 'noParseErrors':
+      return `No markup parse errors on ${scope}`;
+    case 'noValidationErrors':
+      return `No validation ${rule.severity === 'warning' ? 'errors or warnings' : 'errors'} on ${scope}`;
+    case 'noFailedPages':
+      return `No failed fetches on ${scope}`;
+  }
+}
+
+function describeItem(item: StructuredDataItem): string {
+  return `${item.type || 'untyped'} (${item.format})`;
+}
+
+function matchesType(item: StructuredDataItem, type: string): boolean {
+  const types = toArray(item.data?.['@type']).filter((value): value is string => typeof value === 'string');
+  return item.type === type || types.some(itemType => itemType === type || isSubtypeOf(itemType, type));
+}
+
+function buildIdIndex(items: StructuredDataItem[]): Map<string, Record<string, unknown>> {
+  const idIndex = new Map<string, Record<string, unknown>>();
+  items.forEach(item => {
+    const id = item.data?.['@id'];
+    if (typeof id === 'string' && !idIndex.has(id)) {
+      idIndex.set(id, item.data);
+    }
+  });
+  return idIndex;
+}
+
+function checkPage(
+  rule: CheckRule,
+  page: CrawledPage,
+  items: StructuredDataItem[],
+  idIndex: Map<string, Record<string, unknown>>
+): string[] {
+  switch (rule.rule) {
+    case 'require': {
+      const candidates = items.filter(item => (!rule.format || item.format === rule.format) && matchesType(item, rule.type));
+      if (candidates.length === 0) {
+        return [`No ${rule.type}${rule.format ? ` (${rule.format})` : ''} found`];
+      }
+
+      // One item has to carry every property; report what the first candidate lacks
+      const properties = rule.properties || [];
+      const missingPerItem = candidates.map(item =>
+        properties.filter(path => !hasPropertyPath(item.data, path, idIndex))
+      );
+      if (missingPerItem.some(missing => missing.length === 0)) return [];
+      return [`${describeItem(candidates[0])} is missing ${missingPerItem[0].join(', ')}`];
+    }
+    case 'noParseErrors':
+      return page.parseErrors || [];
+    case 'noValidationErrors':
+      return items.flatMap(item =>
+        (item.validation || [])
+          .filter(issue => issue.severity === 'error' || rule.severity === 'warning')
+          .map(issue => `${describeItem(item)}${issue.path ? ` ${issue.path}` : ''}: ${issue.message}`)
+      );
+    case 'noFailedPages':
+      return [];
+  }
+}
+
+function runRule(rule: CheckRule, crawl: CheckInput, itemsByUrl: Map<string, StructuredDataItem[]>, idIndex: Map<string, Record<string, unknown>>): CheckResult {
+  const inScope = crawl.pages.filter(page => !rule.pages || matchesPathPattern(page.url, rule.pages));
+  let cases: CheckCase[];
+
+  if (rule.rule === 'noFailedPages') {
+    cases = inScope.map(page => ({ name: page.url, failures: page.error ? [page.error] : [] }));
+  } else {
+    // Items are recorded under the canonical URL; duplicates of an earlier page carry none
+    cases = inScope
+      .filter(page => !page.error && !page.duplicate && !page.skipped)
+      .map(page => ({
+        name: page.url,
+        failures: checkPage(rule, page, itemsByUrl.get(page.canonical ?? page.url) || [], idIndex)
+      }));
+  }
+
+  // A required type on a pattern that matched nothing usually means the site or the pattern changed
+  if (rule.rule === 'require' && cases.length === 0) {
+    cases = [{ name: rule.pages || '(all pages)', failures: ['No crawled pages match this rule'] }];
+  }
+
+  return { name: describeRule(rule), cases, failures: cases.filter(c => c.failures.length > 0).length };
+}
+
+/**
+ * Regressions against an earlier crawl: items that disappeared, properties
+ * that were dropped and items that gained validation errors. Only pages
+ * crawled successfully both times are compared, so a smaller or differently
+ * ordered crawl doesn't report missing pages as regressions.
+ */
+function compareWithBaseline(crawl: CheckInput, baseline: { items: StructuredDataItem[]; pages?: CrawledPage[] }): CheckResult {
+  const crawledUrls = (pages: CrawledPage[]) =>
+    new Set(pages.filter(page => !page.error).map(page => page.canonical ?? page.url));
+  const crawled = crawledUrls(crawl.pages);
+  const baselineCrawled = baseline.pages ? crawledUrls(baseline.pages) : null;
+  const compared = (url: string) => crawled.has(url) && (!baselineCrawled || baselineCrawled.has(url));
+
+  const before = baseline.items.filter(item => compared(item.url));
+  const after = crawl.items.filter(item => compared(item.url));
+  const diff = diffCrawls(before, after);
+  const failuresByUrl = new Map<string, string[]>();
+
+  diff.urls.forEach(urlDiff => {
+    const failures: string[] = [];
+    urlDiff.items.forEach(itemDiff => {
+      if (itemDiff.status === 'removed') {
+        failures.push(`${describeItem(itemDiff.before!)} was removed`);
+      } else if (itemDiff.status === 'changed') {
+        const removed = itemDiff.changes.filter(change => change.kind === 'removed').map(change => change.path);
+        if (removed.length > 0) {
+          failures.push(`${describeItem(itemDiff.after!)} lost ${removed.join(', ')}`);
+        }
+        const newErrors = getValidationCounts(itemDiff.after!.validation).errors -
+          getValidationCounts(itemDiff.before!.validation).errors;
+        if (newErrors > 0) {
+          failures.push(`${describeItem(itemDiff.after!)} has ${newErrors} new validation error${newErrors !== 1 ? 's' : ''}`);
+        }
+      }
+    });
+    failuresByUrl.set(urlDiff.url, failures);
+  });
+
+  const cases = Array.from(new Set(before.map(item => item.url)))
+    .sort()
+    .map(url => ({ name: url, failures: failuresByUrl.get(url) || [] }));
+
+  return { name: 'No regressions against the baseline', cases, failures: cases.filter(c => c.failures.length > 0).length };
+}
+
+export function runChecks(
+  crawl: CheckInput,
+  rules: CheckRule[],
+  baseline?: { items: StructuredDataItem[]; pages?: CrawledPage[] }
+): CheckReport {
+  const itemsByUrl = new Map<string, StructuredDataItem[]>();
+  crawl.items.forEach(item => {
+    if (!itemsByUrl.has(item.url)) {
+      itemsByUrl.set(item.url, []);
+    }
+    itemsByUrl.get(item.url)!.push(item);
+  });
+  const idIndex = buildIdIndex(crawl.items);
+
+  const results = rules.map(rule => runRule(rule, crawl, itemsByUrl, idIndex));
+  if (baseline) {
+    results.push(compareWithBaseline(crawl, baseline));
+  }
+
+  const failures = results.reduce((total, result) => total + result.failures, 0);
+  return { results, passed: failures === 0, failures };
+}
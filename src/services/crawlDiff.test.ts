@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { diffCrawls, diffJson } from './crawlDiff';
+import { generateDataHash } from './structuredDataExtractor';
+import { StructuredDataItem } from '../types/crawler';
+
+function item(url: string, data: Record<string, unknown>, id?: string): StructuredDataItem {
+  return {
+    url,
+    format: 'JSON-LD',
+    type: String(data['@type']),
+    data: { '@context': 'https://schema.org', ...data },
+    id,
+    hash: generateDataHash({ '@context': 'https://schema.org', ...data })
+  };
+}
+
+describe('diffJson', () => {
+  it('reports added, removed and changed properties by path', () => {
+    expect(diffJson(
+      { name: 'Shoe', offers: { price: '10', priceCurrency: 'EUR' }, image: ['a.png', 'b.png'] },
+      { name: 'Shoe', offers: { price: '12', availability: 'InStock' }, image: ['a.png'] }
+    )).toEqual([
+      { path: 'offers.price', kind: 'changed', before: '10', after: '12' },
+      { path: 'offers.priceCurrency', kind: 'removed', before: 'EUR' },
+      { path: 'offers.availability', kind: 'added', after: 'InStock' },
+      { path: 'image[1]', kind: 'removed', before: 'b.png' }
+    ]);
+  });
+
+  it('reports a value that changes shape as changed', () => {
+    expect(diffJson({ brand: 'Acme' }, { brand: { name: 'Acme' } })).toEqual([
+      { path: 'brand', kind: 'changed', before: 'Acme', after: { name: 'Acme' } }
+    ]);
+  });
+});
+
+describe('diffCrawls', () => {
+  const shoe = item('https://example.com/shoe', { '@type': 'Product', '@id': '#shoe', name: 'Shoe', offers: { price: '10' } }, '#shoe');
+  const org = item('https://example.com/', { '@type': 'Organization', name: 'Shop' });
+
+  it('counts identical items as unchanged', () => {
+    expect(diffCrawls([shoe, org], [org, shoe])).toEqual({
+      urls: [],
+      snippets: [],
+      summary: { added: 0, removed: 0, changed: 0, unchanged: 2 }
+    });
+  });
+
+  it('pairs edited items by @id before falling back to their type', () => {
+    const before = [
+      shoe,
+      item('https://example.com/shoe', { '@type': 'BreadcrumbList', position: 1 })
+    ];
+    const after = [
+      item('https://example.com/shoe', { '@type': 'BreadcrumbList', position: 2 }),
+      item('https://example.com/shoe', { '@type': 'Product', '@id': '#shoe', name: 'Shoe', offers: { price: '12' } }, '#shoe')
+    ];
+
+    const [page] = diffCrawls(before, after).urls;
+    expect(page.status).toBe('changed');
+    expect(page.items.map(entry => [entry.status, entry.matchedBy, entry.changes.map(change => change.path)])).toEqual([
+      ['changed', 'id', ['offers.price']],
+      ['changed', 'type', ['position']]
+    ]);
+  });
+
+  it('reports items and pages that appear or disappear', () => {
+    const faq = item('https://example.com/faq', { '@type': 'FAQPage', name: 'FAQ' });
+    const diff = diffCrawls([shoe, org], [org, faq]);
+
+    expect(diff.urls.map(page => [page.url, page.status, page.items.map(entry => entry.status)])).toEqual([
+      ['https://example.com/faq', 'added', ['added']],
+      ['https://example.com/shoe', 'removed', ['removed']]
+    ]);
+    expect(diff.summary).toEqual({ added: 1, removed: 1, changed: 0, unchanged: 1 });
+  });
+
+  it('reports snippets published on a different set of pages', () => {
+    const onAbout = { ...org, url: 'https://example.com/about' };
+    const diff = diffCrawls([org], [org, onAbout]);
+
+    expect(diff.snippets).toHaveLength(1);
+    expect(diff.snippets[0]).toMatchObject({ status: 'changed', pagesAdded: ['https://example.com/about'], pagesRemoved: [] });
+  });
+});
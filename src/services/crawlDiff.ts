@@ -0,0 +1,212 @@
+import { StructuredDataItem, StructuredDataSnippet } from '../types/crawler';
+import { groupStructuredData } from './dataGrouper';
+
+export type DiffStatus = 'added' | 'removed' | 'changed';
+
+export interface PropertyChange {
+  path: string;
+  kind: DiffStatus;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface ItemDiff {
+  status: DiffStatus;
+  before?: StructuredDataItem;
+  after?: StructuredDataItem;
+  // How a changed item was paired with its earlier version
+  matchedBy?: 'id' | 'type';
+  changes: PropertyChange[];
+}
+
+export interface UrlDiff {
+  url: string;
+  // 'added'/'removed' when the URL only appears in one of the crawls
+  status: DiffStatus;
+  items: ItemDiff[];
+}
+
+export interface SnippetDiff {
+  status: DiffStatus;
+  snippet: StructuredDataSnippet;
+  pagesAdded: string[];
+  pagesRemoved: string[];
+}
+
+export interface CrawlDiff {
+  urls: UrlDiff[];
+  snippets: SnippetDiff[];
+  summary: {
+    added: number;
+    removed: number;
+    changed: number;
+    unchanged: number;
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+// Property-level diff of two JSON values; arrays are compared by position
+export function diffJson(before: unknown, after: unknown, path = '', changes: PropertyChange[] = []): PropertyChange[] {
+  if (before === after) return changes;
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const length = Math.max(before.length, after.length);
+    for (let i = 0; i < length; i++) {
+      if (i >= before.length) {
+        changes.push({ path: joinPath(path, i), kind: 'added', after: after[i] });
+      } else if (i >= after.length) {
+        changes.push({ path: joinPath(path, i), kind: 'removed', before: before[i] });
+      } else {
+        diffJson(before[i], after[i], joinPath(path, i), changes);
+      }
+    }
+    return changes;
+  }
+
+  if (isObject(before) && isObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    keys.forEach(key => {
+      if (!(key in after)) {
+        changes.push({ path: joinPath(path, key), kind: 'removed', before: before[key] });
+      } else if (!(key in before)) {
+        changes.push({ path: joinPath(path, key), kind: 'added', after: after[key] });
+      } else {
+        diffJson(before[key], after[key], joinPath(path, key), changes);
+      }
+    });
+    return changes;
+  }
+
+  changes.push({ path, kind: 'changed', before, after });
+  return changes;
+}
+
+function groupByUrl(items: StructuredDataItem[]): Map<string, StructuredDataItem[]> {
+  const groups = new Map<string, StructuredDataItem[]>();
+  items.forEach(item => {
+    if (!groups.has(item.url)) {
+      groups.set(item.url, []);
+    }
+    groups.get(item.url)!.push(item);
+  });
+  return groups;
+}
+
+// Takes the first remaining item that satisfies `matches` out of `candidates`
+function takeMatch(
+  candidates: StructuredDataItem[],
+  matches: (candidate: StructuredDataItem) => boolean
+): StructuredDataItem | undefined {
+  const index = candidates.findIndex(matches);
+  return index === -1 ? undefined : candidates.splice(index, 1)[0];
+}
+
+function diffPage(before: StructuredDataItem[], after: StructuredDataItem[]): { items: ItemDiff[]; unchanged: number } {
+  const remainingBefore = [...before];
+  const remainingAfter: StructuredDataItem[] = [];
+  let unchanged = 0;
+
+  // Identical items keep their hash
+  after.forEach(item => {
+    if (takeMatch(remainingBefore, candidate => candidate.hash === item.hash)) {
+      unchanged++;
+    } else {
+      remainingAfter.push(item);
+    }
+  });
+
+  const items: ItemDiff[] = [];
+  const unpaired: StructuredDataItem[] = [];
+
+  // Pair edited items by @id first, then by format and type
+  remainingAfter.forEach(item => {
+    const previous = item.id
+      ? takeMatch(remainingBefore, candidate => candidate.id === item.id && candidate.format === item.format)
+      : undefined;
+    if (previous) {
+      items.push({ status: 'changed', before: previous, after: item, matchedBy: 'id', changes: diffJson(previous.data, item.data) });
+    } else {
+      unpaired.push(item);
+    }
+  });
+
+  unpaired.forEach(item => {
+    const previous = takeMatch(
+      remainingBefore,
+      candidate => candidate.format === item.format && candidate.type === item.type
+    );
+    if (previous) {
+      items.push({ status: 'changed', before: previous, after: item, matchedBy: 'type', changes: diffJson(previous.data, item.data) });
+    } else {
+      items.push({ status: 'added', after: item, changes: [] });
+    }
+  });
+
+  remainingBefore.forEach(item => {
+    items.push({ status: 'removed', before: item, changes: [] });
+  });
+
+  return { items, unchanged };
+}
+
+function diffSnippets(before: StructuredDataItem[], after: StructuredDataItem[]): SnippetDiff[] {
+  const beforeSnippets = new Map(groupStructuredData(before).map(snippet => [snippet.hash, snippet]));
+  const afterSnippets = new Map(groupStructuredData(after).map(snippet => [snippet.hash, snippet]));
+  const pagesOf = (snippet: StructuredDataSnippet) => new Set(snippet.items.map(item => item.url));
+  const diffs: SnippetDiff[] = [];
+
+  afterSnippets.forEach((snippet, hash) => {
+    const previous = beforeSnippets.get(hash);
+    const pages = pagesOf(snippet);
+    if (!previous) {
+      diffs.push({ status: 'added', snippet, pagesAdded: Array.from(pages), pagesRemoved: [] });
+      return;
+    }
+
+    // Same snippet, but published on a different set of pages
+    const previousPages = pagesOf(previous);
+    const pagesAdded = Array.from(pages).filter(url => !previousPages.has(url));
+    const pagesRemoved = Array.from(previousPages).filter(url => !pages.has(url));
+    if (pagesAdded.length > 0 || pagesRemoved.length > 0) {
+      diffs.push({ status: 'changed', snippet, pagesAdded, pagesRemoved });
+    }
+  });
+
+  beforeSnippets.forEach((snippet, hash) => {
+    if (!afterSnippets.has(hash)) {
+      diffs.push({ status: 'removed', snippet, pagesAdded: [], pagesRemoved: Array.from(pagesOf(snippet)) });
+    }
+  });
+
+  return diffs;
+}
+
+export function diffCrawls(before: StructuredDataItem[], after: StructuredDataItem[]): CrawlDiff {
+  const beforeByUrl = groupByUrl(before);
+  const afterByUrl = groupByUrl(after);
+  const allUrls = new Set([...beforeByUrl.keys(), ...afterByUrl.keys()]);
+
+  const urls: UrlDiff[] = [];
+  const summary = { added: 0, removed: 0, changed: 0, unchanged: 0 };
+
+  Array.from(allUrls).sort().forEach(url => {
+    const { items, unchanged } = diffPage(beforeByUrl.get(url) || [], afterByUrl.get(url) || []);
+    summary.unchanged += unchanged;
+    items.forEach(item => summary[item.status]++);
+
+    if (items.length > 0) {
+      const status: DiffStatus = !beforeByUrl.has(url) ? 'added' : !afterByUrl.has(url) ? 'removed' : 'changed';
+      urls.push({ url, status, items });
+    }
+  });
+
+  return { urls, snippets: diffSnippets(before, after), summary };
+}
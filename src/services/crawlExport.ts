@@ -0,0 +1,147 @@
+import { StructuredDataItem, StructuredDataSnippet, CrawlStats, CrawledPage } from '../types/crawler';
+import { groupStructuredData } from './dataGrouper';
+
+export interface CrawlExport {
+  crawledAt: string;
+  // Crawl details; missing from exports made before they were added
+  domain?: string;
+  stats?: CrawlStats;
+  pages?: CrawledPage[];
+  totalItems: number;
+  individualData: StructuredDataItem[];
+  snippetData: StructuredDataSnippet[];
+}
+
+export type CrawlExportDetails = Pick<CrawlExport, 'domain' | 'stats' | 'pages'>;
+
+// An export read back in, ready to be shown like a finished crawl
+export interface ImportedCrawl {
+  domain?: string;
+  crawledAt?: string;
+  items: StructuredDataItem[];
+  snippets: StructuredDataSnippet[];
+  stats: CrawlStats;
+  pages: CrawledPage[];
+}
+
+const CRAWL_STATUSES: CrawlStats['status'][] = ['running', 'paused', 'completed', 'stopped', 'error'];
+
+export function createCrawlExport(
+  items: StructuredDataItem[],
+  snippets: StructuredDataSnippet[],
+  totalItems = items.length,
+  details: CrawlExportDetails = {}
+): CrawlExport {
+  return {
+    crawledAt: new Date().toISOString(),
+    ...details,
+    totalItems,
+    individualData: items,
+    snippetData: snippets
+  };
+}
+
+function isStructuredDataItem(value: unknown): value is StructuredDataItem {
+  if (!value || typeof value !== 'object') return false;
+  const item = value as Record<string, unknown>;
+  return (
+    typeof item.url === 'string' &&
+    typeof item.format === 'string' &&
+    typeof item.hash === 'string' &&
+    !!item.data &&
+    typeof item.data === 'object'
+  );
+}
+
+// Reads the individual items back out of a file written by Export → JSON
+export function readExportItems(json: unknown): StructuredDataItem[] {
+  const items = (json as Partial<CrawlExport> | null)?.individualData;
+  if (!Array.isArray(items)) {
+    throw new Error('Not a crawl export: "individualData" is missing');
+  }
+
+  const invalid = items.findIndex(item => !isStructuredDataItem(item));
+  if (invalid !== -1) {
+    throw new Error(`Not a crawl export: item ${invalid} is missing url, format, hash or data`);
+  }
+
+  return items;
+}
+
+export function readExportPages(json: unknown): CrawledPage[] | undefined {
+  const pages = (json as Partial<CrawlExport> | null)?.pages;
+  if (pages === undefined) return undefined;
+  if (!Array.isArray(pages) || pages.some(page => !page || typeof page.url !== 'string')) {
+    throw new Error('Not a crawl export: "pages" must be a list of crawled pages');
+  }
+  return pages;
+}
+
+function isStructuredDataSnippet(value: unknown): value is StructuredDataSnippet {
+  if (!value || typeof value !== 'object') return false;
+  const snippet = value as Record<string, unknown>;
+  return (
+    typeof snippet.hash === 'string' &&
+    typeof snippet.format === 'string' &&
+    Array.isArray(snippet.items) &&
+    snippet.items.every(isStructuredDataItem) &&
+    Array.isArray(snippet.connections)
+  );
+}
+
+function readExportStats(json: Partial<CrawlExport>, items: StructuredDataItem[], pages?: CrawledPage[]): CrawlStats {
+  const stats = json.stats as Record<string, unknown> | undefined;
+  if (stats === undefined) {
+    // Older exports carry no stats, so rebuild what the items tell us
+    return {
+      pagesCrawled: pages ? pages.filter(page => !page.error && !page.duplicate && !page.skipped).length : new Set(items.map(item => item.url)).size,
+      structuredDataFound: items.length,
+      duration: 0,
+      status: 'completed'
+    };
+  }
+
+  const isCount = (value: unknown) => typeof value === 'number' && value >= 0;
+  if (
+    !stats || typeof stats !== 'object' ||
+    !isCount(stats.pagesCrawled) || !isCount(stats.structuredDataFound) || !isCount(stats.duration) ||
+    !CRAWL_STATUSES.includes(stats.status as CrawlStats['status'])
+  ) {
+    throw new Error('Not a crawl export: "stats" is not a valid set of crawl statistics');
+  }
+
+  // An export taken mid-crawl can't be continued, show it as stopped
+  const valid = stats as unknown as CrawlStats;
+  const status = valid.status === 'running' || valid.status === 'paused' ? 'stopped' : valid.status;
+  return { ...valid, status };
+}
+
+/**
+ * Reads a whole export back in. The snippets in the file are only checked for
+ * their shape; they are rebuilt from the items with groupStructuredData so
+ * connections and duplicate counts match the current grouping rules.
+ */
+export function readCrawlExport(json: unknown): ImportedCrawl {
+  const items = readExportItems(json);
+  const pages = readExportPages(json);
+  const data = json as Partial<CrawlExport>;
+
+  if (data.snippetData !== undefined) {
+    if (!Array.isArray(data.snippetData)) {
+      throw new Error('Not a crawl export: "snippetData" must be a list of snippets');
+    }
+    const invalid = data.snippetData.findIndex(snippet => !isStructuredDataSnippet(snippet));
+    if (invalid !== -1) {
+      throw new Error(`Not a crawl export: snippet ${invalid} is missing hash, format, items or connections`);
+    }
+  }
+
+  return {
+    domain: typeof data.domain === 'string' ? data.domain : undefined,
+    crawledAt: typeof data.crawledAt === 'string' ? data.crawledAt : undefined,
+    items,
+    snippets: groupStructuredData(items),
+    stats: readExportStats(data, items, pages),
+    pages: pages || []
+  };
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createCrawlScope,
+  formatPatternLimit,
+  getScopePatternError,
+  parsePatternLimit
+} from './crawlScope';
+import { CrawlOptions } from '../components/CrawlerForm';
+
+const OPTIONS: CrawlOptions = {
+  maxPages: 50,
+  maxDepth: 3,
+  respectRobots: true,
+  delay: 0,
+  concurrency: 1,
+  discoveryMode: 'links'
+};
+
+const scopeOf = (options: Partial<CrawlOptions>, counts?: Record<string, number>) =>
+  createCrawlScope({ ...OPTIONS, ...options }, counts);
+
+describe('stripQuery', () => {
+  const { stripQuery } = scopeOf({ stripQueryParams: ['utm_*', 'sessionid'] });
+
+  it('removes matching parameters and keeps the others in order', () => {
+    expect(stripQuery('https://example.com/shoe?utm_source=mail&colour=red&UTM_Medium=x&sessionid=1&size=42'))
+      .toBe('https://example.com/shoe?colour=red&size=42');
+  });
+
+  it('drops the question mark when no parameter is left', () => {
+    expect(stripQuery('https://example.com/shoe?utm_campaign=spring')).toBe('https://example.com/shoe');
+  });
+
+  it('removes repeated parameters and matches names exactly', () => {
+    expect(stripQuery('https://example.com/?sessionid=1&sessionid=2&sessionidx=3')).toBe('https://example.com/?sessionidx=3');
+  });
+
+  it('leaves URLs alone without parameters to strip, and * strips them all', () => {
+    expect(scopeOf({}).stripQuery('https://example.com/?utm_source=x')).toBe('https://example.com/?utm_source=x');
+    expect(scopeOf({ stripQueryParams: ['*'] }).stripQuery('https://example.com/?a=1&b=2')).toBe('https://example.com/');
+  });
+});
+
+describe('isInScope', () => {
+  it('takes every URL without patterns', () => {
+    expect(scopeOf({}).isInScope('https://example.com/anything')).toBe(true);
+  });
+
+  it('matches globs per segment with * and across segments with **', () => {
+    const { isInScope } = scopeOf({ includePatterns: ['/product/*', '/blog/**'] });
+    expect(isInScope('https://example.com/product/shoe')).toBe(true);
+    expect(isInScope('https://example.com/product/shoe/reviews')).toBe(false);
+    expect(isInScope('https://example.com/blog/2024/05/launch')).toBe(true);
+    expect(isInScope('https://example.com/about')).toBe(false);
+  });
+
+  it('lets exclude patterns win over include patterns', () => {
+    const { isInScope } = scopeOf({ includePatterns: ['/product/**'], excludePatterns: ['/product/*/reviews', '/product/:slug/print'] });
+    expect(isInScope('https://example.com/product/shoe')).toBe(true);
+    expect(isInScope('https://example.com/product/shoe/reviews')).toBe(false);
+    expect(isInScope('https://example.com/product/shoe/print')).toBe(false);
+  });
+
+  it('reads patterns starting with re: as regular expressions on the path', () => {
+    const { isInScope } = scopeOf({ includePatterns: ['re:^/(en|de)/'], excludePatterns: ['re:\\.pdf$'] });
+    expect(isInScope('https://example.com/en/shoe')).toBe(true);
+    expect(isInScope('https://example.com/de/guide.pdf')).toBe(false);
+    expect(isInScope('https://example.com/fr/shoe')).toBe(false);
+  });
+
+  it('matches the path only, not the query', () => {
+    expect(scopeOf({ excludePatterns: ['/search'] }).isInScope('https://example.com/search?q=shoe')).toBe(false);
+  });
+
+  it('rejects invalid patterns', () => {
+    expect(getScopePatternError('re:(')).not.toBeNull();
+    expect(getScopePatternError('/product/*')).toBeNull();
+    expect(() => scopeOf({ includePatterns: ['re:['] })).toThrow('Invalid path pattern "re:["');
+  });
+});
+
+describe('pattern limits', () => {
+  const patternLimits = [{ pattern: '/product/*', maxPages: 2 }, { pattern: '/product/**', maxPages: 1 }];
+
+  it('holds a slot per claimed page and counts it once crawled', () => {
+    const scope = scopeOf({ patternLimits });
+    expect(scope.claim('https://example.com/product/a')).toBe(true);
+    expect(scope.claim('https://example.com/product/b')).toBe(true);
+    expect(scope.claim('https://example.com/product/c')).toBe(false);
+
+    scope.settle('https://example.com/product/a', true);
+    scope.settle('https://example.com/product/b', false);
+    expect(scope.getPatternCounts()).toEqual({ '/product/*': 1, '/product/**': 0 });
+    // The page that wasn't crawled gave its slot back
+    expect(scope.claim('https://example.com/product/c')).toBe(true);
+  });
+
+  it('counts each page against the first limit it matches only', () => {
+    const scope = scopeOf({ patternLimits });
+    expect(scope.claim('https://example.com/product/a/reviews')).toBe(true);
+    expect(scope.claim('https://example.com/product/b/reviews')).toBe(false);
+    expect(scope.claim('https://example.com/about')).toBe(true);
+  });
+
+  it('starts from the counts of a resumed crawl', () => {
+    const scope = scopeOf({ patternLimits }, { '/product/*': 2 });
+    expect(scope.claim('https://example.com/product/c')).toBe(false);
+    expect(scope.claim('https://example.com/product/c/reviews')).toBe(true);
+  });
+});
+
+describe('parsePatternLimit', () => {
+  it('reads a pattern and a number of pages', () => {
+    expect(parsePatternLimit(' /product/:slug  20 ')).toEqual({ pattern: '/product/:slug', maxPages: 20 });
+    expect(parsePatternLimit('re:^/a b/ 5')).toEqual({ pattern: 're:^/a b/', maxPages: 5 });
+    expect(formatPatternLimit({ pattern: '/blog/**', maxPages: 3 })).toBe('/blog/** 3');
+  });
+
+  it('rejects a line without a number', () => {
+    expect(() => parsePatternLimit('/product/*')).toThrow('Invalid pattern limit "/product/*"');
+  });
+});
@@ -0,0 +1,138 @@
+import { CrawlOptions } from '../components/CrawlerForm';
+import { compilePathPattern } from '../utils/pathPattern';
+
+export interface PatternLimit {
+  pattern: string;
+  maxPages: number;
+}
+
+/**
+ * Which URLs a crawl takes on. Query parameters are stripped from every URL
+ * before it is queued, include and exclude patterns keep URLs out of the
+ * queue, and pattern limits stop taking pages of a pattern once it has its
+ * share.
+ */
+export interface CrawlScope {
+  stripQuery: (url: string) => string;
+  isInScope: (url: string) => boolean;
+  // Holds a slot of the page's pattern limit while it is fetched; false when
+  // crawled and held pages already reach the limit
+  claim: (url: string) => boolean;
+  // Frees the slot, counting the page only when it was crawled. Failed pages,
+  // duplicates and skipped redirects leave the share to other pages
+  settle: (url: string, crawled: boolean) => void;
+  // Pages crawled per limited pattern, for resuming the crawl later
+  getPatternCounts: () => Record<string, number>;
+}
+
+// Patterns starting with this are regular expressions instead of globs
+export const REGEX_PATTERN_PREFIX = 're:';
+
+export function compileScopePattern(pattern: string): RegExp {
+  return pattern.startsWith(REGEX_PATTERN_PREFIX)
+    ? new RegExp(pattern.slice(REGEX_PATTERN_PREFIX.length))
+    : compilePathPattern(pattern);
+}
+
+export function getScopePatternError(pattern: string): string | null {
+  try {
+    compileScopePattern(pattern);
+    return null;
+  } catch (err) {
+    return (err as Error).message;
+  }
+}
+
+// `/product/* 20`: a path pattern and the most pages to crawl that match it
+export function parsePatternLimit(text: string): PatternLimit {
+  const match = text.trim().match(/^(.+?)\s+(\d+)$/);
+  if (!match) {
+    throw new Error(`Invalid pattern limit "${text.trim()}", expected a pattern and a number of pages`);
+  }
+  return { pattern: match[1], maxPages: parseInt(match[2], 10) };
+}
+
+export function formatPatternLimit({ pattern, maxPages }: PatternLimit): string {
+  return `${pattern} ${maxPages}`;
+}
+
+// `utm_*` matches every parameter starting with utm_, and `*` alone all of them
+function compileParamPattern(name: string): RegExp {
+  const source = name.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+function getPath(url: string): string | null {
+  try {
+    return new URL(url).pathname;
+  } catch {
+    return null;
+  }
+}
+
+export function createCrawlScope(options: CrawlOptions, patternCounts: Record<string, number> = {}): CrawlScope {
+  const compile = (pattern: string) => {
+    const error = getScopePatternError(pattern);
+    if (error) throw new Error(`Invalid path pattern "${pattern}": ${error}`);
+    return compileScopePattern(pattern);
+  };
+  const includes = (options.includePatterns ?? []).map(compile);
+  const excludes = (options.excludePatterns ?? []).map(compile);
+  const strippedParams = (options.stripQueryParams ?? []).map(compileParamPattern);
+  const limits = (options.patternLimits ?? []).map(limit => ({
+    pattern: limit.pattern,
+    regex: compile(limit.pattern),
+    maxPages: limit.maxPages
+  }));
+  // A resumed crawl picks up the counts where it left off
+  const counts = limits.map(limit => patternCounts[limit.pattern] ?? 0);
+  const held = limits.map(() => 0);
+
+  const stripQuery = (url: string) => {
+    if (strippedParams.length === 0) return url;
+    try {
+      const urlObj = new URL(url);
+      const params = new URLSearchParams(urlObj.search);
+      Array.from(new Set(params.keys()))
+        .filter(key => strippedParams.some(regex => regex.test(key)))
+        .forEach(key => params.delete(key));
+      urlObj.search = params.toString();
+      return urlObj.href;
+    } catch {
+      return url;
+    }
+  };
+
+  const isInScope = (url: string) => {
+    const path = getPath(url);
+    if (path === null) return false;
+    return (includes.length === 0 || includes.some(regex => regex.test(path))) &&
+      !excludes.some(regex => regex.test(path));
+  };
+
+  // Each page counts against the first limit it matches, like the coverage buckets
+  const findLimit = (url: string) => {
+    const path = getPath(url);
+    return path === null ? -1 : limits.findIndex(limit => limit.regex.test(path));
+  };
+
+  const claim = (url: string) => {
+    const index = findLimit(url);
+    if (index === -1) return true;
+    if (counts[index] + held[index] >= limits[index].maxPages) return false;
+    held[index]++;
+    return true;
+  };
+
+  const settle = (url: string, crawled: boolean) => {
+    const index = findLimit(url);
+    if (index === -1) return;
+    held[index]--;
+    if (crawled) counts[index]++;
+  };
+
+  const getPatternCounts = () =>
+    Object.fromEntries(limits.map((limit, index) => [limit.pattern, counts[index]]));
+
+  return { stripQuery, isInScope, claim, settle, getPatternCounts };
+}
@@ -0,0 +1,263 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { gzipSync, strToU8 } from 'fflate';
+import { installDomGlobals } from '../cli/dom';
+import { crawlDomain, CrawlFrontier } from './crawler';
+import { createRecordedFetcher, FetchRecording } from './fetcher';
+import { CrawlOptions } from '../components/CrawlerForm';
+import { CrawledPage, StructuredDataItem } from '../types/crawler';
+import shopRecording from './fixtures/shopRecording.json';
+
+const OPTIONS: CrawlOptions = {
+  maxPages: 50,
+  maxDepth: 3,
+  respectRobots: true,
+  delay: 0,
+  concurrency: 1,
+  discoveryMode: 'links',
+  maxRetries: 0
+};
+
+const html = (body: string) => ({
+  status: 200,
+  headers: { 'content-type': 'text/html' },
+  body: `<!DOCTYPE html><html><head></head><body>${body}</body></html>`
+});
+
+const productJsonLd = (name: string) =>
+  `<script type="application/ld+json">{"@context":"https://schema.org","@type":"Product","name":"${name}"}</script>`;
+
+// fetchTime depends on the clock
+function withoutFetchTime(pages: CrawledPage[]): CrawledPage[] {
+  return pages.map(page => {
+    const copy = { ...page };
+    delete copy.fetchTime;
+    return copy;
+  });
+}
+
+async function crawl(recording: FetchRecording, options: Partial<CrawlOptions> = {}, domain = 'example.com') {
+  const pages: CrawledPage[] = [];
+  const items: StructuredDataItem[] = [];
+  await crawlDomain(domain, { ...OPTIONS, ...options }, {
+    onProgress: () => {},
+    onData: data => items.push(...data),
+    onPage: page => pages.push(page),
+    signal: new AbortController().signal,
+    fetcher: createRecordedFetcher(recording)
+  });
+  return { pages, items };
+}
+
+describe('crawlDomain redirects', () => {
+  beforeAll(installDomGlobals);
+
+  const recording: FetchRecording = {
+    'https://example.com/robots.txt': { status: 200, body: 'User-agent: *\nDisallow: /private' },
+    'https://example.com/': html('<a href="/away">a</a><a href="/hidden">h</a><a href="/out-of-scope">o</a><a href="/moved">m</a>'),
+    'https://example.com/away': { status: 301, headers: { location: 'https://other.example/product' } },
+    'https://other.example/product': html(productJsonLd('Elsewhere')),
+    'https://example.com/hidden': { status: 302, headers: { location: '/private/product' } },
+    'https://example.com/private/product': html(productJsonLd('Private')),
+    'https://example.com/out-of-scope': { status: 302, headers: { location: '/archive/product' } },
+    'https://example.com/archive/product': html(productJsonLd('Archived')),
+    'https://example.com/moved': { status: 301, headers: { location: '/product/1' } },
+    'https://example.com/product/1': html(productJsonLd('Shoe'))
+  };
+
+  it('skips redirect targets off the site, disallowed by robots.txt or outside the scope', async () => {
+    const { pages, items } = await crawl(recording, { excludePatterns: ['/archive/**'] });
+    const byUrl = new Map(pages.map(page => [page.url, page]));
+
+    expect(byUrl.get('https://other.example/product')?.skipped).toBe('Redirected off the site');
+    expect(byUrl.get('https://example.com/private/product')?.skipped).toBe('Redirected to a URL disallowed by robots.txt');
+    expect(byUrl.get('https://example.com/archive/product')?.skipped).toBe('Redirected outside the crawl scope');
+    expect(byUrl.get('https://example.com/product/1')?.skipped).toBeUndefined();
+
+    // Only the page the allowed redirect led to has its markup extracted
+    expect(items.map(item => item.data.name)).toEqual(['Shoe']);
+  });
+});
+
+describe('crawlDomain sitemaps', () => {
+  beforeAll(installDomGlobals);
+
+  const urlset = (paths: string[]) =>
+    `<urlset>${paths.map(path => `<url><loc>https://example.com${path}</loc></url>`).join('')}</urlset>`;
+  const sitemapIndex = (paths: string[]) =>
+    `<sitemapindex>${paths.map(path => `<sitemap><loc>https://example.com${path}</loc></sitemap>`).join('')}</sitemapindex>`;
+
+  it('follows sitemap indexes down to every urlset, once each', async () => {
+    const requested: string[] = [];
+    const recording: FetchRecording = {
+      'https://example.com/robots.txt': { status: 200, body: 'Sitemap: https://example.com/sitemap-index.xml' },
+      // The nested index lists the top one again, which must not loop
+      'https://example.com/sitemap-index.xml': { status: 200, body: sitemapIndex(['/sitemap-pages.xml', '/nested-index.xml']) },
+      'https://example.com/nested-index.xml': { status: 200, body: sitemapIndex(['/sitemap-index.xml', '/sitemap-products.xml.gz']) },
+      'https://example.com/sitemap-pages.xml': { status: 200, body: urlset(['/', '/about']) },
+      'https://example.com/sitemap-products.xml.gz': {
+        status: 200,
+        body: btoa(String.fromCharCode(...gzipSync(strToU8(urlset(['/product/shoe', '/product/hat']))))),
+        encoding: 'base64'
+      },
+      'https://example.com/': html(''),
+      'https://example.com/about': html(''),
+      'https://example.com/product/shoe': html(''),
+      'https://example.com/product/hat': html('')
+    };
+    const recorded = createRecordedFetcher(recording);
+
+    const pages: CrawledPage[] = [];
+    await crawlDomain('example.com', { ...OPTIONS, discoveryMode: 'sitemap' }, {
+      onProgress: () => {},
+      onData: () => {},
+      onPage: page => pages.push(page),
+      signal: new AbortController().signal,
+      fetcher: { name: recorded.name, fetch: (url, request) => { requested.push(url); return recorded.fetch(url, request); } }
+    });
+
+    expect(pages.map(page => page.url)).toEqual([
+      'https://example.com/',
+      'https://example.com/about',
+      'https://example.com/product/shoe',
+      'https://example.com/product/hat'
+    ]);
+    expect(requested.filter(url => url.includes('sitemap-index.xml'))).toHaveLength(1);
+  });
+});
+
+describe('crawlDomain start page', () => {
+  beforeAll(installDomGlobals);
+
+  it('crawls the target of a start page redirect outside the include patterns', async () => {
+    const { pages, items } = await crawl({
+      'https://example.com/': { status: 302, headers: { location: '/en/' } },
+      'https://example.com/en/': html(`${productJsonLd('Home')}<a href="/products/shoe">s</a><a href="/en/about">a</a>`),
+      'https://example.com/products/shoe': html(productJsonLd('Shoe')),
+      'https://example.com/en/about': html(productJsonLd('About'))
+    }, { includePatterns: ['/products/**'] });
+
+    expect(pages.map(page => [page.url, page.skipped])).toEqual([
+      ['https://example.com/en', undefined],
+      ['https://example.com/products/shoe', undefined]
+    ]);
+    expect(items.map(item => item.data.name)).toEqual(['Home', 'Shoe']);
+  });
+
+  it('still skips a start page redirect off the site', async () => {
+    const { pages } = await crawl({
+      'https://example.com/': { status: 301, headers: { location: 'https://other.example/' } },
+      'https://other.example/': html(productJsonLd('Elsewhere'))
+    });
+
+    expect(pages.map(page => [page.url, page.skipped])).toEqual([
+      ['https://other.example/', 'Redirected off the site']
+    ]);
+  });
+});
+
+describe('crawlDomain pattern limits', () => {
+  beforeAll(installDomGlobals);
+
+  const recording: FetchRecording = {
+    'https://example.com/': html(['a', 'b', 'c', 'd', 'e'].map(name => `<a href="/product/${name}">${name}</a>`).join('')),
+    'https://example.com/product/a': { status: 404, body: 'Not found' },
+    'https://example.com/product/b': html('<link rel="canonical" href="/">'),
+    'https://example.com/product/c': html(productJsonLd('C')),
+    'https://example.com/product/d': html(productJsonLd('D')),
+    'https://example.com/product/e': html(productJsonLd('E'))
+  };
+  const patternLimits = [{ pattern: '/product/*', maxPages: 2 }];
+
+  it('only counts pages that were crawled against the limit', async () => {
+    const { pages, items } = await crawl(recording, { patternLimits });
+
+    expect(pages.map(page => page.url)).toEqual([
+      'https://example.com/',
+      'https://example.com/product/a',
+      'https://example.com/product/b',
+      'https://example.com/product/c',
+      'https://example.com/product/d'
+    ]);
+    // The failed page and the duplicate leave their share to c and d
+    expect(items.map(item => item.data.name)).toEqual(['C', 'D']);
+  });
+
+  it('resumes with the counts from the checkpoint', async () => {
+    const checkpoints: CrawlFrontier[] = [];
+    const resumeFrom: CrawlFrontier = {
+      // Redirect targets and canonical URLs are visited too, but weren't counted
+      visited: ['https://example.com/', 'https://example.com/product/old', 'https://example.com/product/x', 'https://example.com/product/y'],
+      queue: ['c', 'd', 'e'].map(name => ({ url: `https://example.com/product/${name}`, depth: 1 })),
+      pagesCrawled: 2,
+      structuredDataFound: 1,
+      robots: null,
+      patternCounts: { '/product/*': 1 }
+    };
+    const items: StructuredDataItem[] = [];
+
+    await crawlDomain('example.com', { ...OPTIONS, patternLimits }, {
+      onProgress: () => {},
+      onData: data => items.push(...data),
+      onCheckpoint: frontier => checkpoints.push(frontier),
+      signal: new AbortController().signal,
+      fetcher: createRecordedFetcher(recording)
+    }, resumeFrom);
+
+    expect(items.map(item => item.data.name)).toEqual(['C']);
+    expect(checkpoints[checkpoints.length - 1].patternCounts).toEqual({ '/product/*': 2 });
+  });
+});
+
+describe('crawlDomain on a recorded site', () => {
+  beforeAll(installDomGlobals);
+
+  it('crawls the sitemap and the links and records every page', async () => {
+    const { pages, items } = await crawl(shopRecording as FetchRecording, { discoveryMode: 'both' }, 'shop.example');
+
+    expect(withoutFetchTime(pages)).toEqual([
+      {
+        url: 'https://shop.example/', depth: 0, status: 200, contentType: 'text/html; charset=utf-8',
+        bytes: 351, transport: 'Recording', itemCount: 1
+      },
+      {
+        url: 'https://shop.example/about', depth: 0, status: 200, contentType: 'text/html; charset=utf-8',
+        bytes: 95, transport: 'Recording', itemCount: 0
+      },
+      {
+        url: 'https://shop.example/product/shoe', depth: 1, referrer: 'https://shop.example/', status: 200,
+        contentType: 'text/html; charset=utf-8', bytes: 368, transport: 'Recording', itemCount: 1
+      },
+      {
+        url: 'https://shop.example/product/hat', depth: 1, referrer: 'https://shop.example/', status: 200,
+        contentType: 'text/html; charset=utf-8', bytes: 227, transport: 'Recording', itemCount: 1,
+        redirects: [{ url: 'https://shop.example/old-hat', status: 301 }]
+      },
+      {
+        url: 'https://shop.example/product/shoe?ref=home', canonical: 'https://shop.example/product/shoe',
+        duplicate: true, depth: 1, referrer: 'https://shop.example/', status: 200,
+        contentType: 'text/html; charset=utf-8', bytes: 209, transport: 'Recording', itemCount: 0
+      },
+      {
+        url: 'https://shop.example/gone', depth: 1, referrer: 'https://shop.example/', status: 404,
+        contentType: 'text/html', itemCount: 0, error: 'HTTP 404'
+      }
+    ]);
+
+    // /cart is disallowed by robots.txt and never requested
+    expect(pages.some(page => page.url.includes('/cart'))).toBe(false);
+
+    expect(items.map(item => [item.format, item.type, item.url])).toEqual([
+      ['JSON-LD', 'Organization', 'https://shop.example/'],
+      ['Microdata', 'Product', 'https://shop.example/product/shoe'],
+      ['JSON-LD', 'Product', 'https://shop.example/product/hat']
+    ]);
+    expect(items[1].data.offers).toMatchObject({ price: '49.90', priceCurrency: 'EUR' });
+  });
+
+  it('gives the same result on every replay', async () => {
+    const first = await crawl(shopRecording as FetchRecording, { discoveryMode: 'both' }, 'shop.example');
+    const second = await crawl(shopRecording as FetchRecording, { discoveryMode: 'both' }, 'shop.example');
+    expect(withoutFetchTime(second.pages)).toEqual(withoutFetchTime(first.pages));
+    expect(second.items.map(item => item.hash)).toEqual(first.items.map(item => item.hash));
+  });
+});
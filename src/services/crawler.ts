@@ -1,7 +1,15 @@
-import { StructuredDataItem } from '../types/crawler';
+import { StructuredDataItem, CrawledPage, RedirectHop } from '../types/crawler';
 import { CrawlOptions } from '../components/CrawlerForm';
 import { extractStructuredData } from './structuredDataExtractor';
-import { parseRobotsTxt } from './robotsParser';
+import { parseRobotsTxt, isAllowedByRobots, getCrawlDelay, RobotsTxt } from './robotsParser';
+import { parseSitemap, decodeSitemapBytes } from './sitemapParser';
+import { createHostThrottle, HostThrottle } from './hostThrottle';
+import { createCrawlScope } from './crawlScope';
+import { Fetcher, FetchResponse, FetchError, createDirectFetcher } from './fetcher';
+import {
+  RetryPolicy, DEFAULT_RETRY_POLICY, MAX_RETRY_AFTER,
+  isRetryableStatus, isOverloadStatus, getBackoffDelay
+} from './retryPolicy';
 
 function normalizeUrl(url: string, forceHttpsForDomain?: string): string {
   try {
@@ -71,239 +79,543 @@ function extractCanonicalUrl(html: string, currentUrl: string): string {
 interface CrawlCallbacks {
   onProgress: (pagesCrawled: number, structuredDataFound: number) => void;
   onData: (data: StructuredDataItem[]) => void;
+  onPage?: (page: CrawledPage) => void;
+  // Receives a serialisable snapshot after every page and when the crawl pauses
+  onCheckpoint?: (frontier: CrawlFrontier) => void;
   signal: AbortSignal;
+  // Stops taking new pages from the queue; pages already being fetched still finish
+  pauseSignal?: AbortSignal;
+  // How pages are fetched; defaults to fetching directly, without CORS proxies
+  fetcher?: Fetcher;
+}
+
+interface QueueEntry {
+  url: string;
+  depth: number;
+  // The page the link was found on
+  referrer?: string;
 }
 
 interface CrawlState {
   visited: Set<string>;
-  queue: Array<{ url: string; depth: number }>;
+  queue: QueueEntry[];
   pagesCrawled: number;
   structuredDataFound: number;
-  robotsRules: Map<string, boolean>;
+  robots: RobotsTxt | null;
 }
 
-// Cache for domains that require CORS proxy
-const corsProxyCache = new Map<string, boolean>();
+// Plain-data form of CrawlState that can be stored and handed back to crawlDomain
+export interface CrawlFrontier {
+  visited: string[];
+  queue: QueueEntry[];
+  pagesCrawled: number;
+  structuredDataFound: number;
+  robots: RobotsTxt | null;
+  // Pages crawled per limited pattern, so a resumed crawl keeps to the limits
+  patternCounts?: Record<string, number>;
+}
 
-// Local PHP proxy configuration
-const LOCAL_PHP_PROXY =
-  import.meta.env.MODE === 'production'
-    ? '/proxy.php'
-    : 'http://localhost:8000/proxy.php';
+// Upper bounds for sitemap discovery
+const MAX_SITEMAP_URLS = 50000;
+const MAX_SITEMAP_FILES = 50;
+
+// Redirect hops followed per URL unless the crawl options say otherwise
+export const DEFAULT_MAX_REDIRECTS = 10;
+
+// A document together with the URL it was finally served from
+interface FetchResult {
+  body: Uint8Array;
+  transport: string;
+  status?: number;
+  contentType?: string;
+  url: string;
+  redirects: RedirectHop[];
+  retries: number;
+}
 
-// List of public CORS proxies to try as fallback
-const CORS_PROXIES = [
-  'https://api.allorigins.win/get?url=',
-  'https://corsproxy.io/?'
-];
+// How failed requests are retried; with a throttle, retries wait for their slot and overload slows the host down
+interface RetryContext {
+  policy: RetryPolicy;
+  throttle?: HostThrottle;
+  signal?: AbortSignal;
+}
 
-async function fetchWithCorsHandling(url: string, timeout: number = 10000, allowNonHtml: boolean = false): Promise<string> {
-  const urlObj = new URL(url);
-  const domain = urlObj.hostname;
-  
-  // Check if we know this domain requires CORS proxy
-  if (corsProxyCache.get(domain)) {
-    return await fetchThroughProxies(url);
+// Everything about fetching that stays the same for a whole crawl
+interface FetchContext {
+  fetcher: Fetcher;
+  retry: RetryContext;
+  maxRedirects: number;
+}
+
+// Resolves early when the signal aborts, so a stopped crawl doesn't sit out a long backoff
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timeoutId = setTimeout(done, ms);
+    signal?.addEventListener('abort', done);
+    function done() {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+  });
+}
+
+// Errors worth another try: network failures, timeouts and statuses such as 429 or 503
+function isRetryableError(err: Error): boolean {
+  if (err instanceof FetchError) {
+    return err.details.status !== undefined && isRetryableStatus(err.details.status);
   }
-  
-  // Try direct fetch first
-  try {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeout);
-    
-    const response = await fetch(url, {
-      signal: controller.signal,
-      headers: {
-        'User-Agent': 'StructuredDataCrawler/1.0',
-        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-        'Accept-Language': 'en-US,en;q=0.5',
-        'Cache-Control': 'no-cache'
-      },
-      mode: 'cors'
-    });
-    
-    clearTimeout(timeoutId);
-    
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  return true;
+}
+
+/**
+ * Runs a request until it succeeds or the retries run out, waiting for the
+ * server's `Retry-After` if it sent one and an exponential backoff otherwise.
+ * A 429 or 503 also slows down all further requests to the host. The error
+ * of the last attempt is thrown, noting how often it was retried.
+ */
+async function withRetries<T>(
+  url: string,
+  request: () => Promise<T>,
+  { policy, throttle, signal }: RetryContext
+): Promise<{ value: T; retries: number }> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const value = await request();
+      throttle?.recover(url);
+      return { value, retries: attempt };
+    } catch (err) {
+      const details = err instanceof FetchError ? err.details : {};
+      const retryAfter = err instanceof FetchError ? err.retryAfter : undefined;
+      if (details.status !== undefined && isOverloadStatus(details.status)) {
+        throttle?.slowDown(url, retryAfter !== undefined ? Math.min(retryAfter, MAX_RETRY_AFTER) : undefined);
+      }
+
+      const canRetry = attempt < policy.maxRetries && isRetryableError(err as Error) &&
+        (retryAfter === undefined || retryAfter <= MAX_RETRY_AFTER);
+      if (!canRetry || signal?.aborted) {
+        if (attempt === 0) throw err;
+        throw new FetchError(
+          `${(err as Error).message} (gave up after ${attempt} ${attempt === 1 ? 'retry' : 'retries'})`,
+          { ...details, retries: attempt }
+        );
+      }
+
+      const delay = retryAfter ?? getBackoffDelay(attempt, policy);
+      console.warn(`Retrying ${url} in ${delay} ms:`, (err as Error).message);
+      await sleep(delay, signal);
+      await throttle?.wait(url);
     }
+  }
+}
 
-    const contentType = response.headers.get('content-type') || '';
-    if (!allowNonHtml && !contentType.includes('text/html')) {
-      throw new Error('Response is not HTML');
+/**
+ * Fetches a URL and follows its redirects one hop at a time, so the whole
+ * chain can be recorded. Loops and chains longer than `maxRedirects` hops
+ * fail with the chain so far.
+ */
+async function fetchDocument(
+  url: string,
+  { fetcher, retry, maxRedirects }: FetchContext,
+  timeout: number = 10000,
+  allowNonHtml: boolean = false
+): Promise<FetchResult> {
+  const redirects: RedirectHop[] = [];
+  let currentUrl = url;
+  let retries = 0;
+
+  while (true) {
+    let response: FetchResponse;
+    try {
+      const result = await withRetries(currentUrl, () => fetcher.fetch(currentUrl, { timeout }), retry);
+      response = result.value;
+      retries += result.retries;
+    } catch (err) {
+      if (redirects.length === 0) throw err;
+      // A later hop failed: keep the chain that led there
+      throw new FetchError((err as Error).message, { ...(err instanceof FetchError ? err.details : {}), redirects });
+    }
+
+    if (response.kind === 'document') {
+      if (response.url && response.url !== currentUrl) {
+        // Followed by the browser or a proxy: the status and any hops in between are unknown
+        redirects.push({ url: currentUrl });
+        currentUrl = response.url;
+      }
+      // Proxies don't always pass the content type on, so only a known one is checked
+      const { body, status, contentType, transport = fetcher.name } = response;
+      if (!allowNonHtml && contentType !== undefined && !contentType.includes('text/html')) {
+        throw new FetchError('Response is not HTML', {
+          status,
+          contentType,
+          ...(redirects.length > 0 ? { redirects } : {})
+        });
+      }
+      return { body, transport, status, contentType, url: currentUrl, redirects, retries };
     }
 
-    return await response.text();
-  } catch (err: any) {
-    // If it's a CORS error, cache this domain and use proxy
-    if (err.name === 'TypeError' || err.message.includes('CORS') || err.message.includes('fetch')) {
-      console.log(`CORS issue detected for ${domain}, switching to proxy`);
-      corsProxyCache.set(domain, true);
-      return await fetchThroughProxies(url);
+    redirects.push({ url: currentUrl, status: response.status });
+    const nextUrl = new URL(response.location, currentUrl).href;
+
+    if (redirects.some(hop => hop.url === nextUrl)) {
+      const chain = [...redirects.map(hop => hop.url), nextUrl].join(' → ');
+      throw new FetchError(`Redirect loop: ${chain}`, { status: response.status, redirects });
+    }
+    if (redirects.length > maxRedirects) {
+      throw new FetchError(`More than ${maxRedirects} redirects, last to ${nextUrl}`, { status: response.status, redirects });
     }
-    throw err;
+    currentUrl = nextUrl;
   }
 }
 
-async function fetchThroughLocalProxy(url: string): Promise<string> {
-  const proxyUrl = `${LOCAL_PHP_PROXY}?csurl=${encodeURIComponent(url)}`;
-  const response = await fetch(proxyUrl, {
-    method: 'GET'
-    // No custom headers required for basic proxy usage
-  });
+// robots.txt and sitemaps, which needn't be HTML
+async function fetchText(url: string, context: FetchContext, timeout: number = 10000): Promise<string> {
+  const { body } = await fetchDocument(url, context, timeout, true);
+  return new TextDecoder().decode(body);
+}
 
-  if (!response.ok) {
-    throw new Error(`Local PHP proxy failed with status: ${response.status}`);
+async function fetchSitemap(url: string, context: FetchContext): Promise<string> {
+  if (/\.gz$/i.test(new URL(url).pathname)) {
+    return await decodeSitemapBytes((await fetchDocument(url, context, 10000, true)).body);
   }
-
-  return await response.text();
+  return await fetchText(url, context);
 }
 
-async function fetchThroughPublicProxies(url: string): Promise<string> {
-  const encodedUrl = encodeURIComponent(url);
-  
-  for (const proxyBase of CORS_PROXIES) {
+async function discoverSitemapUrls(
+  sitemapUrls: string[],
+  signal: AbortSignal,
+  context: FetchContext
+): Promise<string[]> {
+  const pageUrls = new Set<string>();
+  const seenSitemaps = new Set<string>();
+  const pending = [...sitemapUrls];
+
+  // Walk sitemap index files breadth-first, guarding against cycles
+  while (pending.length > 0 && seenSitemaps.size < MAX_SITEMAP_FILES && pageUrls.size < MAX_SITEMAP_URLS) {
+    if (signal.aborted) {
+      throw new DOMException('Crawl was aborted', 'AbortError');
+    }
+
+    const sitemapUrl = pending.shift()!;
+    if (seenSitemaps.has(sitemapUrl)) {
+      continue;
+    }
+    seenSitemaps.add(sitemapUrl);
+
     try {
-      const proxyUrl = proxyBase + encodedUrl;
-      const response = await fetch(proxyUrl, {
-        headers: {
-          'Accept': 'application/json,text/html,*/*',
+      const sitemap = parseSitemap(await fetchSitemap(sitemapUrl, context));
+      sitemap.sitemaps.forEach(child => {
+        if (!seenSitemaps.has(child)) {
+          pending.push(child);
         }
       });
-      
-      if (response.ok) {
-        const data = await response.json();
-        // Handle different proxy response formats
-        if (data.contents) {
-          return data.contents; // allorigins format
-        } else if (typeof data === 'string') {
-          return data; // corsproxy format
-        } else if (data.data) {
-          return data.data;
-        }
+      for (const url of sitemap.urls) {
+        if (pageUrls.size >= MAX_SITEMAP_URLS) break;
+        pageUrls.add(url);
       }
     } catch (err) {
-      console.warn(`Proxy ${proxyBase} failed for ${url}:`, err);
-      continue; // Try next proxy
+      console.warn(`Could not fetch sitemap ${sitemapUrl}:`, err);
     }
   }
-  
-  throw new Error(`All CORS proxies failed for ${url}`);
-}
 
-async function fetchThroughProxies(url: string): Promise<string> {
-  // First try local PHP proxy
-  try {
-    return await fetchThroughLocalProxy(url);
-  } catch (err) {
-    console.warn(`Local PHP proxy failed, trying public proxies for ${url}`);
-  }
-  
-  // Fall back to public proxies
-  return await fetchThroughPublicProxies(url);
+  return Array.from(pageUrls);
 }
 
 export async function crawlDomain(
   domain: string,
   options: CrawlOptions,
-  callbacks: CrawlCallbacks
+  callbacks: CrawlCallbacks,
+  resumeFrom?: CrawlFrontier
 ): Promise<void> {
-  const { onProgress, onData, signal } = callbacks;
+  const { onProgress, onData, onPage, onCheckpoint, signal, pauseSignal, fetcher } = callbacks;
+  const concurrency = Math.max(1, options.concurrency || 1);
+  const throttle = createHostThrottle(options.delay);
+  const fetchContext: FetchContext = {
+    fetcher: fetcher ?? createDirectFetcher(),
+    retry: {
+      policy: { ...DEFAULT_RETRY_POLICY, maxRetries: options.maxRetries ?? DEFAULT_RETRY_POLICY.maxRetries },
+      throttle,
+      signal
+    },
+    maxRedirects: options.maxRedirects ?? DEFAULT_MAX_REDIRECTS
+  };
 
   // Always use HTTPS for the main crawl target
   const domainWithoutProtocol = domain.replace(/^https?:\/\//, '').replace(/^www\./, '');
   // Extract just the hostname (remove any path)
   const baseDomain = domainWithoutProtocol.split('/')[0];
-  const baseUrl = normalizeUrl(`https://${domainWithoutProtocol}`, baseDomain);
+  const scope = createCrawlScope(options, resumeFrom?.patternCounts);
+  const normalize = (url: string) => scope.stripQuery(normalizeUrl(url, baseDomain));
+  const baseUrl = normalize(`https://${domainWithoutProtocol}`);
   const urlObj = new URL(baseUrl);
 
-  const state: CrawlState = {
-    visited: new Set(),
-    queue: [{ url: baseUrl, depth: 0 }],
-    pagesCrawled: 0,
-    structuredDataFound: 0,
-    robotsRules: new Map()
-  };
-
-  // Load robots.txt if respecting robots
-  if (options.respectRobots) {
+  const state: CrawlState = resumeFrom
+    ? {
+        visited: new Set(resumeFrom.visited),
+        queue: resumeFrom.queue.map(entry => ({ ...entry })),
+        pagesCrawled: resumeFrom.pagesCrawled,
+        structuredDataFound: resumeFrom.structuredDataFound,
+        robots: resumeFrom.robots
+      }
+    : {
+        visited: new Set(),
+        queue: [{ url: baseUrl, depth: 0 }],
+        pagesCrawled: 0,
+        structuredDataFound: 0,
+        robots: null
+      };
+
+  const useSitemaps = options.discoveryMode !== 'links';
+  const followLinks = options.discoveryMode !== 'sitemap';
+  let sitemapLocations: string[] = [];
+
+  if (resumeFrom) {
+    // The frontier already holds the sitemap seeds and the robots.txt rules
+    const crawlDelay = state.robots ? getCrawlDelay(state.robots) : undefined;
+    if (crawlDelay !== undefined) {
+      throttle.setMinInterval(urlObj.hostname, crawlDelay * 1000);
+    }
+  } else if (options.respectRobots || useSitemaps) {
+    // Load robots.txt if respecting robots or looking for sitemaps
+    const robotsUrl = `${urlObj.protocol}//${urlObj.host}/robots.txt`;
     try {
-      const robotsUrl = `${urlObj.protocol}//${urlObj.host}/robots.txt`;
-      try {
-        const robotsText = await fetchWithCorsHandling(robotsUrl, 5000, true);
-        state.robotsRules = parseRobotsTxt(robotsText);
-      } catch (err) {
-        // If robots.txt fails, continue without it
-        console.warn('Could not fetch robots.txt:', err);
+      const robotsText = await fetchText(robotsUrl, fetchContext, 5000);
+      const robots = parseRobotsTxt(robotsText);
+      sitemapLocations = robots.sitemaps;
+
+      if (options.respectRobots) {
+        state.robots = robots;
+
+        // Honour Crawl-delay if it is stricter than the configured delay
+        const crawlDelay = getCrawlDelay(robots);
+        if (crawlDelay !== undefined) {
+          throttle.setMinInterval(urlObj.hostname, crawlDelay * 1000);
+        }
       }
     } catch (err) {
+      // If robots.txt fails, continue without it
       console.warn('Could not fetch robots.txt:', err);
     }
   }
 
-  while (state.queue.length > 0 && state.pagesCrawled < options.maxPages) {
-    if (signal.aborted) {
-      throw new Error('Crawl was aborted');
+  // Seed the queue from sitemaps declared in robots.txt, falling back to /sitemap.xml
+  if (useSitemaps && !resumeFrom) {
+    if (sitemapLocations.length === 0) {
+      sitemapLocations = [`${urlObj.protocol}//${urlObj.host}/sitemap.xml`];
     }
 
-    const { url, depth } = state.queue.shift()!;
+    const sitemapUrls = await discoverSitemapUrls(sitemapLocations, signal, fetchContext);
+    const seeds = new Set<string>();
+    sitemapUrls.forEach(url => {
+      try {
+        const seed = normalize(url);
+        if (new URL(seed).hostname === baseDomain && scope.isInScope(seed)) {
+          seeds.add(seed);
+        }
+      } catch {
+        // skip invalid URLs
+      }
+    });
 
-    // Skip if already visited or depth exceeded
-    if (state.visited.has(url) || depth > options.maxDepth) {
-      continue;
+    if (!followLinks) {
+      if (seeds.size === 0) {
+        throw new Error(`No sitemap URLs found for ${baseDomain}`);
+      }
+      state.queue = [];
     }
 
-    // Check robots.txt
-    if (options.respectRobots && !isAllowedByRobots(url, state.robotsRules)) {
-      continue;
+    seeds.forEach(url => {
+      if (url !== baseUrl || !followLinks) {
+        state.queue.push({ url, depth: 0 });
+      }
+    });
+  }
+
+  // Redirect targets get the same checks as queued URLs, which they bypassed. The start
+  // page is always crawled, so where it redirects to (e.g. / -> /en/) needn't be in scope
+  const getRedirectSkipReason = (pageUrl: string, isStartPage: boolean): string | undefined => {
+    if (new URL(pageUrl).hostname !== baseDomain) {
+      return 'Redirected off the site';
+    }
+    if (options.respectRobots && !isAllowedByRobots(state.robots, pageUrl)) {
+      return 'Redirected to a URL disallowed by robots.txt';
     }
+    if (!isStartPage && !scope.isInScope(pageUrl)) {
+      return 'Redirected outside the crawl scope';
+    }
+    return undefined;
+  };
 
+  // Resolves to whether the page was crawled, rather than failing, redirecting
+  // away or turning out to be a duplicate
+  const crawlPage = async ({ url, depth, referrer }: QueueEntry): Promise<boolean> => {
+    let startTime: number | undefined;
     try {
-      // Add delay between requests
-      if (state.pagesCrawled > 0) {
-        await new Promise(resolve => setTimeout(resolve, options.delay));
+      // Wait for a free slot on this host before fetching
+      await throttle.wait(url);
+      if (signal.aborted) return false;
+
+      startTime = Date.now();
+      const { body, transport, status, contentType, url: fetchedUrl, redirects, retries } = await fetchDocument(url, fetchContext);
+      const html = new TextDecoder().decode(body);
+      const fetchTime = Date.now() - startTime;
+      if (signal.aborted) return false;
+
+      const response = {
+        depth, referrer, status, contentType, fetchTime, bytes: body.byteLength, transport,
+        ...(redirects.length > 0 ? { redirects } : {}),
+        ...(retries > 0 ? { retries } : {})
+      };
+
+      // The page is known by the URL it was served from, so every URL redirecting to it counts once
+      const pageUrl = normalize(fetchedUrl);
+      if (pageUrl !== url) {
+        const skipped = getRedirectSkipReason(pageUrl, url === baseUrl && depth === 0);
+        if (skipped) {
+          onPage?.({ url: pageUrl, ...response, skipped, itemCount: 0 });
+          return false;
+        }
+        if (state.visited.has(pageUrl)) {
+          onPage?.({ url: pageUrl, ...response, duplicate: true, itemCount: 0 });
+          return false;
+        }
+        state.visited.add(pageUrl);
       }
-
-      const html = await fetchWithCorsHandling(url);
       
       // Check for canonical URL and use it if different
-      const canonicalUrl = extractCanonicalUrl(html, url);
-      const finalUrl = canonicalUrl !== url ? canonicalUrl : url;
+      const canonicalUrl = extractCanonicalUrl(html, pageUrl);
+      const finalUrl = canonicalUrl !== pageUrl ? canonicalUrl : pageUrl;
+      const canonical = finalUrl !== pageUrl ? { canonical: finalUrl } : {};
       
       // Skip if we've already processed the canonical version
-      if (state.visited.has(finalUrl)) {
-        continue;
+      if (finalUrl !== pageUrl && state.visited.has(finalUrl)) {
+        onPage?.({ url: pageUrl, ...canonical, duplicate: true, ...response, itemCount: 0 });
+        return false;
       }
       
       state.visited.add(finalUrl);
-      state.visited.add(url); // Also mark the original URL as visited
       state.pagesCrawled++;
 
       // Extract structured data
-      const structuredData = extractStructuredData(html, finalUrl);
+      const parseErrors: string[] = [];
+      const structuredData = extractStructuredData(html, finalUrl, parseErrors);
       if (structuredData.length > 0) {
         state.structuredDataFound += structuredData.length;
         onData(structuredData);
       }
+      onPage?.({
+        url: pageUrl,
+        ...canonical,
+        ...response,
+        itemCount: structuredData.length,
+        ...(parseErrors.length > 0 ? { parseErrors } : {})
+      });
 
       // Extract links for next level crawling
-      if (depth < options.maxDepth) {
+      if (followLinks && depth < options.maxDepth) {
         const links = extractLinks(html, finalUrl, baseDomain);
         for (const link of links) {
           // Force HTTPS for links matching the base domain
-          const normalizedLink = normalizeUrl(link, baseDomain);
-          if (!state.visited.has(normalizedLink) && state.queue.length < 1000) {
-            state.queue.push({ url: normalizedLink, depth: depth + 1 });
+          const normalizedLink = normalize(link);
+          if (!state.visited.has(normalizedLink) && state.queue.length < 1000 && scope.isInScope(normalizedLink)) {
+            state.queue.push({ url: normalizedLink, depth: depth + 1, referrer: finalUrl });
           }
         }
       }
 
       onProgress(state.pagesCrawled, state.structuredDataFound);
+      return true;
 
     } catch (err) {
+      if (signal.aborted) return false;
       console.warn(`Failed to crawl ${url}:`, err);
+      onPage?.({
+        url,
+        depth,
+        referrer,
+        ...(err instanceof FetchError ? err.details : {}),
+        ...(startTime !== undefined ? { fetchTime: Date.now() - startTime } : {}),
+        itemCount: 0,
+        error: (err as Error).message
+      });
       // Continue with next URL instead of failing completely
+      return false;
     }
+  };
+
+  // Worker pool: keep up to `concurrency` pages in flight at any time
+  const inFlight = new Set<Promise<void>>();
+  const inFlightUrls = new Map<string, QueueEntry>();
+
+  // Pages still being fetched go back to the front of the queue, so a
+  // checkpoint taken mid-crawl never loses or skips a page
+  const takeCheckpoint = (): CrawlFrontier => ({
+    visited: Array.from(state.visited).filter(url => !inFlightUrls.has(url)),
+    queue: [
+      ...Array.from(inFlightUrls.values(), entry => ({ ...entry })),
+      ...state.queue.map(entry => ({ ...entry }))
+    ],
+    pagesCrawled: state.pagesCrawled,
+    structuredDataFound: state.structuredDataFound,
+    robots: state.robots,
+    patternCounts: scope.getPatternCounts()
+  });
+
+  while (true) {
+    if (signal.aborted) {
+      throw new DOMException('Crawl was aborted', 'AbortError');
+    }
+
+    while (
+      !pauseSignal?.aborted &&
+      inFlight.size < concurrency &&
+      state.queue.length > 0 &&
+      state.pagesCrawled + inFlight.size < options.maxPages
+    ) {
+      const entry = state.queue.shift()!;
+      const { url, depth } = entry;
+
+      // Skip if already visited or depth exceeded
+      if (state.visited.has(url) || depth > options.maxDepth) {
+        continue;
+      }
+
+      // Check robots.txt
+      if (options.respectRobots && !isAllowedByRobots(state.robots, url)) {
+        continue;
+      }
+
+      // Skip pages of a path pattern that already has its share
+      if (!scope.claim(url)) {
+        continue;
+      }
+
+      // Claim the URL right away so other workers don't fetch it too
+      state.visited.add(url);
+      inFlightUrls.set(url, entry);
+
+      const task: Promise<void> = crawlPage(entry).then(crawled => {
+        scope.settle(url, crawled);
+      }).finally(() => {
+        inFlight.delete(task);
+        inFlightUrls.delete(url);
+        // An aborted page returns without being processed, keep it in the last checkpoint
+        if (!signal.aborted) {
+          onCheckpoint?.(takeCheckpoint());
+        }
+      });
+      inFlight.add(task);
+    }
+
+    if (inFlight.size === 0) {
+      break;
+    }
+
+    await Promise.race(inFlight);
+  }
+
+  if (pauseSignal?.aborted) {
+    onCheckpoint?.(takeCheckpoint());
   }
 }
 
@@ -386,23 +698,3 @@ function extractLinks(html: string, baseUrl: string, baseDomain: string): string
   // Remove duplicates
   return Array.from(new Set(links));
 }
-
-function isAllowedByRobots(url: string, robotsRules: Map<string, boolean>): boolean {
-  if (robotsRules.size === 0) return true;
-
-  try {
-    const urlObj = new URL(url);
-    const path = urlObj.pathname;
-    
-    // Check each rule
-    for (const [pattern, allowed] of robotsRules.entries()) {
-      if (path.startsWith(pattern)) {
-        return allowed;
-      }
-    }
-    
-    return true; // Default allow if no rules match
-  } catch {
-    return false;
-  }
-}
\ No newline at end of file
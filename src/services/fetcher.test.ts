@@ -0,0 +1,29 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { createPhpProxyFetcher } from './fetcher';
+
+function stubFetch() {
+  const fetchMock = vi.fn<(url: string) => Promise<Response>>(async () => new Response('<html></html>', {
+    status: 200,
+    headers: { 'content-type': 'text/html', 'x-proxy-status': '200' }
+  }));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+describe('createPhpProxyFetcher', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('adds csmanual to a template that already has a query string', async () => {
+    const fetchMock = stubFetch();
+    await createPhpProxyFetcher('https://proxy.example/proxy.php?csurl={url}').fetch('https://example.com/a?b=1', { timeout: 1000 });
+    expect(fetchMock.mock.calls[0][0]).toBe('https://proxy.example/proxy.php?csurl=https%3A%2F%2Fexample.com%2Fa%3Fb%3D1&csmanual=1');
+  });
+
+  it('starts a query string for a template without one', async () => {
+    const fetchMock = stubFetch();
+    await createPhpProxyFetcher('https://proxy.example/fetch/{url}').fetch('https://example.com/', { timeout: 1000 });
+    expect(fetchMock.mock.calls[0][0]).toBe('https://proxy.example/fetch/https%3A%2F%2Fexample.com%2F?csmanual=1');
+  });
+});
@@ -0,0 +1,368 @@
+import { RedirectHop } from '../types/crawler';
+import { CRAWLER_USER_AGENT } from './robotsParser';
+import { parseRetryAfter } from './retryPolicy';
+
+export interface FetchRequest {
+  timeout: number;
+}
+
+// The answer to one request: a body, or where the URL redirects to. Transports
+// that can only follow redirects themselves set `url` to where they ended up.
+// Fetchers that pick between others set `transport` to the name of the one that answered.
+export type FetchResponse =
+  | { kind: 'document'; body: Uint8Array; status?: number; contentType?: string; url?: string; transport?: string }
+  | { kind: 'redirect'; status: number; location: string };
+
+/**
+ * How the crawler gets at a URL. A fetcher makes a single request and reports
+ * redirects instead of following them; the crawler follows them hop by hop and
+ * takes care of retries. The site's error responses are thrown as FetchError,
+ * anything else thrown counts as the transport failing.
+ */
+export interface Fetcher {
+  // Shown as the transport of the pages it fetched
+  name: string;
+  fetch: (url: string, request: FetchRequest) => Promise<FetchResponse>;
+}
+
+// What the page record gets to know about a failed fetch
+export interface FetchErrorDetails {
+  status?: number;
+  contentType?: string;
+  redirects?: RedirectHop[];
+  retries?: number;
+}
+
+// Carries what is known about a response that was rejected, e.g. its status for a 404
+export class FetchError extends Error {
+  constructor(
+    message: string,
+    readonly details: FetchErrorDetails = {},
+    // Milliseconds the server asked to wait before trying again
+    readonly retryAfter?: number
+  ) {
+    super(message);
+    this.name = 'FetchError';
+  }
+}
+
+// Local PHP proxy configuration (import.meta.env only exists in Vite builds)
+export const LOCAL_PHP_PROXY =
+  import.meta.env?.MODE === 'production'
+    ? '/proxy.php'
+    : 'http://localhost:8000/proxy.php';
+
+// Shared token proxy.php asks for when CSAJAX_TOKEN is set on the server
+export const PHP_PROXY_TOKEN: string = import.meta.env?.VITE_PROXY_TOKEN ?? '';
+
+// Placeholder for the encoded target URL in a proxy URL template
+export const PROXY_URL_PLACEHOLDER = '{url}';
+
+// Adds query parameters to a URL whether or not it already has a query string
+function appendQuery(url: string, params: Record<string, string>): string {
+  return `${url}${url.includes('?') ? '&' : '?'}${new URLSearchParams(params)}`;
+}
+
+function fillTemplate(template: string, url: string): string {
+  if (!template.includes(PROXY_URL_PLACEHOLDER)) {
+    throw new Error(`Proxy URL template must contain ${PROXY_URL_PLACEHOLDER}`);
+  }
+  return template.split(PROXY_URL_PLACEHOLDER).join(encodeURIComponent(url));
+}
+
+// 304 Not Modified has no Location and isn't a redirect to follow
+export function isRedirectStatus(status: number): boolean {
+  return status >= 300 && status < 400 && status !== 304;
+}
+
+function isCorsError(err: Error): boolean {
+  return err.name === 'TypeError' || err.message.includes('CORS') || err.message.includes('fetch');
+}
+
+async function fetchWithTimeout(url: string, timeout: number, init: RequestInit = {}): Promise<Response> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+// Turns a response into a FetchResponse; proxies pass the site's status and Location when they differ from their own
+async function readResponse(
+  response: Response,
+  status: number = response.status,
+  location: string | null = response.headers.get('location')
+): Promise<FetchResponse> {
+  const contentType = response.headers.get('content-type') || undefined;
+
+  if (isRedirectStatus(status)) {
+    if (!location) {
+      throw new FetchError(`HTTP ${status} redirect without a Location header`, { status });
+    }
+    return { kind: 'redirect', status, location };
+  }
+  if (status >= 400) {
+    throw new FetchError(
+      `HTTP ${status}${response.statusText ? `: ${response.statusText}` : ''}`,
+      { status, contentType },
+      parseRetryAfter(response.headers.get('retry-after'))
+    );
+  }
+
+  return {
+    kind: 'document',
+    body: new Uint8Array(await response.arrayBuffer()),
+    status,
+    contentType,
+    url: response.redirected ? response.url : undefined
+  };
+}
+
+// Straight to the site. In browsers this only works for sites that allow CORS.
+export function createDirectFetcher(): Fetcher {
+  const request = (url: string, timeout: number, redirect: RequestRedirect) =>
+    fetchWithTimeout(url, timeout, {
+      headers: {
+        'User-Agent': `${CRAWLER_USER_AGENT}/1.0`,
+        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+        'Accept-Language': 'en-US,en;q=0.5',
+        'Cache-Control': 'no-cache'
+      },
+      mode: 'cors',
+      redirect
+    });
+
+  return {
+    name: 'Direct',
+    fetch: async (url, { timeout }) => {
+      const response = await request(url, timeout, 'manual');
+      if (response.type === 'opaqueredirect') {
+        // Browsers hide where a manual redirect goes, so let fetch follow it and keep the final URL
+        return readResponse(await request(url, timeout, 'follow'));
+      }
+      return readResponse(response);
+    }
+  };
+}
+
+// Through public/proxy.php, which reports redirects in headers when asked to with csmanual.
+// The build's token is added unless the template brings its own.
+export function createPhpProxyFetcher(
+  template: string = `${LOCAL_PHP_PROXY}?csurl=${PROXY_URL_PLACEHOLDER}`,
+  name: string = 'PHP proxy'
+): Fetcher {
+  return {
+    name,
+    fetch: async (url, { timeout }) => {
+      const params: Record<string, string> = { csmanual: '1' };
+      if (PHP_PROXY_TOKEN && !template.includes('cstoken=')) {
+        params.cstoken = PHP_PROXY_TOKEN;
+      }
+      const response = await fetchWithTimeout(appendQuery(fillTemplate(template, url), params), timeout);
+      const siteStatus = response.headers.get('x-proxy-status');
+      if (siteStatus === null && !response.ok) {
+        // The proxy itself failed or refused the URL, as opposed to the site answering with an error
+        const reason = (await response.text().catch(() => '')).trim().slice(0, 200);
+        throw new Error(`PHP proxy failed with status: ${response.status}${reason ? ` (${reason})` : ''}`);
+      }
+      return readResponse(response, Number(siteStatus) || response.status, response.headers.get('x-proxy-location'));
+    }
+  };
+}
+
+/**
+ * Through any proxy that returns the site's response as is, given a URL
+ * template such as `https://proxy.example.com/?url={url}`. The proxy's own
+ * status is taken for the site's, and redirects are followed by the proxy.
+ */
+export function createProxyTemplateFetcher(template: string, name: string = new URL(template).host): Fetcher {
+  return {
+    name,
+    fetch: async (url, { timeout }) => readResponse(await fetchWithTimeout(fillTemplate(template, url), timeout))
+  };
+}
+
+/**
+ * Through a proxy that wraps the site's response in JSON the way allorigins
+ * does: the body in `contents`, and its status, content type and the URL it
+ * ended up at in `status`.
+ */
+export function createJsonProxyFetcher(
+  template: string = `https://api.allorigins.win/get?url=${PROXY_URL_PLACEHOLDER}`,
+  name: string = 'allorigins'
+): Fetcher {
+  return {
+    name,
+    fetch: async (url, { timeout }) => {
+      const response = await fetchWithTimeout(fillTemplate(template, url), timeout, {
+        headers: { 'Accept': 'application/json' }
+      });
+      if (!response.ok) {
+        throw new Error(`${name} failed with status: ${response.status}`);
+      }
+
+      const data = await response.json();
+      if (typeof data.contents !== 'string') {
+        throw new Error(`${name} returned no contents`);
+      }
+      const status = data.status?.http_code;
+      if (typeof status === 'number' && status >= 400) {
+        throw new FetchError(`HTTP ${status}`, { status, contentType: data.status?.content_type });
+      }
+      return {
+        kind: 'document',
+        body: new TextEncoder().encode(data.contents),
+        status,
+        contentType: data.status?.content_type,
+        url: typeof data.status?.url === 'string' ? data.status.url : undefined
+      };
+    }
+  };
+}
+
+/**
+ * Fetches directly until a host turns out to block cross-origin requests,
+ * then goes through the proxies for that host, trying each in turn until one
+ * gets an answer from the site.
+ */
+export function createCorsFallbackFetcher(direct: Fetcher, proxies: Fetcher[]): Fetcher {
+  // Hosts known to need a proxy
+  const proxiedHosts = new Set<string>();
+
+  // Documents are labelled with the fetcher that got them
+  const fetchWith = async (fetcher: Fetcher, url: string, request: FetchRequest): Promise<FetchResponse> => {
+    const response = await fetcher.fetch(url, request);
+    return response.kind === 'document' ? { ...response, transport: response.transport ?? fetcher.name } : response;
+  };
+
+  const fetchThroughProxies = async (url: string, request: FetchRequest): Promise<FetchResponse> => {
+    for (const proxy of proxies) {
+      try {
+        return await fetchWith(proxy, url, request);
+      } catch (err) {
+        // The site's own error response would be the same through any proxy
+        if (err instanceof FetchError) throw err;
+        console.warn(`Proxy failed for ${url}:`, err);
+      }
+    }
+    throw new Error(`All CORS proxies failed for ${url}`);
+  };
+
+  return {
+    name: direct.name,
+    fetch: async (url, request) => {
+      const host = new URL(url).hostname;
+      if (proxiedHosts.has(host)) {
+        return fetchThroughProxies(url, request);
+      }
+
+      try {
+        return await fetchWith(direct, url, request);
+      } catch (err) {
+        if (proxies.length === 0 || err instanceof FetchError || !isCorsError(err as Error)) {
+          throw err;
+        }
+        console.log(`CORS issue detected for ${host}, switching to proxy`);
+        proxiedHosts.add(host);
+        return fetchThroughProxies(url, request);
+      }
+    }
+  };
+}
+
+export interface RecordedResponse {
+  status: number;
+  headers?: Record<string, string>;
+  // Text as is, or base64 for binary content such as gzipped sitemaps
+  body?: string;
+  encoding?: 'base64';
+}
+
+// Responses by URL, as written by a recording fetcher and served by a recorded one
+export type FetchRecording = Record<string, RecordedResponse>;
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array {
+  return Uint8Array.from(atob(text), char => char.charCodeAt(0));
+}
+
+function isTextContent(contentType: string | undefined): boolean {
+  return !contentType || /^text\/|[/+](?:xml|json)\b|html/i.test(contentType);
+}
+
+/**
+ * Serves responses from a recording instead of the network, so a crawl can
+ * be replayed offline with the same result every time. URLs missing from the
+ * recording get a 404.
+ */
+export function createRecordedFetcher(recording: FetchRecording): Fetcher {
+  return {
+    name: 'Recording',
+    fetch: async url => {
+      const recorded = recording[url];
+      if (!recorded) {
+        return readResponse(new Response(null, { status: 404, statusText: 'Not Found (not recorded)' }));
+      }
+      const body = recorded.body === undefined
+        ? null
+        : recorded.encoding === 'base64' ? fromBase64(recorded.body) : recorded.body;
+      return readResponse(new Response(body, { status: recorded.status, headers: recorded.headers }));
+    }
+  };
+}
+
+/**
+ * Passes requests on to another fetcher and adds every answer from the site
+ * to `recording`, ready to be replayed with createRecordedFetcher. Redirects
+ * the transport followed by itself are recorded as a 302 to where it ended up.
+ */
+export function createRecordingFetcher(fetcher: Fetcher, recording: FetchRecording): Fetcher {
+  return {
+    name: fetcher.name,
+    fetch: async (url, request) => {
+      let response: FetchResponse;
+      try {
+        response = await fetcher.fetch(url, request);
+      } catch (err) {
+        if (err instanceof FetchError && err.details.status !== undefined) {
+          const { status, contentType } = err.details;
+          recording[url] = {
+            status,
+            headers: {
+              ...(contentType ? { 'content-type': contentType } : {}),
+              ...(err.retryAfter !== undefined ? { 'retry-after': String(Math.ceil(err.retryAfter / 1000)) } : {})
+            }
+          };
+        }
+        throw err;
+      }
+
+      if (response.kind === 'redirect') {
+        recording[url] = { status: response.status, headers: { location: response.location } };
+        return response;
+      }
+
+      const finalUrl = response.url ?? url;
+      if (finalUrl !== url) {
+        recording[url] = { status: 302, headers: { location: finalUrl } };
+      }
+      const isText = isTextContent(response.contentType);
+      recording[finalUrl] = {
+        status: response.status ?? 200,
+        headers: response.contentType ? { 'content-type': response.contentType } : {},
+        body: isText ? new TextDecoder().decode(response.body) : toBase64(response.body),
+        ...(isText ? {} : { encoding: 'base64' as const })
+      };
+      return response;
+    }
+  };
+}
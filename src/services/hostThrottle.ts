@@ -0,0 +1,81 @@
+export interface HostThrottle {
+  wait: (url: string) => Promise<void>;
+  setMinInterval: (host: string, interval: number) => void;
+  // The host signalled overload: space its requests further apart and hold them for `retryAfter` ms
+  slowDown: (url: string, retryAfter?: number) => void;
+  // A request to the host succeeded: ease a slowdown back towards its normal interval
+  recover: (url: string) => void;
+}
+
+// A slowdown starts at least this far apart, even when crawling without a delay
+const MIN_SLOWDOWN_INTERVAL = 1000;
+const MAX_SLOWDOWN_INTERVAL = 60000;
+// Each successful request shortens a slowed-down interval by this factor
+const RECOVERY_FACTOR = 0.75;
+
+function getHost(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Spaces out requests to the same host so that concurrent workers never hit a
+ * host more often than its minimum interval allows. Each call to `wait` reserves
+ * the next free slot for the host before sleeping, so parallel callers queue up
+ * behind each other instead of firing at the same time.
+ *
+ * A host that answers with 429 or 503 gets its interval doubled on top of that,
+ * and successful requests bring it back down step by step.
+ */
+export function createHostThrottle(defaultInterval: number): HostThrottle {
+  const intervals = new Map<string, number>();
+  const slowdowns = new Map<string, number>();
+  const nextSlot = new Map<string, number>();
+
+  const getInterval = (host: string) =>
+    Math.max(intervals.get(host) ?? defaultInterval, slowdowns.get(host) ?? 0);
+
+  const wait = async (url: string) => {
+    const host = getHost(url);
+    const interval = getInterval(host);
+    const now = Date.now();
+    const slot = Math.max(now, nextSlot.get(host) ?? 0);
+
+    nextSlot.set(host, slot + interval);
+
+    if (slot > now) {
+      await new Promise(resolve => setTimeout(resolve, slot - now));
+    }
+  };
+
+  const setMinInterval = (host: string, interval: number) => {
+    intervals.set(host.replace(/^www\./, ''), Math.max(defaultInterval, interval));
+  };
+
+  const slowDown = (url: string, retryAfter?: number) => {
+    const host = getHost(url);
+    const interval = Math.max(MIN_SLOWDOWN_INTERVAL, getInterval(host) * 2);
+    slowdowns.set(host, Math.min(MAX_SLOWDOWN_INTERVAL, interval));
+    if (retryAfter !== undefined) {
+      nextSlot.set(host, Math.max(nextSlot.get(host) ?? 0, Date.now() + retryAfter));
+    }
+  };
+
+  const recover = (url: string) => {
+    const host = getHost(url);
+    const slowdown = slowdowns.get(host);
+    if (slowdown === undefined) return;
+
+    const interval = slowdown * RECOVERY_FACTOR;
+    if (interval < MIN_SLOWDOWN_INTERVAL || interval <= (intervals.get(host) ?? defaultInterval)) {
+      slowdowns.delete(host);
+    } else {
+      slowdowns.set(host, interval);
+    }
+  };
+
+  return { wait, setMinInterval, slowDown, recover };
+}
@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import { canonicalizeJsonLd, expandJsonLd } from './jsonLdProcessor';
+import { SCHEMA_ORG_CONTEXT } from './vocabulary';
+
+const PAGE_URL = 'https://example.com/products/shoe';
+
+describe('canonicalizeJsonLd', () => {
+  const canonical = {
+    '@context': SCHEMA_ORG_CONTEXT,
+    '@type': 'Product',
+    name: 'Shoe',
+    offers: { '@type': 'Offer', price: 49.9 }
+  };
+
+  it.each([
+    { name: 'a schema.org context URL', input: {
+      '@context': 'https://schema.org',
+      '@type': 'Product',
+      name: 'Shoe',
+      offers: { '@type': 'Offer', price: 49.9 }
+    } },
+    { name: 'the http context with a trailing slash', input: {
+      '@context': 'http://schema.org/',
+      '@type': 'Product',
+      name: 'Shoe',
+      offers: { '@type': 'Offer', price: 49.9 }
+    } },
+    { name: 'a prefix', input: {
+      '@context': { s: 'https://schema.org/' },
+      '@type': 's:Product',
+      's:name': 'Shoe',
+      's:offers': { '@type': 's:Offer', 's:price': 49.9 }
+    } },
+    { name: 'full IRIs', input: {
+      '@type': 'http://schema.org/Product',
+      'http://schema.org/name': 'Shoe',
+      'http://schema.org/offers': { '@type': 'http://schema.org/Offer', 'http://schema.org/price': 49.9 }
+    } },
+    { name: 'aliased terms and keywords', input: {
+      '@context': ['https://schema.org', { title: 'name', kind: '@type', deal: { '@id': 'schema:offers' } }],
+      kind: 'Product',
+      title: 'Shoe',
+      deal: { kind: 'Offer', price: 49.9 }
+    } },
+    { name: 'value objects', input: {
+      '@context': 'https://schema.org',
+      '@type': 'Product',
+      name: { '@value': 'Shoe', '@language': 'en' },
+      offers: { '@type': 'Offer', price: { '@value': 49.9 } }
+    } }
+  ])('gives the same result for $name', ({ input }) => {
+    expect(canonicalizeJsonLd(input, PAGE_URL)).toEqual(canonical);
+  });
+
+  it('resolves @id against the page and @base', () => {
+    expect(canonicalizeJsonLd({ '@context': 'https://schema.org', '@id': '#product', '@type': 'Product' }, PAGE_URL)['@id'])
+      .toBe('https://example.com/products/shoe#product');
+    expect(canonicalizeJsonLd({ '@context': { '@base': 'https://shop.example/' }, '@id': 'item/1' }, PAGE_URL)['@id'])
+      .toBe('https://shop.example/item/1');
+  });
+
+  it('keeps terms of other vocabularies as full IRIs', () => {
+    const result = canonicalizeJsonLd({
+      '@context': ['https://schema.org', { ex: 'https://vocab.example/' }],
+      '@type': ['Product', 'ex:Gadget'],
+      'ex:colour': 'red',
+      unknown: 'kept'
+    }, PAGE_URL);
+
+    expect(result['@type']).toEqual(['Product', 'https://vocab.example/Gadget']);
+    expect(result['https://vocab.example/colour']).toBe('red');
+    expect(result.unknown).toBe('kept');
+  });
+
+  it('drops terms that a later context sets to null', () => {
+    const result = canonicalizeJsonLd({
+      '@context': [{ '@vocab': 'https://schema.org/', title: 'name' }, { title: null }],
+      '@type': 'Product',
+      title: 'Shoe'
+    }, PAGE_URL);
+
+    expect(result.name).toBeUndefined();
+    expect(result['https://schema.org/title']).toBeUndefined();
+    expect(result.title).toBe('Shoe');
+  });
+});
+
+describe('expandJsonLd', () => {
+  it('keeps language tags and datatypes of value objects', () => {
+    const expanded = expandJsonLd({
+      '@context': 'https://schema.org',
+      '@type': 'Event',
+      name: { '@value': 'Fête', '@language': 'fr' },
+      startDate: { '@value': '2024-05-01', '@type': 'xsd:date' }
+    }, PAGE_URL);
+
+    expect(expanded['http://schema.org/name']).toEqual({ '@value': 'Fête', '@language': 'fr' });
+    expect(expanded['http://schema.org/startDate']).toEqual({
+      '@value': '2024-05-01',
+      '@type': 'http://www.w3.org/2001/XMLSchema#date'
+    });
+  });
+
+  it('reads the values of IRI properties from the schema.org context as IRIs', () => {
+    const expanded = expandJsonLd({
+      '@context': 'https://schema.org',
+      '@type': 'Organization',
+      name: 'Shop',
+      url: '/',
+      sameAs: ['https://social.example/shop'],
+      logo: 'logo.png'
+    }, PAGE_URL);
+
+    expect(expanded['http://schema.org/name']).toBe('Shop');
+    expect(expanded['http://schema.org/url']).toEqual({ '@id': 'https://example.com/' });
+    expect(expanded['http://schema.org/sameAs']).toEqual([{ '@id': 'https://social.example/shop' }]);
+    expect(expanded['http://schema.org/logo']).toEqual({ '@id': 'https://example.com/products/logo.png' });
+  });
+
+  it('applies datatypes and languages from term definitions and the default language', () => {
+    const expanded = expandJsonLd({
+      '@context': {
+        '@vocab': 'https://schema.org/',
+        '@language': 'de',
+        xsd: 'http://www.w3.org/2001/XMLSchema#',
+        released: { '@id': 'releaseDate', '@type': 'xsd:date' },
+        code: { '@id': 'sku', '@language': null }
+      },
+      name: 'Schuh',
+      released: '2024-01-01',
+      code: 'S-1'
+    }, PAGE_URL);
+
+    expect(expanded['https://schema.org/name']).toEqual({ '@value': 'Schuh', '@language': 'de' });
+    expect(expanded['https://schema.org/releaseDate']).toEqual({
+      '@value': '2024-01-01',
+      '@type': 'http://www.w3.org/2001/XMLSchema#date'
+    });
+    expect(expanded['https://schema.org/sku']).toBe('S-1');
+  });
+});
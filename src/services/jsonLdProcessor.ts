@@ -0,0 +1,282 @@
+import { SCHEMA_ORG_CONTEXT, compactSchemaOrgIri } from './vocabulary';
+import { SCHEMA_ORG_CONTEXT_DOCUMENT, SCHEMA_ORG_CONTEXT_URLS } from '../data/schemaOrgContext';
+
+type JsonObject = { [key: string]: unknown };
+
+// How a term's plain values are read: as IRIs (@id, @vocab), typed or language-tagged
+interface TermCoercion {
+  type?: string;
+  language?: string | null;
+}
+
+interface ActiveContext {
+  base: string;
+  vocab?: string;
+  // Default language of plain strings
+  language?: string;
+  // Term or prefix -> IRI or keyword
+  terms: Map<string, string>;
+  coercions: Map<string, TermCoercion>;
+}
+
+function isJsonObject(value: unknown): value is JsonObject {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function resolveUrl(value: string, baseUrl: string): string {
+  try {
+    return new URL(value, baseUrl).href;
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Expands a term, compact IRI or relative IRI. Vocabulary-relative expansion is
+ * used for property names and types, document-relative for @id values. Terms
+ * that cannot be expanded are returned unchanged so no data is dropped.
+ */
+function expandIri(context: ActiveContext, value: string, vocabRelative: boolean): string {
+  if (value.startsWith('@')) {
+    return value;
+  }
+
+  const term = context.terms.get(value);
+  if (term !== undefined) {
+    return term;
+  }
+
+  const colonIndex = value.indexOf(':');
+  if (colonIndex > 0) {
+    const prefix = value.substring(0, colonIndex);
+    const suffix = value.substring(colonIndex + 1);
+
+    if (prefix === '_' || suffix.startsWith('//')) {
+      return value;
+    }
+
+    const prefixIri = context.terms.get(prefix);
+    return prefixIri !== undefined && !prefixIri.startsWith('@') ? prefixIri + suffix : value;
+  }
+
+  if (vocabRelative) {
+    return context.vocab ? context.vocab + value : value;
+  }
+
+  return resolveUrl(value, context.base);
+}
+
+function processContext(activeContext: ActiveContext, localContext: unknown): ActiveContext {
+  const contexts = Array.isArray(localContext) ? localContext : [localContext];
+  let result: ActiveContext = {
+    ...activeContext,
+    terms: new Map(activeContext.terms),
+    coercions: new Map(activeContext.coercions)
+  };
+
+  contexts.forEach(context => {
+    if (context === null) {
+      result = { base: activeContext.base, terms: new Map(), coercions: new Map() };
+      return;
+    }
+
+    if (typeof context === 'string') {
+      if (SCHEMA_ORG_CONTEXT_URLS.includes(context.trim())) {
+        result = processContext(result, SCHEMA_ORG_CONTEXT_DOCUMENT);
+      } else {
+        // Remote contexts are never fetched, their terms stay as they are
+        console.warn(`Unsupported remote JSON-LD context: ${context}`);
+      }
+      return;
+    }
+
+    if (!isJsonObject(context)) {
+      return;
+    }
+
+    if (typeof context['@base'] === 'string') {
+      result.base = resolveUrl(context['@base'], result.base);
+    }
+
+    if (context['@vocab'] === null) {
+      result.vocab = undefined;
+    } else if (typeof context['@vocab'] === 'string') {
+      result.vocab = expandIri(result, context['@vocab'], true);
+    }
+
+    if (context['@language'] === null) {
+      result.language = undefined;
+    } else if (typeof context['@language'] === 'string') {
+      result.language = context['@language'];
+    }
+
+    // Register raw definitions first so terms may refer to prefixes defined later
+    const definitions = new Map<string, string>();
+    const coercions = new Map<string, TermCoercion>();
+    Object.entries(context).forEach(([term, definition]) => {
+      if (term.startsWith('@')) return;
+
+      result.coercions.delete(term);
+      if (definition === null) {
+        result.terms.delete(term);
+      } else if (typeof definition === 'string') {
+        definitions.set(term, definition);
+      } else if (isJsonObject(definition)) {
+        // Without @id the term expands against the vocabulary
+        definitions.set(term, typeof definition['@id'] === 'string' ? definition['@id'] : term);
+        const coercion: TermCoercion = {};
+        if (typeof definition['@type'] === 'string') coercion.type = definition['@type'];
+        if (definition['@language'] === null || typeof definition['@language'] === 'string') {
+          coercion.language = definition['@language'];
+        }
+        if (Object.keys(coercion).length > 0) coercions.set(term, coercion);
+      }
+    });
+
+    definitions.forEach((iri, term) => result.terms.set(term, iri));
+    definitions.forEach((iri, term) => {
+      let expanded = iri;
+      // Follow chains like "name" -> "schema:name" -> "http://schema.org/name"
+      for (let i = 0; i < 10; i++) {
+        const next = expandIri({ ...result, terms: new Map([...result.terms].filter(([t]) => t !== term)) }, expanded, true);
+        if (next === expanded) break;
+        expanded = next;
+      }
+      result.terms.set(term, expanded);
+    });
+    // Datatypes may be compact IRIs like xsd:date, so they are expanded once all terms are known
+    coercions.forEach((coercion, term) => {
+      result.coercions.set(term, coercion.type && !coercion.type.startsWith('@')
+        ? { ...coercion, type: expandIri(result, coercion.type, true) }
+        : coercion);
+    });
+  });
+
+  return result;
+}
+
+// A plain value of `term` as the value object or node reference its definition makes it
+function expandScalar(value: unknown, context: ActiveContext, term: string): unknown {
+  const coercion = context.coercions.get(term) ?? {};
+
+  if (typeof value === 'string' && (coercion.type === '@id' || coercion.type === '@vocab')) {
+    return { '@id': expandIri(context, value, coercion.type === '@vocab') };
+  }
+  if (coercion.type && !coercion.type.startsWith('@') && value !== null) {
+    return { '@value': value, '@type': coercion.type };
+  }
+  const language = coercion.language !== undefined ? coercion.language : context.language;
+  if (typeof value === 'string' && language) {
+    return { '@value': value, '@language': language };
+  }
+  return value;
+}
+
+/**
+ * Expands a value against the active context. With `keepValues`, value objects
+ * are kept and plain values take the datatype, language or @id coercion of the
+ * term they belong to; without it, value objects are reduced to their plain value.
+ */
+function expandValue(value: unknown, context: ActiveContext, keepValues: boolean, term?: string): unknown {
+  if (Array.isArray(value)) {
+    return value.map(entry => expandValue(entry, context, keepValues, term));
+  }
+
+  if (!isJsonObject(value)) {
+    return keepValues && term !== undefined ? expandScalar(value, context, term) : value;
+  }
+
+  const activeContext = value['@context'] !== undefined ? processContext(context, value['@context']) : context;
+
+  if ('@value' in value) {
+    if (!keepValues) {
+      return value['@value'];
+    }
+    const valueObject: JsonObject = { '@value': value['@value'] };
+    if (typeof value['@type'] === 'string') {
+      valueObject['@type'] = expandIri(activeContext, value['@type'], true);
+    } else if (typeof value['@language'] === 'string') {
+      valueObject['@language'] = value['@language'];
+    }
+    return valueObject;
+  }
+  if ('@list' in value) {
+    return expandValue(value['@list'], activeContext, keepValues, term);
+  }
+  if ('@set' in value) {
+    return expandValue(value['@set'], activeContext, keepValues, term);
+  }
+
+  const expanded: JsonObject = {};
+
+  Object.entries(value).forEach(([key, entry]) => {
+    if (key === '@context') return;
+
+    const expandedKey = expandIri(activeContext, key, true);
+
+    if (expandedKey === '@id') {
+      expanded['@id'] = typeof entry === 'string' ? expandIri(activeContext, entry, false) : entry;
+    } else if (expandedKey === '@type') {
+      const types = Array.isArray(entry) ? entry : [entry];
+      expanded['@type'] = types
+        .filter((type): type is string => typeof type === 'string')
+        .map(type => expandIri(activeContext, type, true));
+    } else if (expandedKey.startsWith('@') && expandedKey !== '@graph') {
+      expanded[expandedKey] = entry;
+    } else {
+      expanded[expandedKey] = expandValue(entry, activeContext, keepValues, key);
+    }
+  });
+
+  return expanded;
+}
+
+function compactValue(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    const compacted = value.map(compactValue);
+    return compacted.length === 1 ? compacted[0] : compacted;
+  }
+
+  if (!isJsonObject(value)) {
+    return value;
+  }
+
+  const compacted: JsonObject = {};
+
+  Object.entries(value).forEach(([key, entry]) => {
+    if (key === '@type' && Array.isArray(entry)) {
+      const types = entry.map(type => compactSchemaOrgIri(type as string));
+      compacted['@type'] = types.length === 1 ? types[0] : types;
+    } else {
+      compacted[key.startsWith('@') ? key : compactSchemaOrgIri(key)] = compactValue(entry);
+    }
+  });
+
+  return compacted;
+}
+
+/**
+ * Expands a JSON-LD node against its @context and compacts it again with the
+ * bundled schema.org context, so that "Product", "schema:Product" and
+ * "http://schema.org/Product" all end up as "Product". Terms from other
+ * vocabularies are kept as full IRIs.
+ */
+export function canonicalizeJsonLd(data: unknown, baseUrl: string): JsonObject {
+  const expanded = expandValue(data, { base: baseUrl, terms: new Map(), coercions: new Map() }, false);
+  const compacted = compactValue(expanded);
+
+  return {
+    '@context': SCHEMA_ORG_CONTEXT,
+    ...(isJsonObject(compacted) ? compacted : {})
+  };
+}
+
+/**
+ * Expands a JSON-LD node to full IRIs, keeping what the canonical form drops:
+ * language tags and datatypes of value objects, and values the context
+ * declares to be IRIs (e.g. schema.org's url and sameAs) as {"@id": ...}.
+ */
+export function expandJsonLd(data: unknown, baseUrl: string): JsonObject {
+  const expanded = expandValue(data, { base: baseUrl, terms: new Map(), coercions: new Map() }, true);
+  return isJsonObject(expanded) ? expanded : {};
+}
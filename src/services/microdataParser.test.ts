@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { installDomGlobals } from '../cli/dom';
+import { parseMicrodata } from './microdataParser';
+
+const PAGE_URL = 'https://example.com/shop/product';
+
+function parse(body: string, head = '') {
+  const doc = new DOMParser().parseFromString(`<!DOCTYPE html><html><head>${head}</head><body>${body}</body></html>`, 'text/html');
+  return parseMicrodata(doc, PAGE_URL);
+}
+
+describe('parseMicrodata', () => {
+  beforeAll(installDomGlobals);
+
+  it('reads values from the attribute each element keeps them in', () => {
+    const [item] = parse(`
+      <div itemscope itemtype="https://schema.org/Product" itemid="#shoe">
+        <h1 itemprop="name"> Shoe </h1>
+        <meta itemprop="sku" content="S-1">
+        <a itemprop="url" href="shoe.html">Shoe</a>
+        <img itemprop="image" src="/img/shoe.png">
+        <data itemprop="gtin13" value="4006381333931">EAN</data>
+        <time itemprop="releaseDate" datetime="2024-05-01">May</time>
+      </div>`, '<base href="https://cdn.example/base/">');
+
+    expect(item).toEqual({
+      '@context': 'https://schema.org',
+      '@type': 'Product',
+      '@id': 'https://cdn.example/base/#shoe',
+      name: 'Shoe',
+      sku: 'S-1',
+      url: 'https://cdn.example/base/shoe.html',
+      image: 'https://cdn.example/img/shoe.png',
+      gtin13: '4006381333931',
+      releaseDate: '2024-05-01'
+    });
+  });
+
+  it('keeps nested items inside their parent and emits only top-level items', () => {
+    const items = parse(`
+      <div itemscope itemtype="https://schema.org/Product">
+        <span itemprop="name">Shoe</span>
+        <div itemprop="offers" itemscope itemtype="https://schema.org/Offer">
+          <meta itemprop="price" content="49.90">
+        </div>
+      </div>
+      <div itemscope itemtype="https://schema.org/Organization"><span itemprop="name">Shop</span></div>`);
+
+    expect(items).toEqual([
+      { '@context': 'https://schema.org', '@type': 'Product', name: 'Shoe', offers: { '@type': 'Offer', price: '49.90' } },
+      { '@context': 'https://schema.org', '@type': 'Organization', name: 'Shop' }
+    ]);
+  });
+
+  it('adds properties referenced through itemref in document order', () => {
+    const items = parse(`
+      <p id="brand"><span itemprop="brand">Acme</span></p>
+      <div itemscope itemtype="https://schema.org/Product" itemref="price brand missing">
+        <span itemprop="name">Shoe</span>
+      </div>
+      <div itemscope itemtype="https://schema.org/Product" itemref="brand">
+        <span itemprop="name">Hat</span>
+      </div>
+      <meta id="price" itemprop="sku" content="S-1">`);
+
+    expect(items).toEqual([
+      { '@context': 'https://schema.org', '@type': 'Product', brand: 'Acme', name: 'Shoe', sku: 'S-1' },
+      { '@context': 'https://schema.org', '@type': 'Product', brand: 'Acme', name: 'Hat' }
+    ]);
+  });
+
+  it('stops at itemref cycles instead of nesting items in themselves', () => {
+    const [item] = parse(`
+      <div itemscope itemtype="https://schema.org/Person" itemref="bob"><span itemprop="name">Ann</span></div>
+      <div id="bob" itemprop="knows" itemscope itemtype="https://schema.org/Person" itemref="cara">
+        <span itemprop="name">Bob</span>
+      </div>
+      <div id="cara" itemprop="knows" itemscope itemtype="https://schema.org/Person" itemref="bob">
+        <span itemprop="name">Cara</span>
+      </div>`);
+
+    expect(item).toEqual({
+      '@context': 'https://schema.org',
+      '@type': 'Person',
+      name: 'Ann',
+      knows: { '@type': 'Person', name: 'Bob', knows: { '@type': 'Person', name: 'Cara' } }
+    });
+  });
+
+  it('ignores an item that refers to itself', () => {
+    const [item] = parse(`
+      <div id="self" itemscope itemtype="https://schema.org/Thing" itemref="self"><span itemprop="name">Loop</span></div>`);
+    expect(item).toEqual({ '@context': 'https://schema.org', '@type': 'Thing', name: 'Loop' });
+  });
+
+  it('gives every name of a multi-name itemprop the value', () => {
+    const [item] = parse(`
+      <div itemscope itemtype="https://schema.org/Article"><span itemprop="name headline">Title</span></div>`);
+    expect(item).toMatchObject({ name: 'Title', headline: 'Title' });
+  });
+
+  it('compacts full schema.org property IRIs and keeps other vocabularies', () => {
+    const items = parse(`
+      <div itemscope itemtype="http://schema.org/Product">
+        <span itemprop="http://schema.org/name">Shoe</span>
+      </div>
+      <div itemscope itemtype="https://vocab.example/terms#Gadget">
+        <span itemprop="colour">red</span>
+      </div>
+      <div itemscope><span itemprop="note">untyped</span></div>`);
+
+    expect(items).toEqual([
+      { '@context': 'https://schema.org', '@type': 'Product', name: 'Shoe' },
+      { '@context': { '@vocab': 'https://vocab.example/terms#' }, '@type': 'https://vocab.example/terms#Gadget', colour: 'red' },
+      { note: 'untyped' }
+    ]);
+  });
+});
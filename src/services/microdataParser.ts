@@ -0,0 +1,185 @@
+import {
+  SCHEMA_ORG_CONTEXT,
+  JsonLdNode,
+  JsonLdValue,
+  isSchemaOrgIri,
+  compactSchemaOrgIri,
+  isAbsoluteIri,
+  appendValue
+} from './vocabulary';
+
+// Node.DOCUMENT_POSITION_FOLLOWING, spelled out because linkedom's Node doesn't define it
+const DOCUMENT_POSITION_FOLLOWING = 4;
+
+// Elements whose value is a URL taken from an attribute
+const URL_PROPERTY_ATTRIBUTES: Record<string, string> = {
+  A: 'href',
+  AREA: 'href',
+  LINK: 'href',
+  AUDIO: 'src',
+  EMBED: 'src',
+  IFRAME: 'src',
+  IMG: 'src',
+  SOURCE: 'src',
+  TRACK: 'src',
+  VIDEO: 'src',
+  OBJECT: 'data'
+};
+
+function splitTokens(value: string | null): string[] {
+  return Array.from(new Set((value || '').trim().split(/\s+/).filter(Boolean)));
+}
+
+function resolveUrl(value: string, baseUrl: string): string {
+  try {
+    return new URL(value, baseUrl).href;
+  } catch {
+    return value;
+  }
+}
+
+function getDocumentBase(doc: Document, pageUrl: string): string {
+  const baseHref = doc.querySelector('base[href]')?.getAttribute('href');
+  return baseHref ? resolveUrl(baseHref, pageUrl) : pageUrl;
+}
+
+/**
+ * Collects the properties of an item as defined by the WHATWG "crawl the
+ * properties" algorithm: descendants up to (but not into) nested itemscopes,
+ * plus elements referenced through itemref, returned in tree order.
+ */
+function crawlProperties(root: Element, doc: Document): Element[] {
+  const results: Element[] = [];
+  const memory = new Set<Element>([root]);
+  const pending: Element[] = Array.from(root.children);
+
+  splitTokens(root.getAttribute('itemref')).forEach(id => {
+    const referenced = doc.getElementById(id);
+    if (referenced) {
+      pending.push(referenced);
+    }
+  });
+
+  while (pending.length > 0) {
+    const current = pending.pop()!;
+    if (memory.has(current)) {
+      continue;
+    }
+    memory.add(current);
+
+    if (!current.hasAttribute('itemscope')) {
+      pending.push(...Array.from(current.children));
+    }
+
+    if (current.hasAttribute('itemprop') && splitTokens(current.getAttribute('itemprop')).length > 0) {
+      results.push(current);
+    }
+  }
+
+  return results.sort((a, b) =>
+    a.compareDocumentPosition(b) & DOCUMENT_POSITION_FOLLOWING ? -1 : 1
+  );
+}
+
+function getPropertyValue(element: Element, baseUrl: string): string {
+  if (element.tagName === 'META') {
+    return element.getAttribute('content') || '';
+  }
+
+  const urlAttribute = URL_PROPERTY_ATTRIBUTES[element.tagName];
+  if (urlAttribute) {
+    const value = element.getAttribute(urlAttribute);
+    return value ? resolveUrl(value, baseUrl) : '';
+  }
+
+  if (element.tagName === 'DATA' || element.tagName === 'METER') {
+    return element.getAttribute('value') || '';
+  }
+
+  if (element.tagName === 'TIME' && element.hasAttribute('datetime')) {
+    return element.getAttribute('datetime') || '';
+  }
+
+  return element.textContent?.trim() || '';
+}
+
+function getVocabulary(types: string[]): string | undefined {
+  if (types.length === 0) return undefined;
+  const type = types[0];
+  const hashIndex = type.lastIndexOf('#');
+  return hashIndex !== -1 ? type.substring(0, hashIndex + 1) : type.substring(0, type.lastIndexOf('/') + 1);
+}
+
+function compactName(name: string, usesSchemaOrg: boolean): string {
+  return usesSchemaOrg && isAbsoluteIri(name) && isSchemaOrgIri(name) ? compactSchemaOrgIri(name) : name;
+}
+
+function parseItem(
+  element: Element,
+  doc: Document,
+  baseUrl: string,
+  ancestors: Set<Element>
+): JsonLdNode {
+  const types = splitTokens(element.getAttribute('itemtype')).filter(isAbsoluteIri);
+  const usesSchemaOrg = types.length === 0 || types.every(isSchemaOrgIri);
+  const item: JsonLdNode = {};
+
+  if (types.length > 0) {
+    const compactTypes = types.map(type => compactName(type, usesSchemaOrg));
+    item['@type'] = compactTypes.length === 1 ? compactTypes[0] : compactTypes;
+  }
+
+  const itemid = element.getAttribute('itemid');
+  if (itemid && types.length > 0) {
+    item['@id'] = resolveUrl(itemid, baseUrl);
+  }
+
+  ancestors.add(element);
+
+  crawlProperties(element, doc).forEach(propElement => {
+    let value: JsonLdValue;
+
+    if (propElement.hasAttribute('itemscope')) {
+      // Guard against itemref cycles
+      if (ancestors.has(propElement)) {
+        return;
+      }
+      value = parseItem(propElement, doc, baseUrl, ancestors);
+    } else {
+      value = getPropertyValue(propElement, baseUrl);
+    }
+
+    splitTokens(propElement.getAttribute('itemprop')).forEach(name => {
+      appendValue(item, compactName(name, usesSchemaOrg), value);
+    });
+  });
+
+  ancestors.delete(element);
+
+  return item;
+}
+
+/**
+ * Extracts top-level Microdata items from a document. Nested items are kept
+ * inside their parent, and the result uses the same shape as JSON-LD so both
+ * formats can be grouped and compared the same way.
+ */
+export function parseMicrodata(doc: Document, pageUrl: string): JsonLdNode[] {
+  const baseUrl = getDocumentBase(doc, pageUrl);
+
+  return Array.from(doc.querySelectorAll('[itemscope]:not([itemprop])')).map(element => {
+    const item = parseItem(element, doc, baseUrl, new Set());
+    const types = splitTokens(element.getAttribute('itemtype')).filter(isAbsoluteIri);
+
+    if (types.length === 0) {
+      return item;
+    }
+
+    if (types.every(isSchemaOrgIri)) {
+      return { '@context': SCHEMA_ORG_CONTEXT, ...item };
+    }
+
+    const vocab = getVocabulary(types);
+    return vocab ? { '@context': { '@vocab': vocab }, ...item } : item;
+  });
+}
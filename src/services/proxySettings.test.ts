@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_PROXY_SETTINGS, getActiveProxies } from './proxySettings';
+
+describe('getActiveProxies', () => {
+  it('uses no public proxy unless they are allowed', () => {
+    expect(getActiveProxies(DEFAULT_PROXY_SETTINGS).map(proxy => proxy.id)).toEqual(['local-php']);
+    expect(getActiveProxies({ ...DEFAULT_PROXY_SETTINGS, allowPublicProxies: true }).map(proxy => proxy.id))
+      .toEqual(['local-php', 'allorigins', 'corsproxy']);
+  });
+
+  it('skips disabled proxies and templates without {url}', () => {
+    const proxies = [
+      { ...DEFAULT_PROXY_SETTINGS.proxies[0], id: 'off', enabled: false },
+      { ...DEFAULT_PROXY_SETTINGS.proxies[0], id: 'broken', template: 'https://proxy.example/' },
+      { ...DEFAULT_PROXY_SETTINGS.proxies[0], id: 'own' }
+    ];
+    expect(getActiveProxies({ proxies, allowPublicProxies: false }).map(proxy => proxy.id)).toEqual(['own']);
+  });
+});
@@ -0,0 +1,153 @@
+import {
+  Fetcher,
+  LOCAL_PHP_PROXY,
+  PROXY_URL_PLACEHOLDER,
+  createCorsFallbackFetcher,
+  createDirectFetcher,
+  createJsonProxyFetcher,
+  createPhpProxyFetcher,
+  createProxyTemplateFetcher
+} from './fetcher';
+
+// How a proxy hands back the site's response
+export type ProxyFormat = 'raw' | 'json' | 'php';
+
+export interface ProxyConfig {
+  id: string;
+  name: string;
+  // Proxy URL with {url} where the encoded page URL goes
+  template: string;
+  format: ProxyFormat;
+  enabled: boolean;
+  // Run by a third party, so every page sent through it leaves your hands
+  public: boolean;
+}
+
+export interface ProxySettings {
+  // Tried in order once a site blocks cross-origin requests
+  proxies: ProxyConfig[];
+  // When off, public proxies are skipped whether or not they are enabled. Off
+  // unless switched on, so pages never reach a third party by default.
+  allowPublicProxies: boolean;
+}
+
+export interface ProxyTestResult {
+  ok: boolean;
+  status?: number;
+  bytes?: number;
+  time: number;
+  error?: string;
+}
+
+export const PROXY_FORMATS: { value: ProxyFormat; label: string }[] = [
+  { value: 'raw', label: 'Raw response' },
+  { value: 'json', label: 'JSON ({contents})' },
+  { value: 'php', label: 'PHP proxy (proxy.php)' }
+];
+
+export const DEFAULT_PROXY_SETTINGS: ProxySettings = {
+  allowPublicProxies: false,
+  proxies: [
+    {
+      id: 'local-php',
+      name: 'Local PHP proxy',
+      template: `${LOCAL_PHP_PROXY}?csurl=${PROXY_URL_PLACEHOLDER}`,
+      format: 'php',
+      enabled: true,
+      public: false
+    },
+    {
+      id: 'allorigins',
+      name: 'allorigins',
+      template: `https://api.allorigins.win/get?url=${PROXY_URL_PLACEHOLDER}`,
+      format: 'json',
+      enabled: true,
+      public: true
+    },
+    {
+      id: 'corsproxy',
+      name: 'corsproxy.io',
+      template: `https://corsproxy.io/?url=${PROXY_URL_PLACEHOLDER}`,
+      format: 'raw',
+      enabled: true,
+      public: true
+    }
+  ]
+};
+
+const STORAGE_KEY = 'structured-data-crawler:proxy-settings';
+
+function isProxyConfig(value: unknown): value is ProxyConfig {
+  const proxy = value as ProxyConfig;
+  return !!proxy && typeof proxy === 'object' &&
+    typeof proxy.id === 'string' &&
+    typeof proxy.name === 'string' &&
+    typeof proxy.template === 'string' &&
+    PROXY_FORMATS.some(format => format.value === proxy.format) &&
+    typeof proxy.enabled === 'boolean' &&
+    typeof proxy.public === 'boolean';
+}
+
+// Falls back to the defaults when nothing was saved yet, or the saved settings can't be read
+export function loadProxySettings(): ProxySettings {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (saved && Array.isArray(saved.proxies) && saved.proxies.every(isProxyConfig)) {
+      return { proxies: saved.proxies, allowPublicProxies: saved.allowPublicProxies === true };
+    }
+  } catch (err) {
+    console.warn('Could not read proxy settings:', err);
+  }
+  return DEFAULT_PROXY_SETTINGS;
+}
+
+export function saveProxySettings(settings: ProxySettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+export function getProxyTemplateError(template: string): string | null {
+  if (!template.includes(PROXY_URL_PLACEHOLDER)) {
+    return `Must contain ${PROXY_URL_PLACEHOLDER}`;
+  }
+  try {
+    // Relative templates such as /proxy.php are resolved against the app
+    new URL(template.split(PROXY_URL_PLACEHOLDER).join(''), globalThis.location?.href);
+  } catch {
+    return 'Not a valid URL';
+  }
+  return null;
+}
+
+export function createProxyFetcher(proxy: ProxyConfig): Fetcher {
+  switch (proxy.format) {
+    case 'php': return createPhpProxyFetcher(proxy.template, proxy.name);
+    case 'json': return createJsonProxyFetcher(proxy.template, proxy.name);
+    default: return createProxyTemplateFetcher(proxy.template, proxy.name);
+  }
+}
+
+export function getActiveProxies(settings: ProxySettings): ProxyConfig[] {
+  return settings.proxies.filter(proxy =>
+    proxy.enabled &&
+    (settings.allowPublicProxies || !proxy.public) &&
+    getProxyTemplateError(proxy.template) === null
+  );
+}
+
+// Direct, then the active proxies in order for sites that block cross-origin requests
+export function createSettingsFetcher(settings: ProxySettings): Fetcher {
+  return createCorsFallbackFetcher(createDirectFetcher(), getActiveProxies(settings).map(createProxyFetcher));
+}
+
+// Fetches one page through the proxy alone, without falling back to anything else
+export async function testProxy(proxy: ProxyConfig, url: string): Promise<ProxyTestResult> {
+  const startTime = Date.now();
+  try {
+    const response = await createProxyFetcher(proxy).fetch(url, { timeout: 10000 });
+    return response.kind === 'redirect'
+      ? { ok: true, status: response.status, time: Date.now() - startTime }
+      : { ok: true, status: response.status, bytes: response.body.byteLength, time: Date.now() - startTime };
+  } catch (err) {
+    return { ok: false, time: Date.now() - startTime, error: (err as Error).message };
+  }
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { installDomGlobals } from '../cli/dom';
+import { extractStructuredData } from './structuredDataExtractor';
+import { serializeNQuads, serializeTurtle } from './rdfExport';
+
+const PAGE_URL = 'https://example.com/events/1';
+
+const RDFA_EVENT = `<!DOCTYPE html>
+<html><body>
+  <div vocab="https://schema.org/" typeof="Event">
+    <span property="name">Launch party</span>
+    <time property="startDate" datatype="xsd:date" datetime="2024-05-01">1 May</time>
+  </div>
+</body></html>`;
+
+describe('serializeNQuads', () => {
+  beforeAll(installDomGlobals);
+
+  it('writes typed RDFa literals as literals with their datatype', () => {
+    const items = extractStructuredData(RDFA_EVENT, PAGE_URL).filter(item => item.format === 'RDFa');
+    expect(items).toHaveLength(1);
+
+    const nquads = serializeNQuads(items);
+    expect(nquads).toMatch(
+      /<http:\/\/schema\.org\/startDate> "2024-05-01"\^\^<http:\/\/www\.w3\.org\/2001\/XMLSchema#date> <https:\/\/example\.com\/events\/1> \.$/m
+    );
+    expect(nquads).not.toContain('<http://www.w3.org/1999/02/22-rdf-syntax-ns#type> <http://www.w3.org/2001/XMLSchema#date>');
+    expect(nquads).toContain('<http://schema.org/name> "Launch party"');
+  });
+
+  it('keeps language tags, datatypes and IRI values of JSON-LD', () => {
+    const html = `<!DOCTYPE html><html><head><script type="application/ld+json">${JSON.stringify({
+      '@context': 'https://schema.org',
+      '@type': 'Organization',
+      '@id': '#org',
+      name: { '@value': 'Boulangerie', '@language': 'fr' },
+      foundingDate: { '@value': '1998-04-01', '@type': 'xsd:date' },
+      url: '/',
+      sameAs: ['https://social.example/boulangerie'],
+      logo: '/logo.png'
+    })}</script></head><body></body></html>`;
+    const items = extractStructuredData(html, PAGE_URL).filter(item => item.format === 'JSON-LD');
+    expect(items).toHaveLength(1);
+
+    const subject = '<https://example.com/events/1#org>';
+    const nquads = serializeNQuads(items);
+    expect(nquads).toContain(`${subject} <http://schema.org/name> "Boulangerie"@fr`);
+    expect(nquads).toContain(`${subject} <http://schema.org/foundingDate> "1998-04-01"^^<http://www.w3.org/2001/XMLSchema#date>`);
+    expect(nquads).toContain(`${subject} <http://schema.org/url> <https://example.com/>`);
+    expect(nquads).toContain(`${subject} <http://schema.org/sameAs> <https://social.example/boulangerie>`);
+    expect(nquads).toContain(`${subject} <http://schema.org/logo> <https://example.com/logo.png>`);
+    expect(nquads).toContain(`${subject} <http://www.w3.org/1999/02/22-rdf-syntax-ns#type> <http://schema.org/Organization>`);
+  });
+});
+
+describe('serializeTurtle', () => {
+  beforeAll(installDomGlobals);
+
+  it('writes typed RDFa literals with the xsd prefix', () => {
+    const items = extractStructuredData(RDFA_EVENT, PAGE_URL).filter(item => item.format === 'RDFa');
+    expect(serializeTurtle(items)).toContain('"2024-05-01"^^xsd:date');
+  });
+});
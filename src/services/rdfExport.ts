@@ -0,0 +1,260 @@
+import { zipSync, strToU8 } from 'fflate';
+import { StructuredDataItem } from '../types/crawler';
+import { generateDataHash } from './structuredDataExtractor';
+import { SCHEMA_ORG_CONTEXT, isAbsoluteIri } from './vocabulary';
+import { expandJsonLd } from './jsonLdProcessor';
+import { getUniqueFileName } from '../utils/download';
+
+export type RdfTerm =
+  | { termType: 'NamedNode'; value: string }
+  | { termType: 'BlankNode'; value: string }
+  | { termType: 'Literal'; value: string; datatype?: string; language?: string };
+
+export interface Quad {
+  subject: RdfTerm;
+  predicate: RdfTerm;
+  object: RdfTerm;
+  // The page the markup was found on
+  graph: string;
+}
+
+const SCHEMA_ORG_VOCAB = 'http://schema.org/';
+const OPEN_GRAPH_VOCAB = 'http://ogp.me/ns#';
+const RDF_TYPE = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type';
+const XSD = 'http://www.w3.org/2001/XMLSchema#';
+
+const TURTLE_PREFIXES: Array<[string, string]> = [
+  ['schema', SCHEMA_ORG_VOCAB],
+  ['og', OPEN_GRAPH_VOCAB],
+  ['xsd', XSD]
+];
+
+const namedNode = (value: string): RdfTerm => ({ termType: 'NamedNode', value });
+
+function resolveIri(value: string, baseUrl: string): string {
+  try {
+    return new URL(value, baseUrl).href;
+  } catch {
+    return value;
+  }
+}
+
+// The vocabulary that relative property names and types of an item belong to
+function getVocabulary(data: Record<string, unknown>): string | undefined {
+  const context = data['@context'];
+  if (context === SCHEMA_ORG_CONTEXT) return SCHEMA_ORG_VOCAB;
+  if (context && typeof context === 'object' && typeof (context as Record<string, unknown>)['@vocab'] === 'string') {
+    return (context as Record<string, string>)['@vocab'];
+  }
+  return undefined;
+}
+
+/**
+ * Converts one item to quads in the graph of its page. Blank node labels are
+ * derived from the page, the item hash and the position in the item, so the
+ * same crawl always produces the same labels and no two items share one.
+ */
+export function itemToQuads(item: StructuredDataItem): Quad[] {
+  const quads: Quad[] = [];
+  const graph = item.url;
+  const labelPrefix = `b${item.hash}${generateDataHash(item.url)}`;
+  let blankNodeCount = 0;
+  const namedBlankNodes = new Map<string, string>();
+
+  const blankNode = (id?: string): RdfTerm => {
+    if (id && namedBlankNodes.has(id)) {
+      return { termType: 'BlankNode', value: namedBlankNodes.get(id)! };
+    }
+    const label = `${labelPrefix}_${blankNodeCount++}`;
+    if (id) namedBlankNodes.set(id, label);
+    return { termType: 'BlankNode', value: label };
+  };
+
+  if (item.format === 'OpenGraph') {
+    // OpenGraph describes the page itself
+    Object.entries(item.data as Record<string, string>).forEach(([key, value]) => {
+      quads.push({
+        subject: namedNode(item.url),
+        predicate: namedNode(OPEN_GRAPH_VOCAB + key),
+        object: { termType: 'Literal', value: String(value) },
+        graph
+      });
+    });
+    return quads;
+  }
+
+  // The canonical form of JSON-LD has lost language tags, datatypes and which values are
+  // IRIs, so the markup as published is expanded instead; its terms are all full IRIs then
+  const expanded = item.format === 'JSON-LD' && item.raw && typeof item.raw === 'object'
+    ? expandJsonLd(item.raw, item.url)
+    : undefined;
+  const data = expanded ?? item.data;
+
+  // Without a known vocabulary only properties and types that are full IRIs are kept
+  const vocab = !expanded && item.data && typeof item.data === 'object' ? getVocabulary(item.data) : undefined;
+  const toIri = (term: string): string | undefined => {
+    if (isAbsoluteIri(term)) return term;
+    return vocab ? vocab + term : undefined;
+  };
+
+  const subjectOf = (node: Record<string, unknown>): RdfTerm => {
+    const id = node['@id'];
+    if (typeof id !== 'string' || !id) return blankNode();
+    if (id.startsWith('_:')) return blankNode(id);
+    return namedNode(resolveIri(id, item.url));
+  };
+
+  const objectOf = (value: unknown): RdfTerm | undefined => {
+    if (value === null || value === undefined) return undefined;
+    if (typeof value === 'object' && '@value' in value) {
+      // Typed or language-tagged literal such as RDFa's { '@value': '2024-05-01', '@type': xsd:date }
+      const { '@value': literal, '@type': type, '@language': language } = value as Record<string, unknown>;
+      if (literal === null || literal === undefined) return undefined;
+      const datatype = typeof type !== 'string' ? undefined : type.startsWith('xsd:') ? XSD + type.slice(4) : toIri(type);
+      return {
+        termType: 'Literal',
+        value: String(literal),
+        ...(datatype ? { datatype } : typeof language === 'string' ? { language } : {})
+      };
+    }
+    if (typeof value === 'object') {
+      return visitNode(value as Record<string, unknown>);
+    }
+    if (typeof value === 'number') {
+      return { termType: 'Literal', value: String(value), datatype: XSD + (Number.isInteger(value) ? 'integer' : 'double') };
+    }
+    if (typeof value === 'boolean') {
+      return { termType: 'Literal', value: String(value), datatype: `${XSD}boolean` };
+    }
+    return { termType: 'Literal', value: String(value) };
+  };
+
+  function visitNode(node: Record<string, unknown>): RdfTerm {
+    const subject = subjectOf(node);
+
+    Object.entries(node).forEach(([key, value]) => {
+      if (key === '@type') {
+        (Array.isArray(value) ? value : [value]).forEach(type => {
+          const iri = typeof type === 'string' ? toIri(type) : undefined;
+          if (iri) {
+            quads.push({ subject, predicate: namedNode(RDF_TYPE), object: namedNode(iri), graph });
+          }
+        });
+        return;
+      }
+      if (key.startsWith('@')) return;
+
+      const predicate = toIri(key);
+      if (!predicate) return;
+
+      (Array.isArray(value) ? value : [value]).forEach(entry => {
+        const object = objectOf(entry);
+        if (object) {
+          quads.push({ subject, predicate: namedNode(predicate), object, graph });
+        }
+      });
+    });
+
+    return subject;
+  }
+
+  if (data && typeof data === 'object') {
+    visitNode(data);
+  }
+  return quads;
+}
+
+// Twitter Cards have no RDF vocabulary and are left out
+export function itemsToQuads(items: StructuredDataItem[]): Quad[] {
+  return items
+    .filter(item => item.format !== 'Twitter Cards')
+    .flatMap(itemToQuads);
+}
+
+function escapeLiteral(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r');
+}
+
+// Characters that may not appear in an IRIREF are percent-encoded
+function escapeIri(value: string): string {
+  return value.replace(/[^!-~\u00A0-\uFFFF]|[<>"{}|^`\\]/g, char => encodeURIComponent(char));
+}
+
+function formatTerm(term: RdfTerm): string {
+  switch (term.termType) {
+    case 'NamedNode':
+      return `<${escapeIri(term.value)}>`;
+    case 'BlankNode':
+      return `_:${term.value}`;
+    case 'Literal':
+      return `"${escapeLiteral(term.value)}"${term.datatype ? `^^<${term.datatype}>` : term.language ? `@${term.language}` : ''}`;
+  }
+}
+
+// N-Quads with the page URL as graph name; identical statements are written once
+export function serializeNQuads(items: StructuredDataItem[]): string {
+  const lines = new Set<string>();
+  itemsToQuads(items).forEach(quad => {
+    lines.add(`${formatTerm(quad.subject)} ${formatTerm(quad.predicate)} ${formatTerm(quad.object)} <${escapeIri(quad.graph)}> .`);
+  });
+  return Array.from(lines).join('\n') + (lines.size > 0 ? '\n' : '');
+}
+
+function formatTurtleTerm(term: RdfTerm): string {
+  if (term.termType === 'NamedNode') {
+    const prefix = TURTLE_PREFIXES.find(([, namespace]) => term.value.startsWith(namespace));
+    const local = prefix ? term.value.substring(prefix[1].length) : '';
+    if (prefix && /^[A-Za-z_][\w-]*$/.test(local)) {
+      return `${prefix[0]}:${local}`;
+    }
+  }
+  if (term.termType === 'Literal' && term.datatype?.startsWith(XSD)) {
+    return `"${escapeLiteral(term.value)}"^^xsd:${term.datatype.substring(XSD.length)}`;
+  }
+  return formatTerm(term);
+}
+
+// Turtle for the items of one page, statements grouped by subject
+export function serializeTurtle(items: StructuredDataItem[]): string {
+  const bySubject = new Map<string, { subject: RdfTerm; statements: Set<string> }>();
+  itemsToQuads(items).forEach(quad => {
+    const key = formatTerm(quad.subject);
+    if (!bySubject.has(key)) {
+      bySubject.set(key, { subject: quad.subject, statements: new Set() });
+    }
+    const predicate = quad.predicate.value === RDF_TYPE ? 'a' : formatTurtleTerm(quad.predicate);
+    bySubject.get(key)!.statements.add(`${predicate} ${formatTurtleTerm(quad.object)}`);
+  });
+
+  const lines = TURTLE_PREFIXES.map(([prefix, namespace]) => `@prefix ${prefix}: <${namespace}> .`);
+  bySubject.forEach(({ subject, statements }) => {
+    lines.push('', `${formatTurtleTerm(subject)} ${Array.from(statements).join(' ;\n    ')} .`);
+  });
+  return lines.join('\n') + '\n';
+}
+
+export function groupItemsByPage(items: StructuredDataItem[]): Map<string, StructuredDataItem[]> {
+  const pages = new Map<string, StructuredDataItem[]>();
+  items.forEach(item => {
+    if (!pages.has(item.url)) {
+      pages.set(item.url, []);
+    }
+    pages.get(item.url)!.push(item);
+  });
+  return pages;
+}
+
+// One Turtle file per page, named after the page URL
+export function createTurtleZip(items: StructuredDataItem[]): Uint8Array {
+  const used = new Set<string>();
+  const files: Record<string, Uint8Array> = {};
+  groupItemsByPage(items).forEach((pageItems, url) => {
+    const name = url.replace(/^https?:\/\//, '');
+    files[getUniqueFileName(name, 'ttl', used)] = strToU8(`# ${url}\n${serializeTurtle(pageItems)}`);
+  });
+  return zipSync(files);
+}
@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { installDomGlobals } from '../cli/dom';
+import { parseRdfa } from './rdfaParser';
+
+const PAGE_URL = 'https://example.com/shop/product';
+
+function parse(body: string, head = '') {
+  const doc = new DOMParser().parseFromString(`<!DOCTYPE html><html><head>${head}</head><body>${body}</body></html>`, 'text/html');
+  return parseRdfa(doc, PAGE_URL);
+}
+
+describe('parseRdfa', () => {
+  beforeAll(installDomGlobals);
+
+  it('expands terms against the vocab in scope and compacts schema.org', () => {
+    expect(parse(`
+      <div vocab="https://schema.org/" typeof="Product">
+        <span property="name">Shoe</span>
+        <meta property="sku" content="S-1">
+      </div>`)).toEqual([
+      { '@context': 'https://schema.org', '@type': 'Product', name: 'Shoe', sku: 'S-1' }
+    ]);
+  });
+
+  it('drops terms without a vocab and reads CURIEs with unknown prefixes as IRIs', () => {
+    expect(parse(`
+      <div typeof="schema:Product">
+        <span property="name">dropped</span>
+        <span property="urn:colour">red</span>
+        <span property="schema:name">Shoe</span>
+      </div>`)).toEqual([
+      { '@context': 'https://schema.org', '@type': 'Product', 'urn:colour': 'red', name: 'Shoe' }
+    ]);
+  });
+
+  it('reads prefixes declared on the element and its ancestors', () => {
+    expect(parse(`
+      <div prefix="ex: https://vocab.example/ S: https://schema.org/">
+        <div typeof="ex:Gadget" prefix="more: https://more.example/">
+          <span property="ex:colour">red</span>
+          <span property="more:size">L</span>
+          <span property="s:name">Widget</span>
+        </div>
+      </div>`)).toEqual([
+      {
+        '@type': 'https://vocab.example/Gadget',
+        'https://vocab.example/colour': 'red',
+        'https://more.example/size': 'L',
+        name: 'Widget'
+      }
+    ].map(node => ({ '@context': 'https://schema.org', ...node })));
+  });
+
+  it('lets an inner vocab replace the outer one', () => {
+    const [item] = parse(`
+      <div vocab="https://schema.org/" typeof="Event">
+        <span property="name">Launch</span>
+        <div vocab="https://vocab.example/"><span property="mood">festive</span></div>
+      </div>`);
+
+    expect(item).toEqual({
+      '@context': 'https://schema.org',
+      '@type': 'Event',
+      name: 'Launch',
+      'https://vocab.example/mood': 'festive'
+    });
+  });
+
+  it('nests typed resources under the property that holds them', () => {
+    expect(parse(`
+      <div vocab="https://schema.org/" typeof="Product" resource="#shoe">
+        <span property="name">Shoe</span>
+        <div property="offers" typeof="Offer">
+          <span property="price" content="49.90">€49.90</span>
+          <link property="availability" href="https://schema.org/InStock">
+        </div>
+        <div property="review" typeof="Review"><span property="reviewBody">Great</span></div>
+        <div property="review" typeof="Review"><span property="reviewBody">Fine</span></div>
+      </div>
+      <div vocab="https://schema.org/" typeof="Organization"><span property="name">Shop</span></div>`)).toEqual([
+      {
+        '@context': 'https://schema.org',
+        '@type': 'Product',
+        '@id': 'https://example.com/shop/product#shoe',
+        name: 'Shoe',
+        offers: { '@type': 'Offer', price: '49.90', availability: { '@id': 'https://schema.org/InStock' } },
+        review: [
+          { '@type': 'Review', reviewBody: 'Great' },
+          { '@type': 'Review', reviewBody: 'Fine' }
+        ]
+      },
+      { '@context': 'https://schema.org', '@type': 'Organization', name: 'Shop' }
+    ]);
+  });
+
+  it('keeps datatypes and links resources through rel only inside a typed scope', () => {
+    const [item] = parse(`
+      <link rel="stylesheet" href="/site.css">
+      <div vocab="https://schema.org/" typeof="Event">
+        <time property="startDate" datatype="xsd:date" datetime="2024-05-01">1 May</time>
+        <a rel="url" href="/events/launch">Details</a>
+      </div>`, '<base href="https://cdn.example/">');
+
+    expect(item).toEqual({
+      '@context': 'https://schema.org',
+      '@type': 'Event',
+      startDate: { '@value': '2024-05-01', '@type': 'http://www.w3.org/2001/XMLSchema#date' },
+      url: { '@id': 'https://cdn.example/events/launch' }
+    });
+  });
+
+  it('ignores properties outside any typed resource', () => {
+    expect(parse('<p vocab="https://schema.org/"><span property="name">Orphan</span></p>')).toEqual([]);
+  });
+});
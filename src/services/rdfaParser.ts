@@ -0,0 +1,215 @@
+import {
+  SCHEMA_ORG_CONTEXT,
+  JsonLdNode,
+  JsonLdValue,
+  isSchemaOrgIri,
+  compactSchemaOrgIri,
+  isAbsoluteIri,
+  appendValue
+} from './vocabulary';
+
+// Prefixes from the RDFa 1.1 initial context that show up on real sites
+const INITIAL_PREFIXES: Record<string, string> = {
+  schema: 'http://schema.org/',
+  og: 'http://ogp.me/ns#',
+  dc: 'http://purl.org/dc/terms/',
+  dcterms: 'http://purl.org/dc/terms/',
+  foaf: 'http://xmlns.com/foaf/0.1/',
+  rdf: 'http://www.w3.org/1999/02/22-rdf-syntax-ns#',
+  rdfs: 'http://www.w3.org/2000/01/rdf-schema#',
+  xsd: 'http://www.w3.org/2001/XMLSchema#',
+  owl: 'http://www.w3.org/2002/07/owl#',
+  skos: 'http://www.w3.org/2004/02/skos/core#',
+  sioc: 'http://rdfs.org/sioc/ns#',
+  gr: 'http://purl.org/goodrelations/v1#',
+  v: 'http://rdf.data-vocabulary.org/#'
+};
+
+interface RdfaContext {
+  vocab?: string;
+  prefixes: Record<string, string>;
+  subject: JsonLdNode | null;
+}
+
+function resolveUrl(value: string, baseUrl: string): string {
+  try {
+    return new URL(value, baseUrl).href;
+  } catch {
+    return value;
+  }
+}
+
+function parsePrefixes(value: string): Record<string, string> {
+  const prefixes: Record<string, string> = {};
+  const prefixRegex = /([A-Za-z_][\w.-]*):\s+(\S+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = prefixRegex.exec(value)) !== null) {
+    prefixes[match[1].toLowerCase()] = match[2];
+  }
+
+  return prefixes;
+}
+
+/**
+ * Expands a whitespace-separated list of terms, CURIEs and IRIs to full IRIs.
+ * Terms need a vocabulary in scope and are dropped otherwise. CURIEs with an
+ * unknown prefix are taken as absolute IRIs, as RDFa 1.1 does.
+ */
+function expandTerms(value: string | null, context: RdfaContext): string[] {
+  const tokens = (value || '').trim().split(/\s+/).filter(Boolean);
+  const expanded: string[] = [];
+
+  tokens.forEach(token => {
+    const colonIndex = token.indexOf(':');
+
+    if (colonIndex === -1) {
+      if (context.vocab) {
+        expanded.push(context.vocab + token);
+      }
+      return;
+    }
+
+    const prefix = token.substring(0, colonIndex).toLowerCase();
+    if (prefix === '_') {
+      expanded.push(token);
+    } else if (context.prefixes[prefix] !== undefined) {
+      expanded.push(context.prefixes[prefix] + token.substring(colonIndex + 1));
+    } else if (isAbsoluteIri(token)) {
+      expanded.push(token);
+    }
+  });
+
+  return Array.from(new Set(expanded));
+}
+
+function getResourceAttribute(element: Element, baseUrl: string): string | undefined {
+  for (const attribute of ['resource', 'href', 'src']) {
+    const value = element.getAttribute(attribute);
+    if (value !== null) {
+      return value.startsWith('_:') ? value : resolveUrl(value, baseUrl);
+    }
+  }
+  return undefined;
+}
+
+function getPropertyValue(element: Element, context: RdfaContext, baseUrl: string): JsonLdValue {
+  const datatype = expandTerms(element.getAttribute('datatype'), context)[0];
+  let literal: string;
+
+  if (element.hasAttribute('content')) {
+    literal = element.getAttribute('content') || '';
+  } else {
+    const resource = getResourceAttribute(element, baseUrl);
+    if (resource !== undefined && !datatype) {
+      return { '@id': resource };
+    }
+    literal = element.tagName === 'TIME' && element.hasAttribute('datetime')
+      ? element.getAttribute('datetime') || ''
+      : element.textContent?.trim() || '';
+  }
+
+  return datatype ? { '@value': literal, '@type': datatype } : literal;
+}
+
+function processElement(
+  element: Element,
+  parentContext: RdfaContext,
+  topLevel: JsonLdNode[],
+  baseUrl: string
+) {
+  const context: RdfaContext = { ...parentContext };
+
+  if (element.hasAttribute('vocab')) {
+    context.vocab = element.getAttribute('vocab') || undefined;
+  }
+  if (element.hasAttribute('prefix')) {
+    context.prefixes = { ...context.prefixes, ...parsePrefixes(element.getAttribute('prefix') || '') };
+  }
+
+  const properties = expandTerms(element.getAttribute('property'), context);
+  // rel only links resources, and only inside a typed scope so that plain
+  // HTML links like rel="stylesheet" are not picked up
+  const rels = parentContext.subject && getResourceAttribute(element, baseUrl) !== undefined
+    ? expandTerms(element.getAttribute('rel'), context)
+    : [];
+
+  if (element.hasAttribute('typeof')) {
+    const node: JsonLdNode = {};
+    const types = expandTerms(element.getAttribute('typeof'), context);
+    const id = getResourceAttribute(element, baseUrl);
+
+    if (types.length > 0) {
+      node['@type'] = types.length === 1 ? types[0] : types;
+    }
+    if (id !== undefined) {
+      node['@id'] = id;
+    }
+
+    if (parentContext.subject && properties.length + rels.length > 0) {
+      [...properties, ...rels].forEach(property => appendValue(parentContext.subject!, property, node));
+    } else {
+      topLevel.push(node);
+    }
+
+    context.subject = node;
+  } else if (parentContext.subject) {
+    if (properties.length > 0) {
+      const value = getPropertyValue(element, context, baseUrl);
+      properties.forEach(property => appendValue(parentContext.subject!, property, value));
+    }
+    if (rels.length > 0) {
+      const resource = { '@id': getResourceAttribute(element, baseUrl)! };
+      rels.forEach(rel => appendValue(parentContext.subject!, rel, resource));
+    }
+  }
+
+  Array.from(element.children).forEach(child => processElement(child, context, topLevel, baseUrl));
+}
+
+function usesSchemaOrg(node: JsonLdNode): boolean {
+  return Object.entries(node).some(([key, value]) => {
+    if (isSchemaOrgIri(key)) return true;
+    const values = Array.isArray(value) ? value : [value];
+    return values.some(v =>
+      typeof v === 'string' ? key === '@type' && isSchemaOrgIri(v) : usesSchemaOrg(v)
+    );
+  });
+}
+
+// Shortens schema.org IRIs to plain terms, everything else stays a full IRI
+function compactNode(node: JsonLdNode): JsonLdNode {
+  const compacted: JsonLdNode = {};
+
+  Object.entries(node).forEach(([key, value]) => {
+    const compactKey = key.startsWith('@') ? key : compactSchemaOrgIri(key);
+    const compactValue = (v: JsonLdValue): JsonLdValue => {
+      if (typeof v !== 'string') return compactNode(v);
+      return key === '@type' ? compactSchemaOrgIri(v) : v;
+    };
+
+    compacted[compactKey] = Array.isArray(value) ? value.map(compactValue) : compactValue(value);
+  });
+
+  return compacted;
+}
+
+/**
+ * Runs an RDFa 1.1 Lite processor over the document (vocab, prefix, typeof,
+ * property, resource, plus rel/href/src links). Every top-level typed resource
+ * becomes one node in the same shape as JSON-LD, with child resources nested
+ * and repeated properties collected into arrays.
+ */
+export function parseRdfa(doc: Document, pageUrl: string): JsonLdNode[] {
+  const baseHref = doc.querySelector('base[href]')?.getAttribute('href');
+  const baseUrl = baseHref ? resolveUrl(baseHref, pageUrl) : pageUrl;
+  const topLevel: JsonLdNode[] = [];
+
+  if (doc.documentElement) {
+    processElement(doc.documentElement, { prefixes: INITIAL_PREFIXES, subject: null }, topLevel, baseUrl);
+  }
+
+  return topLevel.map(node =>
+    usesSchemaOrg(node) ? { '@context': SCHEMA_ORG_CONTEXT, ...compactNode(node) } : compactNode(node)
+  );
+}
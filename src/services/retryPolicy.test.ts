@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_RETRY_POLICY,
+  getBackoffDelay,
+  isOverloadStatus,
+  isRetryableStatus,
+  parseRetryAfter
+} from './retryPolicy';
+
+describe('parseRetryAfter', () => {
+  const now = Date.parse('2024-05-01T12:00:00Z');
+
+  it('reads a number of seconds', () => {
+    expect(parseRetryAfter('120', now)).toBe(120000);
+    expect(parseRetryAfter(' 0 ', now)).toBe(0);
+  });
+
+  it('reads an HTTP date as the time left until then', () => {
+    expect(parseRetryAfter('Wed, 01 May 2024 12:00:30 GMT', now)).toBe(30000);
+  });
+
+  it('does not wait for a date in the past', () => {
+    expect(parseRetryAfter('Wed, 01 May 2024 11:00:00 GMT', now)).toBe(0);
+  });
+
+  it.each([null, undefined, '', 'soon', '-5', '1.5'])('ignores %j', value => {
+    expect(parseRetryAfter(value, now)).toBeUndefined();
+  });
+});
+
+describe('getBackoffDelay', () => {
+  const policy = { maxRetries: 5, baseDelay: 1000, maxDelay: 5000 };
+
+  it('doubles the delay for every retry, between half and all of it', () => {
+    expect([0, 1, 2].map(attempt => getBackoffDelay(attempt, policy, () => 0))).toEqual([500, 1000, 2000]);
+    expect([0, 1, 2].map(attempt => getBackoffDelay(attempt, policy, () => 1))).toEqual([1000, 2000, 4000]);
+  });
+
+  it('never goes beyond the maximum delay', () => {
+    expect(getBackoffDelay(10, policy, () => 1)).toBe(5000);
+    expect(getBackoffDelay(10, policy, () => 0)).toBe(2500);
+  });
+
+  it('retries twice by default', () => {
+    expect(DEFAULT_RETRY_POLICY.maxRetries).toBe(2);
+  });
+});
+
+describe('retryable statuses', () => {
+  it('retries timeouts, rate limiting and server errors, but not client errors', () => {
+    expect([408, 425, 429, 500, 502, 503, 504].every(isRetryableStatus)).toBe(true);
+    expect([400, 401, 403, 404, 410, 501].some(isRetryableStatus)).toBe(false);
+  });
+
+  it('tells overload from a broken server', () => {
+    expect(isOverloadStatus(429)).toBe(true);
+    expect(isOverloadStatus(503)).toBe(true);
+    expect(isOverloadStatus(500)).toBe(false);
+  });
+});
@@ -0,0 +1,57 @@
+export interface RetryPolicy {
+  // Retries after the first attempt; 0 disables retrying
+  maxRetries: number;
+  // Delay before the first retry, doubled for every further one
+  baseDelay: number;
+  maxDelay: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 2,
+  baseDelay: 1000,
+  maxDelay: 30000
+};
+
+// A server asking for a longer pause than this isn't waited for, the page fails instead
+export const MAX_RETRY_AFTER = 120000;
+
+// Statuses that may well succeed when asked again later
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+export function isRetryableStatus(status: number): boolean {
+  return RETRYABLE_STATUSES.has(status);
+}
+
+// Rate limiting and overload, as opposed to a server that is merely broken
+export function isOverloadStatus(status: number): boolean {
+  return status === 429 || status === 503;
+}
+
+/**
+ * Reads a `Retry-After` header, which is either a number of seconds or an
+ * HTTP date, as milliseconds from now. Returns undefined when it's missing
+ * or can't be read.
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!value) return undefined;
+
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+
+  // HTTP dates name the month, so values like "1.5" or "-5" aren't taken for a date
+  if (!/[A-Za-z]/.test(trimmed)) return undefined;
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Exponential backoff with jitter: the delay before retry `attempt` (counting
+ * from 0) is somewhere between half and all of `baseDelay * 2^attempt`, so
+ * workers that failed together don't all retry at the same moment.
+ */
+export function getBackoffDelay(attempt: number, policy: RetryPolicy, random: () => number = Math.random): number {
+  const delay = Math.min(policy.maxDelay, policy.baseDelay * 2 ** attempt);
+  return Math.round(delay / 2 + random() * (delay / 2));
+}
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { checkRichResults, summarizeRichResults, hasPropertyPath } from './richResults';
+import { StructuredDataSnippet } from '../types/crawler';
+
+let snippetCount = 0;
+
+function snippet(data: Record<string, unknown>, url = 'https://example.com/'): StructuredDataSnippet {
+  const hash = `h${snippetCount++}`;
+  return {
+    hash,
+    items: [{ url, format: 'JSON-LD', type: String(data['@type']), data: { '@context': 'https://schema.org', ...data }, hash }],
+    format: 'JSON-LD',
+    connections: [],
+    duplicateCount: 0
+  };
+}
+
+const COMPLETE_PRODUCT = {
+  '@type': 'Product',
+  name: 'Shoe',
+  image: 'https://example.com/shoe.png',
+  description: 'A shoe',
+  brand: { '@type': 'Brand', name: 'Acme' },
+  sku: 'S-1',
+  offers: { '@type': 'Offer', price: '49.90', priceCurrency: 'EUR', availability: 'https://schema.org/InStock' }
+};
+
+describe('checkRichResults', () => {
+  it('marks markup with every required and recommended property as eligible', () => {
+    const [check] = checkRichResults([snippet(COMPLETE_PRODUCT)]);
+    expect(check).toMatchObject({ richResult: 'Product', status: 'eligible', missingRequired: [], missingRecommended: [] });
+  });
+
+  it('lists missing recommended properties as warnings', () => {
+    const [check] = checkRichResults([snippet({ '@type': 'Product', name: 'Shoe', aggregateRating: { '@type': 'AggregateRating' } })]);
+    expect(check.status).toBe('warnings');
+    expect(check.missingRecommended).toEqual([
+      'image', 'description', 'brand', 'sku', 'offers.price or offers.lowPrice', 'offers.priceCurrency', 'offers.availability'
+    ]);
+  });
+
+  it('lists missing required properties, with alternatives joined by "or"', () => {
+    const [check] = checkRichResults([snippet({ '@type': 'Product', name: '  ' })]);
+    expect(check.status).toBe('invalid');
+    expect(check.missingRequired).toEqual(['name', 'offers or review or aggregateRating']);
+  });
+
+  it('checks every value along a path, e.g. each question of an FAQ', () => {
+    const question = (text?: string) => ({
+      '@type': 'Question',
+      name: 'Why?',
+      acceptedAnswer: { '@type': 'Answer', ...(text ? { text } : {}) }
+    });
+    const [complete] = checkRichResults([snippet({ '@type': 'FAQPage', mainEntity: [question('Because'), question('So')] })]);
+    const [partial] = checkRichResults([snippet({ '@type': 'FAQPage', mainEntity: [question('Because'), question()] })]);
+
+    expect(complete.status).toBe('eligible');
+    expect(partial.missingRequired).toEqual(['mainEntity.acceptedAnswer.text']);
+  });
+
+  it('matches subtypes of the rule types', () => {
+    const checks = checkRichResults([snippet({ '@type': 'NewsArticle', headline: 'News' })]);
+    expect(checks.map(check => check.richResult)).toEqual(['Article']);
+  });
+
+  it('follows @id references to nodes published in other snippets', () => {
+    const checks = checkRichResults([
+      snippet({
+        '@type': 'Article',
+        headline: 'News',
+        image: 'https://example.com/a.png',
+        datePublished: '2024-05-01',
+        dateModified: '2024-05-02',
+        author: { '@id': 'https://example.com/#ann' }
+      }),
+      snippet({ '@type': 'Person', '@id': 'https://example.com/#ann', name: 'Ann' }, 'https://example.com/about')
+    ]);
+    expect(checks).toHaveLength(1);
+    expect(checks[0].status).toBe('eligible');
+  });
+
+  it('only looks at schema.org markup', () => {
+    const openGraph: StructuredDataSnippet = {
+      ...snippet({}),
+      items: [{ url: 'https://example.com/', format: 'OpenGraph', type: 'OpenGraph', data: { type: 'Product' }, hash: 'og' }]
+    };
+    expect(checkRichResults([openGraph])).toEqual([]);
+  });
+});
+
+describe('summarizeRichResults', () => {
+  it('counts checks by status and pages per rich result', () => {
+    const summaries = summarizeRichResults(checkRichResults([
+      snippet(COMPLETE_PRODUCT, 'https://example.com/shoe'),
+      snippet({ ...COMPLETE_PRODUCT, sku: undefined }, 'https://example.com/hat'),
+      snippet({ '@type': 'Product' }, 'https://example.com/hat')
+    ]));
+
+    expect(summaries).toHaveLength(1);
+    expect(summaries[0]).toMatchObject({ richResult: 'Product', eligible: 1, warnings: 1, invalid: 1, pages: 2 });
+  });
+});
+
+describe('hasPropertyPath', () => {
+  it('needs a present value at every step of the path', () => {
+    const data = { offers: [{ price: '10' }, { price: 0 }], brand: { name: 'Acme' } };
+    expect(hasPropertyPath(data, 'brand.name')).toBe(true);
+    expect(hasPropertyPath(data, 'offers.price')).toBe(true);
+    expect(hasPropertyPath({ offers: [{ price: '10' }, { price: '' }] }, 'offers.price')).toBe(false);
+    expect(hasPropertyPath(data, 'brand.logo')).toBe(false);
+  });
+});
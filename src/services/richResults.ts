@@ -0,0 +1,221 @@
+import { RichResultCheck, RichResultStatus, RichResultSummary, StructuredDataSnippet } from '../types/crawler';
+import { SCHEMA_ORG_CONTEXT } from './vocabulary';
+import { isSubtypeOf } from './schemaValidator';
+
+// A dotted property path, or a list of paths where any one of them is enough
+type Requirement = string | string[];
+
+interface RichResultRule {
+  name: string;
+  types: string[];
+  required: Requirement[];
+  recommended: Requirement[];
+}
+
+// Required and recommended properties from Google's Search Gallery documentation.
+// Rules match the listed schema.org types and all of their subtypes.
+const RICH_RESULT_RULES: RichResultRule[] = [
+  {
+    name: 'Article',
+    types: ['Article'],
+    required: [],
+    recommended: ['headline', 'image', 'datePublished', 'dateModified', 'author', 'author.name']
+  },
+  {
+    name: 'Breadcrumb',
+    types: ['BreadcrumbList'],
+    required: ['itemListElement', 'itemListElement.position', ['itemListElement.name', 'itemListElement.item.name']],
+    recommended: []
+  },
+  {
+    name: 'Event',
+    types: ['Event'],
+    required: ['name', 'startDate', 'location'],
+    recommended: ['description', 'endDate', 'eventAttendanceMode', 'eventStatus', 'image', 'offers', 'organizer', 'performer']
+  },
+  {
+    name: 'FAQ',
+    types: ['FAQPage'],
+    required: ['mainEntity', 'mainEntity.name', 'mainEntity.acceptedAnswer', 'mainEntity.acceptedAnswer.text'],
+    recommended: []
+  },
+  {
+    name: 'Job Posting',
+    types: ['JobPosting'],
+    required: ['title', 'description', 'datePosted', 'hiringOrganization', ['jobLocation', 'applicantLocationRequirements']],
+    recommended: ['validThrough', 'employmentType', 'baseSalary', 'identifier', 'directApply']
+  },
+  {
+    name: 'Local Business',
+    types: ['LocalBusiness'],
+    required: ['name', 'address'],
+    recommended: ['telephone', 'url', 'geo', 'openingHoursSpecification', 'priceRange', 'image']
+  },
+  {
+    name: 'Product',
+    types: ['Product'],
+    required: ['name', ['offers', 'review', 'aggregateRating']],
+    recommended: ['image', 'description', 'brand', 'sku', ['offers.price', 'offers.lowPrice'], 'offers.priceCurrency', 'offers.availability']
+  },
+  {
+    name: 'Recipe',
+    types: ['Recipe'],
+    required: ['name', 'image'],
+    recommended: [
+      'author', 'datePublished', 'description', 'prepTime', 'cookTime', 'totalTime', 'recipeYield',
+      'recipeCategory', 'recipeCuisine', 'recipeIngredient', 'recipeInstructions', 'nutrition.calories',
+      'aggregateRating', 'keywords'
+    ]
+  },
+  {
+    name: 'Review Snippet',
+    types: ['Review'],
+    required: ['itemReviewed', 'author', 'reviewRating', 'reviewRating.ratingValue'],
+    recommended: ['datePublished', 'reviewRating.bestRating']
+  },
+  {
+    name: 'Software App',
+    types: ['SoftwareApplication'],
+    required: ['name', 'offers.price', ['aggregateRating', 'review']],
+    recommended: ['applicationCategory', 'operatingSystem']
+  },
+  {
+    name: 'Video',
+    types: ['VideoObject'],
+    required: ['name', 'thumbnailUrl', 'uploadDate'],
+    recommended: ['description', 'duration', ['contentUrl', 'embedUrl']]
+  }
+];
+
+function toArray<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function isPresent(value: unknown): boolean {
+  if (value === undefined || value === null) return false;
+  if (typeof value === 'string') return value.trim() !== '';
+  if (Array.isArray(value)) return value.some(isPresent);
+  return true;
+}
+
+// Follow `{"@id": ...}` references to nodes published elsewhere in the crawl
+function resolveNode(value: unknown, idIndex: Map<string, Record<string, unknown>>): unknown {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    const node = value as Record<string, unknown>;
+    if (typeof node['@id'] === 'string' && Object.keys(node).length === 1) {
+      return idIndex.get(node['@id']) ?? node;
+    }
+  }
+  return value;
+}
+
+// Every value along the path has to carry the rest of the path, so each
+// question in an FAQ or each offer of a product is checked on its own
+function hasPath(value: unknown, segments: string[], idIndex: Map<string, Record<string, unknown>>): boolean {
+  const values = toArray(value).filter(isPresent);
+  if (values.length === 0) return false;
+  if (segments.length === 0) return true;
+
+  const [property, ...rest] = segments;
+  return values.every(entry => {
+    const node = resolveNode(entry, idIndex);
+    if (!node || typeof node !== 'object') return false;
+    return hasPath((node as Record<string, unknown>)[property], rest, idIndex);
+  });
+}
+
+// True when every value along the dotted `path` is present, e.g. "offers.price"
+export function hasPropertyPath(
+  data: Record<string, unknown>,
+  path: string,
+  idIndex: Map<string, Record<string, unknown>> = new Map()
+): boolean {
+  return hasPath(data, path.split('.'), idIndex);
+}
+
+function meetsRequirement(
+  data: Record<string, unknown>,
+  requirement: Requirement,
+  idIndex: Map<string, Record<string, unknown>>
+): boolean {
+  return toArray(requirement).some(path => hasPropertyPath(data, path, idIndex));
+}
+
+function describeRequirement(requirement: Requirement): string {
+  return toArray(requirement).join(' or ');
+}
+
+function buildIdIndex(snippets: StructuredDataSnippet[]): Map<string, Record<string, unknown>> {
+  const idIndex = new Map<string, Record<string, unknown>>();
+  snippets.forEach(snippet => {
+    const data = snippet.items[0]?.data;
+    if (data && typeof data['@id'] === 'string' && !idIndex.has(data['@id'])) {
+      idIndex.set(data['@id'], data);
+    }
+  });
+  return idIndex;
+}
+
+function getMatchingRules(data: Record<string, unknown>): RichResultRule[] {
+  const types = toArray(data['@type']).filter((type): type is string => typeof type === 'string');
+  return RICH_RESULT_RULES.filter(rule =>
+    types.some(type => rule.types.some(ruleType => isSubtypeOf(type, ruleType)))
+  );
+}
+
+export function checkRichResults(snippets: StructuredDataSnippet[]): RichResultCheck[] {
+  const idIndex = buildIdIndex(snippets);
+  const checks: RichResultCheck[] = [];
+
+  snippets.forEach(snippet => {
+    const data = snippet.items[0]?.data;
+    // Only schema.org markup (JSON-LD, Microdata, RDFa) can produce rich results
+    if (!data || data['@context'] !== SCHEMA_ORG_CONTEXT) return;
+
+    getMatchingRules(data).forEach(rule => {
+      const missingRequired = rule.required
+        .filter(requirement => !meetsRequirement(data, requirement, idIndex))
+        .map(describeRequirement);
+      const missingRecommended = rule.recommended
+        .filter(requirement => !meetsRequirement(data, requirement, idIndex))
+        .map(describeRequirement);
+
+      let status: RichResultStatus = 'eligible';
+      if (missingRequired.length > 0) {
+        status = 'invalid';
+      } else if (missingRecommended.length > 0) {
+        status = 'warnings';
+      }
+
+      checks.push({
+        richResult: rule.name,
+        snippet,
+        status,
+        missingRequired,
+        missingRecommended,
+        pages: Array.from(new Set(snippet.items.map(item => item.url)))
+      });
+    });
+  });
+
+  return checks;
+}
+
+export function summarizeRichResults(checks: RichResultCheck[]): RichResultSummary[] {
+  return RICH_RESULT_RULES
+    .map(rule => {
+      const ruleChecks = checks.filter(check => check.richResult === rule.name);
+      const pages = new Set(ruleChecks.flatMap(check => check.pages));
+
+      return {
+        richResult: rule.name,
+        eligible: ruleChecks.filter(check => check.status === 'eligible').length,
+        warnings: ruleChecks.filter(check => check.status === 'warnings').length,
+        invalid: ruleChecks.filter(check => check.status === 'invalid').length,
+        pages: pages.size,
+        checks: ruleChecks
+      };
+    })
+    .filter(summary => summary.checks.length > 0);
+}
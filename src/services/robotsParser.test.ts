@@ -0,0 +1,180 @@
+import { describe, it, expect } from 'vitest';
+import { parseRobotsTxt, isAllowedByRobots, getCrawlDelay, getGroupForUserAgent } from './robotsParser';
+
+interface RobotsFixture {
+  name: string;
+  robotsTxt: string;
+  userAgent?: string;
+  // Paths on https://example.com and whether they may be crawled
+  expected: Record<string, boolean>;
+}
+
+const fixtures: RobotsFixture[] = [
+  {
+    name: 'merges every group naming the crawler and ignores the * group',
+    robotsTxt: [
+      'User-agent: *',
+      'Disallow: /',
+      '',
+      'User-agent: StructuredDataCrawler',
+      'Disallow: /private',
+      '',
+      'User-agent: Googlebot',
+      'Disallow: /google-only',
+      '',
+      'User-agent: structureddatacrawler',
+      'Disallow: /drafts'
+    ].join('\n'),
+    expected: {
+      '/': true,
+      '/google-only': true,
+      '/private/page': false,
+      '/drafts/1': false
+    }
+  },
+  {
+    name: 'shares a group between consecutive user-agent lines',
+    robotsTxt: [
+      'User-agent: Googlebot',
+      'User-agent: StructuredDataCrawler/1.0 (+https://example.com/bot)',
+      'Disallow: /shared'
+    ].join('\n'),
+    expected: { '/shared': false, '/other': true }
+  },
+  {
+    name: 'falls back to the * group',
+    robotsTxt: 'User-agent: Googlebot\nDisallow: /\n\nUser-agent: *\nDisallow: /admin',
+    expected: { '/admin': false, '/': true }
+  },
+  {
+    name: 'lets the longest matching rule win',
+    robotsTxt: 'User-agent: *\nDisallow: /shop\nAllow: /shop/products\nDisallow: /shop/products/hidden',
+    expected: {
+      '/shop': false,
+      '/shop/cart': false,
+      '/shop/products/shoe': true,
+      '/shop/products/hidden/1': false
+    }
+  },
+  {
+    name: 'lets Allow win a tie between rules of the same length',
+    robotsTxt: 'User-agent: *\nDisallow: /page\nAllow: /page',
+    expected: { '/page': true, '/page/sub': true }
+  },
+  {
+    name: 'matches * anywhere in a pattern',
+    robotsTxt: 'User-agent: *\nDisallow: /*.pdf\nDisallow: /*/print\nAllow: /docs/*.pdf',
+    expected: {
+      '/files/report.pdf': false,
+      '/files/report.pdf?download=1': false,
+      '/docs/manual.pdf': true,
+      '/article/print': false,
+      '/print': true
+    }
+  },
+  {
+    name: 'anchors patterns ending in $',
+    robotsTxt: 'User-agent: *\nDisallow: /*.php$\nDisallow: /exact$',
+    expected: {
+      '/index.php': false,
+      '/index.php?page=2': true,
+      '/exact': false,
+      '/exact/more': true
+    }
+  },
+  {
+    name: 'matches the query string',
+    robotsTxt: 'User-agent: *\nDisallow: /*?sessionid=',
+    expected: { '/page?sessionid=1': false, '/page?sort=asc': true }
+  },
+  {
+    name: 'compares percent-encoded and plain characters alike',
+    robotsTxt: 'User-agent: *\nDisallow: /%7Euser\nDisallow: /caf%c3%a9\nDisallow: /a%2fb',
+    expected: {
+      '/~user/home': false,
+      '/%7euser/home': false,
+      '/caf%C3%A9': false,
+      '/a%2Fb': false,
+      '/a/b': true
+    }
+  },
+  {
+    name: 'reads files with a BOM and CRLF line endings',
+    robotsTxt: '\uFEFFUser-agent: *\r\nDisallow: /tmp\r\n\r\nSitemap: https://example.com/sitemap.xml\r\n',
+    expected: { '/tmp/file': false, '/': true }
+  },
+  {
+    name: 'ignores comments, unknown directives and rules outside a group',
+    robotsTxt: 'Disallow: /before-any-group\nUser-agent: * # everyone\nNoindex: /x\nDisallow: /admin # keep out',
+    expected: { '/before-any-group': true, '/admin': false, '/x': true }
+  },
+  {
+    name: 'treats an empty Disallow as allowing everything',
+    robotsTxt: 'User-agent: *\nDisallow:',
+    expected: { '/': true, '/anything': true }
+  },
+  {
+    name: 'always allows robots.txt itself',
+    robotsTxt: 'User-agent: *\nDisallow: /',
+    expected: { '/robots.txt': true, '/': false }
+  }
+];
+
+describe('isAllowedByRobots', () => {
+  describe.each(fixtures)('$name', ({ robotsTxt, userAgent, expected }) => {
+    const robots = parseRobotsTxt(robotsTxt);
+    it.each(Object.entries(expected))('%s → %s', (path, allowed) => {
+      expect(isAllowedByRobots(robots, `https://example.com${path}`, userAgent)).toBe(allowed);
+    });
+  });
+
+  it('allows everything without a robots.txt', () => {
+    expect(isAllowedByRobots(null, 'https://example.com/admin')).toBe(true);
+  });
+});
+
+describe('parseRobotsTxt', () => {
+  it('reads Crawl-delay per group and takes the strictest of merged groups', () => {
+    const robots = parseRobotsTxt([
+      'User-agent: *',
+      'Crawl-delay: 10',
+      '',
+      'User-agent: StructuredDataCrawler',
+      'Crawl-delay: 0.5',
+      '',
+      'User-agent: StructuredDataCrawler',
+      'Crawl-delay: 2'
+    ].join('\n'));
+
+    expect(getCrawlDelay(robots)).toBe(2);
+    expect(getCrawlDelay(robots, 'OtherBot')).toBe(10);
+  });
+
+  it('ignores invalid Crawl-delay values', () => {
+    const robots = parseRobotsTxt('User-agent: *\nCrawl-delay: soon\nCrawl-delay: -1');
+    expect(getCrawlDelay(robots)).toBeUndefined();
+  });
+
+  it('collects Sitemap lines outside and inside groups', () => {
+    const robots = parseRobotsTxt([
+      'Sitemap: https://example.com/sitemap-index.xml',
+      'User-agent: *',
+      'Disallow: /admin',
+      'Sitemap: https://example.com/news.xml',
+      'Allow: /admin/public'
+    ].join('\n'));
+
+    expect(robots.sitemaps).toEqual(['https://example.com/sitemap-index.xml', 'https://example.com/news.xml']);
+    // A sitemap line doesn't end the group
+    expect(getGroupForUserAgent(robots)?.rules).toEqual([
+      { allow: false, pattern: '/admin' },
+      { allow: true, pattern: '/admin/public' }
+    ]);
+  });
+
+  it('returns no group when neither the crawler nor * is named', () => {
+    const robots = parseRobotsTxt('User-agent: Googlebot\nDisallow: /');
+    expect(getGroupForUserAgent(robots)).toBeNull();
+    expect(isAllowedByRobots(robots, 'https://example.com/')).toBe(true);
+  });
+});
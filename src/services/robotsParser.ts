@@ -1,38 +1,199 @@
-export function parseRobotsTxt(robotsText: string): Map<string, boolean> {
-  const rules = new Map<string, boolean>();
-  const lines = robotsText.split('\n');
-  
-  let currentUserAgent = '';
-  let isRelevantUserAgent = false;
-  
+export const CRAWLER_USER_AGENT = 'StructuredDataCrawler';
+
+export interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+}
+
+export interface RobotsGroup {
+  userAgents: string[];
+  rules: RobotsRule[];
+  crawlDelay?: number;
+}
+
+export interface RobotsTxt {
+  groups: RobotsGroup[];
+  sitemaps: string[];
+}
+
+// Compiled patterns are cached since the same rules are evaluated for every URL
+const patternCache = new Map<string, RegExp>();
+
+/**
+ * Parses robots.txt into user-agent groups following RFC 9309. Consecutive
+ * user-agent lines share one group, and a user-agent line after a rule starts
+ * a new group. Rules outside any group are ignored, sitemaps are global.
+ */
+export function parseRobotsTxt(robotsText: string): RobotsTxt {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  const lines = robotsText.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/);
+
+  let currentGroup: RobotsGroup | null = null;
+  let lastLineWasUserAgent = false;
+
   for (const line of lines) {
-    const trimmedLine = line.trim();
-    
-    // Skip comments and empty lines
-    if (!trimmedLine || trimmedLine.startsWith('#')) {
+    // Strip comments and surrounding whitespace
+    const trimmedLine = line.replace(/#.*$/, '').trim();
+    if (!trimmedLine) {
       continue;
     }
-    
-    const [directive, ...valueParts] = trimmedLine.split(':');
-    const value = valueParts.join(':').trim();
-    
-    if (directive.toLowerCase() === 'user-agent') {
-      currentUserAgent = value.toLowerCase();
-      isRelevantUserAgent = currentUserAgent === '*' || 
-                           currentUserAgent.includes('structureddatacrawler') ||
-                           currentUserAgent === '';
-    } else if (isRelevantUserAgent) {
-      if (directive.toLowerCase() === 'disallow') {
-        if (value === '') {
-          // Empty disallow means allow everything
-          continue;
-        }
-        rules.set(value, false);
-      } else if (directive.toLowerCase() === 'allow') {
-        rules.set(value, true);
+
+    const separatorIndex = trimmedLine.indexOf(':');
+    if (separatorIndex === -1) {
+      continue;
+    }
+
+    const directive = trimmedLine.substring(0, separatorIndex).trim().toLowerCase();
+    const value = trimmedLine.substring(separatorIndex + 1).trim();
+
+    if (directive === 'user-agent') {
+      if (!currentGroup || !lastLineWasUserAgent) {
+        currentGroup = { userAgents: [], rules: [] };
+        groups.push(currentGroup);
+      }
+      currentGroup.userAgents.push(normalizeUserAgent(value));
+      lastLineWasUserAgent = true;
+      continue;
+    }
+
+    lastLineWasUserAgent = false;
+
+    if (directive === 'sitemap') {
+      if (value) {
+        sitemaps.push(value);
+      }
+      continue;
+    }
+
+    if (!currentGroup) {
+      continue;
+    }
+
+    if (directive === 'allow' || directive === 'disallow') {
+      // An empty pattern matches nothing, so it can be dropped
+      if (value) {
+        currentGroup.rules.push({
+          allow: directive === 'allow',
+          pattern: value.startsWith('/') || value.startsWith('*') ? value : `/${value}`
+        });
+      }
+    } else if (directive === 'crawl-delay') {
+      const seconds = parseFloat(value);
+      if (!isNaN(seconds) && seconds >= 0) {
+        currentGroup.crawlDelay = seconds;
       }
     }
   }
-  
-  return rules;
-}
\ No newline at end of file
+
+  return { groups, sitemaps };
+}
+
+function normalizeUserAgent(value: string): string {
+  if (value === '*') {
+    return '*';
+  }
+  // Only the product token counts, e.g. "Googlebot/2.1 (+http://...)" -> "googlebot"
+  const match = value.match(/^[a-zA-Z_-]+/);
+  return match ? match[0].toLowerCase() : '';
+}
+
+/**
+ * Returns the rules that apply to the given user agent. Groups naming the
+ * crawler explicitly win over the `*` group, and multiple groups for the same
+ * agent are merged into one.
+ */
+export function getGroupForUserAgent(robots: RobotsTxt, userAgent: string = CRAWLER_USER_AGENT): RobotsGroup | null {
+  const token = normalizeUserAgent(userAgent);
+
+  let matching = robots.groups.filter(group => group.userAgents.includes(token));
+  if (matching.length === 0) {
+    matching = robots.groups.filter(group => group.userAgents.includes('*'));
+  }
+  if (matching.length === 0) {
+    return null;
+  }
+
+  const crawlDelays = matching
+    .map(group => group.crawlDelay)
+    .filter((delay): delay is number => delay !== undefined);
+
+  return {
+    userAgents: Array.from(new Set(matching.flatMap(group => group.userAgents))),
+    rules: matching.flatMap(group => group.rules),
+    crawlDelay: crawlDelays.length > 0 ? Math.max(...crawlDelays) : undefined
+  };
+}
+
+export function getCrawlDelay(robots: RobotsTxt, userAgent: string = CRAWLER_USER_AGENT): number | undefined {
+  return getGroupForUserAgent(robots, userAgent)?.crawlDelay;
+}
+
+// Decode percent-encoded unreserved characters and uppercase the remaining
+// escapes so that "/%7efoo" and "/~foo" compare equal
+function normalizePercentEncoding(path: string): string {
+  return path.replace(/%([0-9a-fA-F]{2})/g, (_, hex: string) => {
+    const char = String.fromCharCode(parseInt(hex, 16));
+    return /[A-Za-z0-9\-._~]/.test(char) ? char : `%${hex.toUpperCase()}`;
+  });
+}
+
+function compilePattern(pattern: string): RegExp {
+  let regex = patternCache.get(pattern);
+  if (!regex) {
+    const anchored = pattern.endsWith('$');
+    const body = normalizePercentEncoding(anchored ? pattern.slice(0, -1) : pattern)
+      .split('*')
+      .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    regex = new RegExp(`^${body}${anchored ? '$' : ''}`);
+    patternCache.set(pattern, regex);
+  }
+  return regex;
+}
+
+/**
+ * Evaluates a URL against robots.txt the way Google does: the matching rule
+ * with the longest pattern wins, and on a tie `Allow` beats `Disallow`.
+ */
+export function isAllowedByRobots(
+  robots: RobotsTxt | null,
+  url: string,
+  userAgent: string = CRAWLER_USER_AGENT
+): boolean {
+  if (!robots) return true;
+
+  let path: string;
+  try {
+    const urlObj = new URL(url);
+    path = normalizePercentEncoding(urlObj.pathname + urlObj.search);
+  } catch {
+    return false;
+  }
+
+  // robots.txt itself is always allowed
+  if (path === '/robots.txt') {
+    return true;
+  }
+
+  const group = getGroupForUserAgent(robots, userAgent);
+  if (!group) {
+    return true;
+  }
+
+  let bestMatch: RobotsRule | null = null;
+  for (const rule of group.rules) {
+    if (!compilePattern(rule.pattern).test(path)) {
+      continue;
+    }
+    if (
+      !bestMatch ||
+      rule.pattern.length > bestMatch.pattern.length ||
+      (rule.pattern.length === bestMatch.pattern.length && rule.allow && !bestMatch.allow)
+    ) {
+      bestMatch = rule;
+    }
+  }
+
+  return bestMatch ? bestMatch.allow : true;
+}
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { validateStructuredDataItem, getValidationCounts, isSubtypeOf } from './schemaValidator';
+import { StructuredDataItem } from '../types/crawler';
+
+function validate(data: Record<string, unknown>) {
+  const item: StructuredDataItem = {
+    url: 'https://example.com/',
+    format: 'JSON-LD',
+    type: String(data['@type']),
+    data: { '@context': 'https://schema.org', ...data },
+    hash: 'test'
+  };
+  return validateStructuredDataItem(item);
+}
+
+describe('validateStructuredDataItem', () => {
+  it('finds nothing wrong with valid markup', () => {
+    expect(validate({
+      '@type': 'Product',
+      name: 'Shoe',
+      offers: {
+        '@type': 'Offer',
+        price: '49.90',
+        availability: 'https://schema.org/InStock',
+        priceValidUntil: '2025-01-01'
+      },
+      review: { '@type': 'Review', author: { '@type': 'Person', name: 'Ann' } },
+      'https://vocab.example/colour': 'red'
+    })).toEqual([]);
+  });
+
+  it('reports unknown types and properties, and properties of other types, as errors', () => {
+    expect(validate({
+      '@type': 'Product',
+      colour: 'red',
+      startDate: '2024-05-01',
+      brand: { '@type': 'Brandd', name: 'Acme' }
+    })).toEqual([
+      { severity: 'error', path: 'colour', message: 'Unknown property "colour"' },
+      { severity: 'error', path: 'startDate', message: '"startDate" is not a property of Product' },
+      { severity: 'error', path: 'brand', message: 'Unknown type "Brandd"' }
+    ]);
+  });
+
+  it('reports nodes of the wrong type as errors', () => {
+    expect(validate({ '@type': 'Product', offers: { '@type': 'Person', name: 'Ann' } })).toEqual([
+      { severity: 'error', path: 'offers', message: 'Expected Demand or Offer but got Person' }
+    ]);
+  });
+
+  it('accepts subtypes of the expected type and Role wrappers', () => {
+    expect(validate({
+      '@type': 'Book',
+      author: { '@type': 'Corporation', name: 'Acme' },
+      publisher: { '@type': 'OrganizationRole', roleName: 'imprint' }
+    })).toEqual([]);
+  });
+
+  it('reports literals that do not fit the range as warnings', () => {
+    expect(validate({
+      '@type': 'Event',
+      name: 'Launch',
+      startDate: 'next Friday',
+      isAccessibleForFree: 'maybe',
+      eventStatus: 'Postponed',
+      location: 'Town hall',
+      offers: [{ '@type': 'Offer', price: 'free' }, { '@type': 'Offer', price: 0 }]
+    })).toEqual([
+      { severity: 'warning', path: 'startDate', message: 'Expected Date or DateTime but got "next Friday"' },
+      { severity: 'warning', path: 'isAccessibleForFree', message: 'Expected Boolean but got "maybe"' },
+      { severity: 'warning', path: 'eventStatus', message: '"Postponed" is not a valid EventStatusType value' }
+    ]);
+  });
+
+  it('warns about deprecated types and properties with their replacement', () => {
+    expect(validate({ '@type': 'Movie', actors: { '@type': 'Person', name: 'Ann' } })).toEqual([
+      { severity: 'warning', path: 'actors', message: 'Property "actors" is deprecated, use "actor" instead' }
+    ]);
+  });
+
+  it('numbers the paths of repeated values', () => {
+    expect(validate({ '@type': 'Product', review: [{ '@type': 'Review' }, { '@type': 'Review', bogus: 1 }] })).toEqual([
+      { severity: 'error', path: 'review[1].bogus', message: 'Unknown property "bogus"' }
+    ]);
+  });
+
+  it('skips items that are not schema.org markup', () => {
+    expect(validateStructuredDataItem({
+      url: 'https://example.com/',
+      format: 'OpenGraph',
+      type: 'OpenGraph',
+      data: { title: 'Page' },
+      hash: 'test'
+    })).toBeUndefined();
+  });
+});
+
+describe('getValidationCounts', () => {
+  it('counts errors and warnings', () => {
+    expect(getValidationCounts(validate({ '@type': 'Event', bogus: 1, startDate: 'soon' }))).toEqual({ errors: 1, warnings: 1 });
+    expect(getValidationCounts(undefined)).toEqual({ errors: 0, warnings: 0 });
+  });
+});
+
+describe('isSubtypeOf', () => {
+  it('follows the type hierarchy', () => {
+    expect(isSubtypeOf('Corporation', 'Organization')).toBe(true);
+    expect(isSubtypeOf('Corporation', 'Thing')).toBe(true);
+    expect(isSubtypeOf('Organization', 'Corporation')).toBe(false);
+  });
+});
@@ -0,0 +1,219 @@
+import { StructuredDataItem, ValidationIssue } from '../types/crawler';
+import { SCHEMA_ORG_CONTEXT, compactSchemaOrgIri, isAbsoluteIri } from './vocabulary';
+import vocabulary from '../data/schemaOrgVocabulary.json';
+
+interface VocabularyType {
+  parents: string[];
+  properties: string[];
+  deprecated?: boolean;
+  supersededBy?: string;
+  members?: string[];
+}
+
+interface VocabularyProperty {
+  range: string[];
+  deprecated?: boolean;
+  supersededBy?: string;
+}
+
+const TYPES = vocabulary.types as Record<string, VocabularyType>;
+const PROPERTIES = vocabulary.properties as Record<string, VocabularyProperty>;
+
+const TEXT_TYPES = new Set(['Text', 'URL', 'CssSelectorType', 'XPathType', 'PronounceableText']);
+const NUMBER_TYPES = new Set(['Number', 'Integer', 'Float']);
+const DATE_TYPES = new Set(['Date', 'DateTime', 'Time']);
+const DATA_TYPES = new Set([...TEXT_TYPES, ...NUMBER_TYPES, ...DATE_TYPES, 'Boolean']);
+
+const ISO_DATE_REGEX = /^-?\d{4}(-\d{2}(-\d{2})?)?([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+const ISO_TIME_REGEX = /^\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+
+const ancestorCache = new Map<string, Set<string>>();
+
+function toArray<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+// A type together with all of its supertypes
+function getAncestors(type: string): Set<string> {
+  let ancestors = ancestorCache.get(type);
+  if (!ancestors) {
+    ancestors = new Set([type]);
+    (TYPES[type]?.parents || []).forEach(parent => {
+      getAncestors(parent).forEach(ancestor => ancestors!.add(ancestor));
+    });
+    ancestorCache.set(type, ancestors);
+  }
+  return ancestors;
+}
+
+export function isSubtypeOf(type: string, expected: string): boolean {
+  return getAncestors(type).has(expected);
+}
+
+function getAllowedProperties(types: string[]): Set<string> {
+  const allowed = new Set<string>();
+  types.forEach(type => {
+    getAncestors(type).forEach(ancestor => {
+      TYPES[ancestor]?.properties.forEach(property => allowed.add(property));
+    });
+  });
+  return allowed;
+}
+
+function describeRange(range: string[]): string {
+  return range.length <= 3 ? range.join(' or ') : `${range.slice(0, 3).join(', ')} or ${range.length - 3} more`;
+}
+
+function checkLiteral(value: string | number | boolean, range: string[], path: string, issues: ValidationIssue[]) {
+  const text = String(value);
+  const dataTypes = range.filter(type => DATA_TYPES.has(type));
+
+  if (dataTypes.length > 0) {
+    // Text accepts anything, so only check ranges that are purely numbers, dates or booleans
+    if (dataTypes.some(type => TEXT_TYPES.has(type))) return;
+
+    const valid =
+      (dataTypes.some(type => NUMBER_TYPES.has(type)) && text.trim() !== '' && !isNaN(Number(text))) ||
+      (dataTypes.includes('Boolean') && /^(true|false)$/i.test(compactSchemaOrgIri(text))) ||
+      (dataTypes.some(type => type === 'Date' || type === 'DateTime') && ISO_DATE_REGEX.test(text)) ||
+      (dataTypes.includes('Time') && ISO_TIME_REGEX.test(text));
+
+    if (!valid) {
+      issues.push({
+        severity: 'warning',
+        path,
+        message: `Expected ${describeRange(dataTypes)} but got "${text.substring(0, 40)}"`
+      });
+    }
+    return;
+  }
+
+  const enumerations = range.filter(type => TYPES[type]?.members);
+  if (enumerations.length > 0) {
+    const member = compactSchemaOrgIri(text);
+    if (!enumerations.some(type => TYPES[type].members!.includes(member))) {
+      issues.push({
+        severity: 'warning',
+        path,
+        message: `"${text.substring(0, 40)}" is not a valid ${describeRange(enumerations)} value`
+      });
+    }
+    return;
+  }
+
+  if (range.length > 0) {
+    issues.push({
+      severity: 'warning',
+      path,
+      message: `Expected ${describeRange(range)} but got text`
+    });
+  }
+}
+
+function checkNodeValue(value: Record<string, unknown>, range: string[], path: string, issues: ValidationIssue[]) {
+  const valueTypes = toArray(value['@type'] as string | string[] | undefined)
+    .filter(type => typeof type === 'string' && TYPES[type]);
+
+  // Untyped nodes and references can't be checked, Role wrappers are allowed anywhere
+  if (valueTypes.length === 0 || range.length === 0) return;
+  if (valueTypes.some(type => isSubtypeOf(type, 'Role'))) return;
+
+  const matches = valueTypes.some(type => range.some(expected => isSubtypeOf(type, expected)));
+  if (!matches) {
+    issues.push({
+      severity: 'error',
+      path,
+      message: `Expected ${describeRange(range)} but got ${valueTypes.join(', ')}`
+    });
+  }
+}
+
+function validateNode(node: Record<string, unknown>, path: string, issues: ValidationIssue[]) {
+  const nodeTypes = toArray(node['@type'] as string | string[] | undefined)
+    .filter((type): type is string => typeof type === 'string' && !isAbsoluteIri(type));
+
+  nodeTypes.forEach(type => {
+    const definition = TYPES[type];
+    if (!definition) {
+      issues.push({ severity: 'error', path: path || '@type', message: `Unknown type "${type}"` });
+    } else if (definition.deprecated) {
+      issues.push({
+        severity: 'warning',
+        path: path || '@type',
+        message: `Type "${type}" is deprecated${definition.supersededBy ? `, use "${definition.supersededBy}" instead` : ''}`
+      });
+    }
+  });
+
+  const knownTypes = nodeTypes.filter(type => TYPES[type]);
+  const allowed = knownTypes.length > 0 ? getAllowedProperties(knownTypes) : null;
+
+  Object.entries(node).forEach(([key, value]) => {
+    // Keywords and terms from other vocabularies are out of scope
+    if (key.startsWith('@') || isAbsoluteIri(key)) return;
+
+    const propertyPath = path ? `${path}.${key}` : key;
+
+    // Action constraints such as "query-input" annotate an existing property
+    const constraint = key.match(/^(.+)-(input|output)$/);
+    if (constraint && PROPERTIES[constraint[1]]) return;
+
+    const property = PROPERTIES[key];
+    if (!property) {
+      issues.push({ severity: 'error', path: propertyPath, message: `Unknown property "${key}"` });
+      return;
+    }
+
+    if (property.deprecated) {
+      issues.push({
+        severity: 'warning',
+        path: propertyPath,
+        message: `Property "${key}" is deprecated${property.supersededBy ? `, use "${property.supersededBy}" instead` : ''}`
+      });
+    }
+
+    if (allowed && !allowed.has(key)) {
+      issues.push({
+        severity: 'error',
+        path: propertyPath,
+        message: `"${key}" is not a property of ${knownTypes.join(', ')}`
+      });
+    }
+
+    const values = toArray(value);
+    values.forEach((entry, index) => {
+      const entryPath = values.length > 1 ? `${propertyPath}[${index}]` : propertyPath;
+
+      if (entry && typeof entry === 'object') {
+        const entryNode = entry as Record<string, unknown>;
+        checkNodeValue(entryNode, property.range, entryPath, issues);
+        validateNode(entryNode, entryPath, issues);
+      } else if (typeof entry === 'string' || typeof entry === 'number' || typeof entry === 'boolean') {
+        checkLiteral(entry, property.range, entryPath, issues);
+      }
+    });
+  });
+}
+
+/**
+ * Checks an item against the bundled schema.org vocabulary: unknown types and
+ * properties, properties used on the wrong type, values of the wrong type and
+ * deprecated terms. Items that aren't schema.org markup are not validated.
+ */
+export function validateStructuredDataItem(item: StructuredDataItem): ValidationIssue[] | undefined {
+  if (!item.data || typeof item.data !== 'object' || item.data['@context'] !== SCHEMA_ORG_CONTEXT) {
+    return undefined;
+  }
+
+  const issues: ValidationIssue[] = [];
+  validateNode(item.data, '', issues);
+  return issues;
+}
+
+export function getValidationCounts(issues: ValidationIssue[] | undefined) {
+  return {
+    errors: issues?.filter(issue => issue.severity === 'error').length || 0,
+    warnings: issues?.filter(issue => issue.severity === 'warning').length || 0
+  };
+}
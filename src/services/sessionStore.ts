@@ -0,0 +1,195 @@
+import { StructuredDataItem, CrawlStats, CrawledPage } from '../types/crawler';
+import { CrawlOptions } from '../components/CrawlerForm';
+import { CrawlFrontier } from './crawler';
+
+export interface CrawlSession {
+  id: string;
+  domain: string;
+  options: CrawlOptions;
+  stats: CrawlStats;
+  startedAt: string;
+  updatedAt: string;
+  itemCount: number;
+  pageCount: number;
+  errorCount: number;
+  error?: string;
+}
+
+export interface StoredCrawl {
+  session: CrawlSession;
+  items: StructuredDataItem[];
+  pages: CrawledPage[];
+}
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+const DB_NAME = 'structured-data-crawler';
+const DB_VERSION = 2;
+const SESSIONS_STORE = 'sessions';
+const ITEMS_STORE = 'items';
+const PAGES_STORE = 'pages';
+// Latest crawl frontier per session, keyed by session id
+const CHECKPOINTS_STORE = 'checkpoints';
+
+// Items and pages are stored one record each, keyed by session, so a running
+// crawl only ever appends instead of rewriting everything found so far
+interface SessionRecord<T> {
+  sessionId: string;
+  value: T;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = event => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+          [ITEMS_STORE, PAGES_STORE].forEach(name => {
+            const store = db.createObjectStore(name, { autoIncrement: true });
+            store.createIndex('sessionId', 'sessionId');
+          });
+        }
+        if (event.oldVersion < 2) {
+          db.createObjectStore(CHECKPOINTS_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+async function appendRecords<T>(storeName: string, sessionId: string, values: T[]) {
+  if (values.length === 0) return;
+
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, 'readwrite');
+  const store = transaction.objectStore(storeName);
+  values.forEach(value => store.add({ sessionId, value } as SessionRecord<T>));
+  await transactionDone(transaction);
+}
+
+async function getRecords<T>(storeName: string, sessionId: string): Promise<T[]> {
+  const db = await openDatabase();
+  const index = db.transaction(storeName, 'readonly').objectStore(storeName).index('sessionId');
+  const records = await requestToPromise(index.getAll(IDBKeyRange.only(sessionId)));
+  return (records as SessionRecord<T>[]).map(record => record.value);
+}
+
+export function createSessionId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export async function saveSession(session: CrawlSession) {
+  const db = await openDatabase();
+  const transaction = db.transaction(SESSIONS_STORE, 'readwrite');
+  transaction.objectStore(SESSIONS_STORE).put(session);
+  await transactionDone(transaction);
+}
+
+export function appendSessionItems(sessionId: string, items: StructuredDataItem[]) {
+  return appendRecords(ITEMS_STORE, sessionId, items);
+}
+
+export function appendSessionPages(sessionId: string, pages: CrawledPage[]) {
+  return appendRecords(PAGES_STORE, sessionId, pages);
+}
+
+export async function saveCheckpoint(sessionId: string, frontier: CrawlFrontier) {
+  const db = await openDatabase();
+  const transaction = db.transaction(CHECKPOINTS_STORE, 'readwrite');
+  transaction.objectStore(CHECKPOINTS_STORE).put(frontier, sessionId);
+  await transactionDone(transaction);
+}
+
+export async function loadCheckpoint(sessionId: string): Promise<CrawlFrontier | null> {
+  const db = await openDatabase();
+  const frontier = await requestToPromise(
+    db.transaction(CHECKPOINTS_STORE, 'readonly').objectStore(CHECKPOINTS_STORE).get(sessionId)
+  );
+  return (frontier as CrawlFrontier | undefined) ?? null;
+}
+
+export async function deleteCheckpoint(sessionId: string) {
+  const db = await openDatabase();
+  const transaction = db.transaction(CHECKPOINTS_STORE, 'readwrite');
+  transaction.objectStore(CHECKPOINTS_STORE).delete(sessionId);
+  await transactionDone(transaction);
+}
+
+export async function listSessions(): Promise<CrawlSession[]> {
+  const db = await openDatabase();
+  const sessions = await requestToPromise(
+    db.transaction(SESSIONS_STORE, 'readonly').objectStore(SESSIONS_STORE).getAll()
+  );
+  return (sessions as CrawlSession[]).sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
+
+export async function loadSession(sessionId: string): Promise<StoredCrawl | null> {
+  const db = await openDatabase();
+  const session = await requestToPromise(
+    db.transaction(SESSIONS_STORE, 'readonly').objectStore(SESSIONS_STORE).get(sessionId)
+  ) as CrawlSession | undefined;
+  if (!session) return null;
+
+  const [items, pages] = await Promise.all([
+    getRecords<StructuredDataItem>(ITEMS_STORE, sessionId),
+    getRecords<CrawledPage>(PAGES_STORE, sessionId)
+  ]);
+  return { session, items, pages };
+}
+
+export async function deleteSession(sessionId: string) {
+  const db = await openDatabase();
+  const transaction = db.transaction([SESSIONS_STORE, ITEMS_STORE, PAGES_STORE, CHECKPOINTS_STORE], 'readwrite');
+
+  transaction.objectStore(SESSIONS_STORE).delete(sessionId);
+  transaction.objectStore(CHECKPOINTS_STORE).delete(sessionId);
+  [ITEMS_STORE, PAGES_STORE].forEach(name => {
+    const index = transaction.objectStore(name).index('sessionId');
+    const cursorRequest = index.openKeyCursor(IDBKeyRange.only(sessionId));
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (cursor) {
+        transaction.objectStore(name).delete(cursor.primaryKey);
+        cursor.continue();
+      }
+    };
+  });
+
+  await transactionDone(transaction);
+}
+
+export async function getStorageUsage(): Promise<StorageUsage | null> {
+  if (!navigator.storage?.estimate) return null;
+
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+}
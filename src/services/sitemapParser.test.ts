@@ -0,0 +1,58 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { gzipSync, strToU8 } from 'fflate';
+import { installDomGlobals } from '../cli/dom';
+import { parseSitemap, isGzipped, decodeSitemapBytes } from './sitemapParser';
+
+describe('parseSitemap', () => {
+  beforeAll(installDomGlobals);
+
+  it('lists the page URLs of a urlset, ignoring image and other extension locs', () => {
+    const sitemap = parseSitemap(`<?xml version="1.0" encoding="UTF-8"?>
+      <urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"
+              xmlns:image="http://www.google.com/schemas/sitemap-image/1.1">
+        <url><loc> https://example.com/ </loc><lastmod>2024-05-01</lastmod></url>
+        <url>
+          <loc>https://example.com/product/shoe</loc>
+          <image:image><image:loc>https://example.com/shoe.png</image:loc></image:image>
+        </url>
+        <url><loc></loc></url>
+      </urlset>`);
+
+    expect(sitemap).toEqual({
+      urls: ['https://example.com/', 'https://example.com/product/shoe'],
+      sitemaps: []
+    });
+  });
+
+  it('lists the child sitemaps of a sitemap index', () => {
+    const sitemap = parseSitemap(`<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+      <sitemap><loc>https://example.com/sitemap-products.xml</loc></sitemap>
+      <sitemap><loc>https://example.com/sitemap-blog.xml.gz</loc><lastmod>2024-05-01</lastmod></sitemap>
+    </sitemapindex>`);
+
+    expect(sitemap).toEqual({
+      urls: [],
+      sitemaps: ['https://example.com/sitemap-products.xml', 'https://example.com/sitemap-blog.xml.gz']
+    });
+  });
+
+  it('finds nothing in a document that is not a sitemap', () => {
+    expect(parseSitemap('<html><body>Not found</body></html>')).toEqual({ urls: [], sitemaps: [] });
+  });
+});
+
+describe('decodeSitemapBytes', () => {
+  const xml = '<urlset><url><loc>https://example.com/</loc></url></urlset>';
+
+  it('decompresses gzipped sitemaps by their magic bytes', async () => {
+    const gzipped = gzipSync(strToU8(xml));
+    expect(isGzipped(gzipped)).toBe(true);
+    expect(await decodeSitemapBytes(gzipped)).toBe(xml);
+  });
+
+  it('reads sitemaps the server already decompressed as text', async () => {
+    const bytes = strToU8(xml);
+    expect(isGzipped(bytes)).toBe(false);
+    expect(await decodeSitemapBytes(bytes)).toBe(xml);
+  });
+});
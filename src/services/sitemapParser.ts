@@ -0,0 +1,50 @@
+export interface ParsedSitemap {
+  // Page URLs listed in a <urlset>
+  urls: string[];
+  // Child sitemaps listed in a <sitemapindex>
+  sitemaps: string[];
+}
+
+function getChildLocs(doc: Document, parentTag: string): string[] {
+  const locs: string[] = [];
+
+  Array.from(doc.getElementsByTagNameNS('*', parentTag)).forEach(parent => {
+    // Only look at direct <loc> children so image:loc and friends are ignored
+    const loc = Array.from(parent.children).find(child => child.localName === 'loc');
+    const value = loc?.textContent?.trim();
+    if (value) {
+      locs.push(value);
+    }
+  });
+
+  return locs;
+}
+
+export function parseSitemap(xml: string): ParsedSitemap {
+  const parser = new DOMParser();
+  const doc = parser.parseFromString(xml, 'application/xml');
+
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    console.warn('Failed to parse sitemap XML');
+    return { urls: [], sitemaps: [] };
+  }
+
+  return {
+    urls: getChildLocs(doc, 'url'),
+    sitemaps: getChildLocs(doc, 'sitemap')
+  };
+}
+
+export function isGzipped(bytes: Uint8Array): boolean {
+  return bytes.length > 2 && bytes[0] === 0x1f && bytes[1] === 0x8b;
+}
+
+export async function decodeSitemapBytes(bytes: Uint8Array): Promise<string> {
+  // Servers often decompress .gz sitemaps on the fly, so check the magic bytes
+  if (!isGzipped(bytes)) {
+    return new TextDecoder().decode(bytes);
+  }
+
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('gzip'));
+  return await new Response(stream).text();
+}
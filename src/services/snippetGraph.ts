@@ -0,0 +1,204 @@
+import { Connection, StructuredDataSnippet } from '../types/crawler';
+
+export const CONNECTION_TYPES: Connection['type'][] = ['reference', 'sameAs', 'mainEntity', 'about', 'author', 'publisher'];
+
+export interface GraphNode {
+  snippet: StructuredDataSnippet;
+  x: number;
+  y: number;
+  radius: number;
+}
+
+export interface GraphEdge {
+  // Indexes into SnippetGraph.nodes
+  source: number;
+  target: number;
+  type: Connection['type'];
+}
+
+export interface SnippetGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+// Repulsion only acts within this distance, so it can be computed per grid cell
+const REPULSION_RANGE = 120;
+const REPULSION_STRENGTH = 2000;
+const SPRING_LENGTH = 60;
+const SPRING_STRENGTH = 0.05;
+const GRAVITY = 0.01;
+const NODE_SPACING = 40;
+
+function nodeRadius(snippet: StructuredDataSnippet): number {
+  // Snippets found on many pages are drawn larger, growing slowly
+  return 6 + Math.min(10, Math.log2(snippet.duplicateCount + 1) * 2);
+}
+
+/**
+ * Snippets as nodes and their connections as edges. Connections to snippets
+ * that aren't in the list (e.g. filtered out) are left out, and several
+ * connections of the same type between two snippets become one edge.
+ */
+export function buildSnippetGraph(snippets: StructuredDataSnippet[]): SnippetGraph {
+  const indexByHash = new Map<string, number>();
+  const nodes = snippets.map((snippet, index) => {
+    indexByHash.set(snippet.hash, index);
+    return { snippet, x: 0, y: 0, radius: nodeRadius(snippet) };
+  });
+
+  const edges: GraphEdge[] = [];
+  const seen = new Set<string>();
+  snippets.forEach((snippet, source) => {
+    snippet.connections.forEach(connection => {
+      const target = connection.targetHash !== undefined ? indexByHash.get(connection.targetHash) : undefined;
+      if (target === undefined || target === source) return;
+
+      const key = `${source}-${target}-${connection.type}`;
+      if (seen.has(key)) return;
+      seen.add(key);
+      edges.push({ source, target, type: connection.type });
+    });
+  });
+
+  layoutGraph(nodes, edges);
+  return { nodes, edges };
+}
+
+// Nodes without any edge in the given set of connection types
+export function findOrphans(graph: SnippetGraph, types: Set<Connection['type']>): Set<number> {
+  const connected = new Set<number>();
+  graph.edges.forEach(edge => {
+    if (types.has(edge.type)) {
+      connected.add(edge.source);
+      connected.add(edge.target);
+    }
+  });
+  const orphans = new Set<number>();
+  graph.nodes.forEach((_, index) => {
+    if (!connected.has(index)) orphans.add(index);
+  });
+  return orphans;
+}
+
+// Evenly spread starting positions on a sunflower spiral, so the layout is the same on every render
+function spiralPosition(index: number, spacing: number): { x: number; y: number } {
+  const angle = index * Math.PI * (3 - Math.sqrt(5));
+  const distance = spacing * Math.sqrt(index);
+  return { x: Math.cos(angle) * distance, y: Math.sin(angle) * distance };
+}
+
+/**
+ * A force-directed layout of the connected snippets: edges pull their ends
+ * together, nearby nodes push each other apart. Repulsion is only computed
+ * between nodes in neighbouring grid cells, which keeps each step linear in
+ * the number of nodes. Snippets without connections are placed in a grid
+ * below, where they don't crowd the connected clusters.
+ */
+function layoutGraph(nodes: GraphNode[], edges: GraphEdge[]) {
+  const degree = new Array<number>(nodes.length).fill(0);
+  edges.forEach(edge => {
+    degree[edge.source]++;
+    degree[edge.target]++;
+  });
+  const connected = nodes.filter((_, index) => degree[index] > 0);
+  const orphans = nodes.filter((_, index) => degree[index] === 0);
+
+  connected.forEach((node, index) => Object.assign(node, spiralPosition(index, SPRING_LENGTH / 2)));
+
+  // Fewer steps for large graphs so the view still opens quickly
+  const iterations = connected.length > 2000 ? 60 : connected.length > 500 ? 150 : 300;
+  const velocityX = new Float64Array(nodes.length);
+  const velocityY = new Float64Array(nodes.length);
+  const indexOf = new Map(nodes.map((node, index) => [node, index]));
+
+  for (let step = 0; step < iterations; step++) {
+    const cooling = 1 - step / iterations;
+    const forceX = new Float64Array(nodes.length);
+    const forceY = new Float64Array(nodes.length);
+
+    const grid = new Map<string, number[]>();
+    connected.forEach(node => {
+      const key = `${Math.floor(node.x / REPULSION_RANGE)},${Math.floor(node.y / REPULSION_RANGE)}`;
+      if (!grid.has(key)) grid.set(key, []);
+      grid.get(key)!.push(indexOf.get(node)!);
+    });
+
+    connected.forEach(node => {
+      const index = indexOf.get(node)!;
+      const cellX = Math.floor(node.x / REPULSION_RANGE);
+      const cellY = Math.floor(node.y / REPULSION_RANGE);
+      for (let dx = -1; dx <= 1; dx++) {
+        for (let dy = -1; dy <= 1; dy++) {
+          grid.get(`${cellX + dx},${cellY + dy}`)?.forEach(other => {
+            if (other === index) return;
+            let distX = node.x - nodes[other].x;
+            let distY = node.y - nodes[other].y;
+            let distSq = distX * distX + distY * distY;
+            if (distSq === 0) {
+              // Nudge coinciding nodes apart in a direction that depends on their order
+              distX = index < other ? 0.1 : -0.1;
+              distY = 0.1;
+              distSq = 0.02;
+            }
+            if (distSq > REPULSION_RANGE * REPULSION_RANGE) return;
+            const force = REPULSION_STRENGTH / distSq;
+            const dist = Math.sqrt(distSq);
+            forceX[index] += (distX / dist) * force;
+            forceY[index] += (distY / dist) * force;
+          });
+        }
+      }
+      forceX[index] -= node.x * GRAVITY;
+      forceY[index] -= node.y * GRAVITY;
+    });
+
+    edges.forEach(edge => {
+      const source = nodes[edge.source];
+      const target = nodes[edge.target];
+      const distX = target.x - source.x;
+      const distY = target.y - source.y;
+      const dist = Math.sqrt(distX * distX + distY * distY) || 0.1;
+      const force = (dist - SPRING_LENGTH) * SPRING_STRENGTH;
+      forceX[edge.source] += (distX / dist) * force;
+      forceY[edge.source] += (distY / dist) * force;
+      forceX[edge.target] -= (distX / dist) * force;
+      forceY[edge.target] -= (distY / dist) * force;
+    });
+
+    connected.forEach(node => {
+      const index = indexOf.get(node)!;
+      velocityX[index] = (velocityX[index] + forceX[index]) * 0.5;
+      velocityY[index] = (velocityY[index] + forceY[index]) * 0.5;
+      // Cap the step so strong forces can't fling nodes away
+      const maxStep = 20 * cooling + 1;
+      node.x += Math.max(-maxStep, Math.min(maxStep, velocityX[index]));
+      node.y += Math.max(-maxStep, Math.min(maxStep, velocityY[index]));
+    });
+  }
+
+  const bottom = connected.reduce((max, node) => Math.max(max, node.y + node.radius), 0);
+  const left = connected.reduce((min, node) => Math.min(min, node.x - node.radius), 0);
+  const right = connected.reduce((max, node) => Math.max(max, node.x + node.radius), 0);
+  const columns = Math.max(
+    Math.ceil(Math.sqrt(orphans.length)),
+    Math.floor((right - left) / NODE_SPACING) + 1
+  );
+  const top = connected.length > 0 ? bottom + NODE_SPACING * 2 : 0;
+  orphans.forEach((node, index) => {
+    node.x = left + (index % columns) * NODE_SPACING;
+    node.y = top + Math.floor(index / columns) * NODE_SPACING;
+  });
+}
+
+export function getGraphBounds(graph: SnippetGraph): { minX: number; minY: number; maxX: number; maxY: number } {
+  if (graph.nodes.length === 0) return { minX: 0, minY: 0, maxX: 0, maxY: 0 };
+  return graph.nodes.reduce(
+    (bounds, node) => ({
+      minX: Math.min(bounds.minX, node.x - node.radius),
+      minY: Math.min(bounds.minY, node.y - node.radius),
+      maxX: Math.max(bounds.maxX, node.x + node.radius),
+      maxY: Math.max(bounds.maxY, node.y + node.radius)
+    }),
+    { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity }
+  );
+}
@@ -1,11 +1,17 @@
 import { StructuredDataItem } from '../types/crawler';
 import CryptoJS from 'crypto-js';
+import { parseMicrodata } from './microdataParser';
+import { parseRdfa } from './rdfaParser';
+import { canonicalizeJsonLd } from './jsonLdProcessor';
+import { validateStructuredDataItem } from './schemaValidator';
+import { getTypeLabel } from './vocabulary';
 
-export function extractStructuredData(html: string, url: string): StructuredDataItem[] {
+// JSON-LD blocks that fail to parse are skipped; their errors are added to `parseErrors`
+export function extractStructuredData(html: string, url: string, parseErrors: string[] = []): StructuredDataItem[] {
   const results: StructuredDataItem[] = [];
 
   // Extract JSON-LD
-  results.push(...extractJsonLd(html, url));
+  results.push(...extractJsonLd(html, url, parseErrors));
   
   // Extract Microdata
   results.push(...extractMicrodata(html, url));
@@ -19,24 +25,57 @@ export function extractStructuredData(html: string, url: string): StructuredData
   // Extract Twitter Cards
   results.push(...extractTwitterCards(html, url));
 
+  // Check schema.org markup against the bundled vocabulary
+  results.forEach(item => {
+    item.validation = validateStructuredDataItem(item);
+  });
+
   return results;
 }
 
-function generateDataHash(data: any): string {
+// JSON.stringify with object keys sorted at every level
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value).sort().map(key =>
+      `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`
+    );
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+export function generateDataHash(data: unknown): string {
   // Create a normalized version of the data for hashing
-  const normalized = JSON.stringify(data, Object.keys(data).sort());
+  const normalized = stableStringify(data);
   return CryptoJS.MD5(normalized).toString().substring(0, 8);
 }
 
-function extractId(data: any): string | undefined {
+function extractId(data: Record<string, unknown>): string | undefined {
   // Try to find an ID in various formats
-  return data['@id'] || 
-         data.id || 
-         data.itemid || 
-         data.url || 
-         data.sameAs || 
-         data.mainEntityOfPage ||
-         undefined;
+  const candidates = [
+    data['@id'],
+    data.id,
+    data.itemid,
+    data.url,
+    data.sameAs,
+    data.mainEntityOfPage
+  ];
+
+  for (const candidate of candidates) {
+    // Unwrap arrays and {"@id": ...} references down to a plain string
+    const value = Array.isArray(candidate) ? candidate[0] : candidate;
+    if (typeof value === 'string' && value) {
+      return value;
+    }
+    if (value && typeof value === 'object' && typeof (value as Record<string, unknown>)['@id'] === 'string') {
+      return (value as Record<string, string>)['@id'];
+    }
+  }
+
+  return undefined;
 }
 
 function resolveJsonLdType(item: any): string {
@@ -53,6 +92,11 @@ function resolveJsonLdType(item: any): string {
   return 'Unknown';
 }
 
+// Display label for the type(s) of a normalised item, shortening full IRIs
+function resolveTypeLabel(item: unknown): string {
+  return resolveJsonLdType(item).split(', ').map(getTypeLabel).join(', ');
+}
+
 function flattenJsonLdItems(data: any): any[] {
   if (!data || typeof data !== 'object') {
     return [];
@@ -80,12 +124,14 @@ function flattenJsonLdItems(data: any): any[] {
   return [data];
 }
 
-function extractJsonLd(html: string, url: string): StructuredDataItem[] {
+function extractJsonLd(html: string, url: string, parseErrors: string[]): StructuredDataItem[] {
   const results: StructuredDataItem[] = [];
   const scriptRegex = /<script[^>]*type=["']application\/ld\+json["'][^>]*>(.*?)<\/script>/gis;
   let match;
+  let scriptIndex = 0;
 
   while ((match = scriptRegex.exec(html)) !== null) {
+    scriptIndex++;
     try {
       const jsonContent = match[1].trim();
       if (!jsonContent) continue;
@@ -95,14 +141,17 @@ function extractJsonLd(html: string, url: string): StructuredDataItem[] {
 
       items.forEach(item => {
         if (item && typeof item === 'object') {
-          const hash = generateDataHash(item);
-          const id = extractId(item);
+          // Hash, type and ID come from the canonical form, the raw JSON is kept for display
+          const canonical = canonicalizeJsonLd(item, url);
+          const hash = generateDataHash(canonical);
+          const id = extractId(canonical);
           
           results.push({
             url,
             format: 'JSON-LD',
-            type: resolveJsonLdType(item),
-            data: item,
+            type: resolveTypeLabel(canonical),
+            data: canonical,
+            raw: item,
             id,
             hash
           });
@@ -110,6 +159,7 @@ function extractJsonLd(html: string, url: string): StructuredDataItem[] {
       });
     } catch (err) {
       console.warn('Failed to parse JSON-LD:', err);
+      parseErrors.push(`JSON-LD block ${scriptIndex}: ${(err as Error).message}`);
     }
   }
 
@@ -123,69 +173,23 @@ function extractMicrodata(html: string, url: string): StructuredDataItem[] {
   const parser = new DOMParser();
   const doc = parser.parseFromString(html, 'text/html');
   
-  // Find all elements with itemscope
-  const itemscopeElements = doc.querySelectorAll('[itemscope]');
-  
-  itemscopeElements.forEach((element, index) => {
-    const itemtype = element.getAttribute('itemtype');
-    const itemid = element.getAttribute('itemid');
-    
-    // Extract properties
-    const properties: Record<string, any> = {};
-    const propElements = element.querySelectorAll('[itemprop]');
-    
-    propElements.forEach(propEl => {
-      const propName = propEl.getAttribute('itemprop');
-      if (!propName) return;
-      
-      let propValue: string | null = null;
-      
-      // Get value based on element type
-      if (propEl.hasAttribute('content')) {
-        propValue = propEl.getAttribute('content');
-      } else if (propEl.tagName === 'META') {
-        propValue = propEl.getAttribute('content');
-      } else if (propEl.tagName === 'A' || propEl.tagName === 'LINK') {
-        propValue = propEl.getAttribute('href');
-      } else if (propEl.tagName === 'IMG') {
-        propValue = propEl.getAttribute('src');
-      } else if (propEl.tagName === 'TIME') {
-        propValue = propEl.getAttribute('datetime') || propEl.textContent?.trim() || null;
-      } else {
-        propValue = propEl.textContent?.trim() || null;
-      }
-      
-      if (propValue) {
-        if (properties[propName]) {
-          // Handle multiple values
-          if (Array.isArray(properties[propName])) {
-            properties[propName].push(propValue);
-          } else {
-            properties[propName] = [properties[propName], propValue];
-          }
-        } else {
-          properties[propName] = propValue;
-        }
-      }
-    });
-    
-    if (Object.keys(properties).length > 0 || itemtype) {
-      const data: any = { ...properties };
-      if (itemtype) data.itemtype = itemtype;
-      if (itemid) data.itemid = itemid;
-      
-      const hash = generateDataHash(data);
-      const id = extractId(data);
-      
-      results.push({
-        url,
-        format: 'Microdata',
-        type: itemtype ? itemtype.split('/').pop() || 'Unknown' : 'Unknown',
-        data,
-        id,
-        hash
-      });
+  // Only top-level items are emitted, nested items stay inside their parent
+  parseMicrodata(doc, url).forEach(data => {
+    if (Object.keys(data).length === 0) {
+      return;
     }
+
+    const hash = generateDataHash(data);
+    const id = extractId(data);
+
+    results.push({
+      url,
+      format: 'Microdata',
+      type: resolveTypeLabel(data),
+      data,
+      id,
+      hash
+    });
   });
 
   return results;
@@ -197,54 +201,19 @@ function extractRdfa(html: string, url: string): StructuredDataItem[] {
   const parser = new DOMParser();
   const doc = parser.parseFromString(html, 'text/html');
   
-  // Find elements with RDFa attributes
-  const rdfaElements = doc.querySelectorAll('[typeof], [property], [resource], [about]');
-  
-  const processedElements = new Set();
-  
-  rdfaElements.forEach((element, index) => {
-    if (processedElements.has(element)) return;
-    
-    const typeof_ = element.getAttribute('typeof');
-    const about = element.getAttribute('about');
-    const resource = element.getAttribute('resource');
-    
-    if (typeof_) {
-      const properties: Record<string, any> = {};
-      
-      // Find all property elements within this scope
-      const propertyElements = element.querySelectorAll('[property]');
-      propertyElements.forEach(propEl => {
-        const property = propEl.getAttribute('property');
-        const content = propEl.getAttribute('content') || propEl.textContent?.trim();
-        
-        if (property && content) {
-          properties[property] = content;
-        }
-      });
-      
-      const data: any = {
-        '@type': typeof_,
-        ...properties
-      };
-      
-      if (about) data['@about'] = about;
-      if (resource) data['@resource'] = resource;
-      
-      const hash = generateDataHash(data);
-      const id = extractId(data);
-      
-      results.push({
-        url,
-        format: 'RDFa',
-        type: typeof_.split('/').pop() || typeof_,
-        data,
-        id,
-        hash
-      });
-      
-      processedElements.add(element);
-    }
+  // Only top-level resources are emitted, child resources stay nested
+  parseRdfa(doc, url).forEach(data => {
+    const hash = generateDataHash(data);
+    const id = extractId(data);
+
+    results.push({
+      url,
+      format: 'RDFa',
+      type: resolveTypeLabel(data),
+      data,
+      id,
+      hash
+    });
   });
 
   return results;
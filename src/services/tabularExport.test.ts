@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { serializeTable, TabularTable } from './tabularExport';
+
+const table: TabularTable = {
+  name: 'Product',
+  columns: ['name', 'price', 'description'],
+  rows: [
+    { name: '=HYPERLINK("https://evil.example","Click")', price: '-5', description: '@SUM(A1:A2)' },
+    { name: '+cmd|calc', price: '19.99', description: '-2+3' },
+    { name: 'Shoe', price: '+1', description: '\tindented' }
+  ]
+};
+
+describe('serializeTable', () => {
+  it('turns cells that would run as formulas into text in CSV', () => {
+    const lines = serializeTable(table, 'csv').split('\r\n');
+    expect(lines[1]).toBe(`"'=HYPERLINK(""https://evil.example"",""Click"")",-5,'@SUM(A1:A2)`);
+    expect(lines[2]).toBe(`'+cmd|calc,19.99,'-2+3`);
+    expect(lines[3]).toBe(`Shoe,+1,'\tindented`);
+  });
+
+  it('turns cells that would run as formulas into text in TSV', () => {
+    const lines = serializeTable(table, 'tsv').split('\r\n');
+    expect(lines[1]).toBe(`'=HYPERLINK("https://evil.example","Click")\t-5\t'@SUM(A1:A2)`);
+    expect(lines[3]).toBe(`Shoe\t+1\t' indented`);
+  });
+});
@@ -0,0 +1,243 @@
+import { zipSync, strToU8 } from 'fflate';
+import { StructuredDataItem, StructuredDataSnippet, CrawledPage } from '../types/crawler';
+import { getUniqueFileName } from '../utils/download';
+
+// One row per occurrence, or one row per grouped snippet
+export type TabularRows = 'items' | 'snippets';
+// Arrays either become one cell with the values joined, or one row per value
+export type ArrayMode = 'join' | 'explode';
+export type TabularFormat = 'csv' | 'tsv';
+
+export interface TabularExportOptions {
+  rows: TabularRows;
+  arrays: ArrayMode;
+  format: TabularFormat;
+  // Selected property columns per table; tables that are missing are left out
+  columns: Record<string, string[]>;
+}
+
+export interface TabularTable {
+  name: string;
+  columns: string[];
+  rows: Record<string, string>[];
+}
+
+type FlatRow = Record<string, string>;
+
+export const ARRAY_SEPARATOR = ' | ';
+// Exploding several arrays on one item multiplies rows, so cap them per item
+const MAX_EXPLODED_ROWS = 1000;
+
+const ITEM_COLUMNS = ['page', 'format', 'hash'];
+const SNIPPET_COLUMNS = ['hash', 'format', 'pageCount', 'pages'];
+const PAGE_COLUMNS: (keyof CrawledPage)[] = [
+  'url', 'redirects', 'canonical', 'duplicate', 'skipped', 'depth', 'referrer', 'status', 'contentType',
+  'fetchTime', 'retries', 'transport', 'bytes', 'itemCount', 'error', 'parseErrors'
+];
+
+// One table per type; untyped markup such as OpenGraph is grouped by format
+export function getTableName(item: StructuredDataItem): string {
+  return item.type || item.format;
+}
+
+function joinPath(path: string, key: string): string {
+  if (!key) return path;
+  return path ? `${path}.${key}` : key;
+}
+
+function prefixRow(row: FlatRow, key: string): FlatRow {
+  const prefixed: FlatRow = {};
+  Object.entries(row).forEach(([path, value]) => {
+    prefixed[joinPath(key, path)] = value;
+  });
+  return prefixed;
+}
+
+// Every combination of the rows of each property, in property order
+function combineRows(rowSets: FlatRow[][]): FlatRow[] {
+  return rowSets.reduce<FlatRow[]>((combined, rows) => {
+    if (rows.length === 0) return combined;
+    const next: FlatRow[] = [];
+    for (const left of combined) {
+      for (const right of rows) {
+        if (next.length >= MAX_EXPLODED_ROWS) return next;
+        next.push({ ...left, ...right });
+      }
+    }
+    return next;
+  }, [{}]);
+}
+
+// Values of the same column across array elements are joined in element order
+function joinRows(rows: FlatRow[]): FlatRow {
+  const joined: Record<string, string[]> = {};
+  rows.forEach(row => {
+    Object.entries(row).forEach(([path, value]) => {
+      (joined[path] = joined[path] || []).push(value);
+    });
+  });
+  const result: FlatRow = {};
+  Object.entries(joined).forEach(([path, values]) => {
+    result[path] = values.join(ARRAY_SEPARATOR);
+  });
+  return result;
+}
+
+/**
+ * Flattens a JSON value into rows keyed by dotted property paths, e.g.
+ * `offers.price` or `aggregateRating.ratingValue`. The JSON-LD `@context`
+ * is dropped since it is the same for every row.
+ */
+export function flattenValue(value: unknown, arrays: ArrayMode): FlatRow[] {
+  if (value === undefined || value === null) return [];
+
+  if (Array.isArray(value)) {
+    const rows = value.flatMap(entry => flattenValue(entry, arrays));
+    if (arrays === 'explode') return rows.slice(0, MAX_EXPLODED_ROWS);
+    return rows.length > 0 ? [joinRows(rows)] : [];
+  }
+
+  if (typeof value === 'object') {
+    const rowSets = Object.entries(value as Record<string, unknown>)
+      .filter(([key]) => key !== '@context')
+      .map(([key, child]) => flattenValue(child, arrays).map(row => prefixRow(row, key)));
+    return combineRows(rowSets);
+  }
+
+  return [{ '': String(value) }];
+}
+
+/**
+ * Property columns per table, in the order they first appear. Snippets are
+ * used because they hold every distinct piece of markup exactly once.
+ */
+export function getAvailableColumns(snippets: StructuredDataSnippet[]): Map<string, string[]> {
+  const columns = new Map<string, Set<string>>();
+  snippets.forEach(snippet => {
+    const item = snippet.items[0];
+    if (!item) return;
+
+    const name = getTableName(item);
+    if (!columns.has(name)) {
+      columns.set(name, new Set());
+    }
+    flattenValue(item.data, 'join').forEach(row => {
+      Object.keys(row).forEach(path => columns.get(name)!.add(path));
+    });
+  });
+
+  return new Map(
+    Array.from(columns, ([name, paths]) => [name, Array.from(paths)] as [string, string[]])
+      .sort((a, b) => a[0].localeCompare(b[0]))
+  );
+}
+
+function dataRows(data: unknown, arrays: ArrayMode): FlatRow[] {
+  const rows = flattenValue(data, arrays);
+  // Items without any values still get a row for their metadata
+  return rows.length > 0 ? rows : [{}];
+}
+
+export function buildTables(
+  items: StructuredDataItem[],
+  snippets: StructuredDataSnippet[],
+  options: TabularExportOptions
+): TabularTable[] {
+  const tables = new Map<string, TabularTable>();
+  const getTable = (name: string) => {
+    if (!tables.has(name)) {
+      const baseColumns = options.rows === 'items' ? ITEM_COLUMNS : SNIPPET_COLUMNS;
+      tables.set(name, { name, columns: [...baseColumns, ...options.columns[name]], rows: [] });
+    }
+    return tables.get(name)!;
+  };
+
+  if (options.rows === 'items') {
+    items.forEach(item => {
+      const name = getTableName(item);
+      if (!options.columns[name]) return;
+
+      const base = { page: item.url, format: item.format, hash: item.hash };
+      dataRows(item.data, options.arrays).forEach(row => getTable(name).rows.push({ ...base, ...row }));
+    });
+  } else {
+    snippets.forEach(snippet => {
+      const item = snippet.items[0];
+      if (!item || !options.columns[getTableName(item)]) return;
+
+      const pages = Array.from(new Set(snippet.items.map(occurrence => occurrence.url)));
+      const base = {
+        hash: snippet.hash,
+        format: snippet.format,
+        pageCount: String(pages.length),
+        pages: pages.join(ARRAY_SEPARATOR)
+      };
+      dataRows(item.data, options.arrays).forEach(row => getTable(getTableName(item)).rows.push({ ...base, ...row }));
+    });
+  }
+
+  return Array.from(tables.values());
+}
+
+// One row per crawled page, including pages without structured data and failed fetches
+export function buildPagesTable(pages: CrawledPage[]): TabularTable {
+  return {
+    name: 'pages',
+    columns: PAGE_COLUMNS,
+    rows: pages.map(page => {
+      const row: Record<string, string> = {};
+      PAGE_COLUMNS.forEach(column => {
+        const value = page[column];
+        if (column === 'redirects' && page.redirects) {
+          // Each hop as `url (status)`, starting with the requested URL
+          row[column] = page.redirects
+            .map(hop => hop.status !== undefined ? `${hop.url} (${hop.status})` : hop.url)
+            .join(ARRAY_SEPARATOR);
+        } else if (value !== undefined) {
+          row[column] = Array.isArray(value) ? value.join(ARRAY_SEPARATOR) : String(value);
+        }
+      });
+      return row;
+    })
+  };
+}
+
+/**
+ * Values come from third-party pages, and spreadsheets run a cell starting
+ * with =, +, -, @, a tab or a carriage return as a formula. A leading ' makes
+ * them text; plain numbers such as -5 are left alone.
+ */
+function neutralizeFormula(value: string): string {
+  return /^[=+\-@\t\r]/.test(value) && !/^[+-]?\d+(\.\d+)?$/.test(value) ? `'${value}` : value;
+}
+
+function escapeCsvCell(value: string): string {
+  const cell = neutralizeFormula(value);
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
+
+// TSV has no quoting, so tabs and line breaks inside values become spaces
+function escapeTsvCell(value: string): string {
+  return neutralizeFormula(value).replace(/[\t\r\n]+/g, ' ');
+}
+
+export function serializeTable(table: TabularTable, format: TabularFormat): string {
+  const escape = format === 'csv' ? escapeCsvCell : escapeTsvCell;
+  const separator = format === 'csv' ? ',' : '\t';
+  const lines = [
+    table.columns.map(escape).join(separator),
+    ...table.rows.map(row => table.columns.map(column => escape(row[column] ?? '')).join(separator))
+  ];
+  return lines.join('\r\n') + '\r\n';
+}
+
+// One file per table; CSV files start with a byte order mark so Excel reads them as UTF-8
+export function createTabularZip(tables: TabularTable[], format: TabularFormat): Uint8Array {
+  const used = new Set<string>();
+  const files: Record<string, Uint8Array> = {};
+  tables.forEach(table => {
+    const text = serializeTable(table, format);
+    files[getUniqueFileName(table.name, format, used)] = strToU8(format === 'csv' ? `\uFEFF${text}` : text);
+  });
+  return zipSync(files);
+}
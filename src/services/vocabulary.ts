@@ -0,0 +1,40 @@
+export type JsonLdValue = string | JsonLdNode;
+
+export interface JsonLdNode {
+  [key: string]: JsonLdValue | JsonLdValue[];
+}
+
+export const SCHEMA_ORG_CONTEXT = 'https://schema.org';
+
+const SCHEMA_ORG_NAMESPACES = ['http://schema.org/', 'https://schema.org/'];
+
+export function isSchemaOrgIri(iri: string): boolean {
+  return SCHEMA_ORG_NAMESPACES.some(ns => iri.startsWith(ns));
+}
+
+// "http://schema.org/Product" -> "Product", other IRIs are returned unchanged
+export function compactSchemaOrgIri(iri: string): string {
+  const ns = SCHEMA_ORG_NAMESPACES.find(namespace => iri.startsWith(namespace));
+  return ns ? iri.substring(ns.length) : iri;
+}
+
+export function isAbsoluteIri(value: string): boolean {
+  return /^[a-zA-Z][a-zA-Z0-9+.-]*:/.test(value);
+}
+
+// Short, human-readable label for a type IRI, e.g. "http://ogp.me/ns#article" -> "article"
+export function getTypeLabel(type: string): string {
+  return isAbsoluteIri(type) ? type.split(/[/#]/).filter(Boolean).pop() || type : type;
+}
+
+// Adds a value to a node, turning the property into an array once it repeats
+export function appendValue(node: JsonLdNode, key: string, value: JsonLdValue) {
+  const existing = node[key];
+  if (existing === undefined) {
+    node[key] = value;
+  } else if (Array.isArray(existing)) {
+    existing.push(value);
+  } else {
+    node[key] = [existing, value];
+  }
+}
@@ -3,8 +3,38 @@ export interface StructuredDataItem {
   format: 'JSON-LD' | 'Microdata' | 'RDFa' | 'OpenGraph' | 'Twitter Cards' | 'Schema.org';
   type?: string;
   data: any;
+  // Original markup as found on the page, when it differs from the normalised `data`
+  raw?: unknown;
   id?: string;
   hash: string;
+  // schema.org vocabulary issues, undefined for markup that isn't schema.org
+  validation?: ValidationIssue[];
+}
+
+export interface ValidationIssue {
+  severity: 'error' | 'warning';
+  path: string;
+  message: string;
+}
+
+export type RichResultStatus = 'eligible' | 'warnings' | 'invalid';
+
+export interface RichResultCheck {
+  richResult: string;
+  snippet: StructuredDataSnippet;
+  status: RichResultStatus;
+  missingRequired: string[];
+  missingRecommended: string[];
+  pages: string[];
+}
+
+export interface RichResultSummary {
+  richResult: string;
+  eligible: number;
+  warnings: number;
+  invalid: number;
+  pages: number;
+  checks: RichResultCheck[];
 }
 
 export interface StructuredDataSnippet {
@@ -24,11 +54,50 @@ export interface Connection {
   value: string;
 }
 
+// A URL that redirected elsewhere; the status is unknown when the browser
+// followed the redirect without exposing it
+export interface RedirectHop {
+  url: string;
+  status?: number;
+}
+
+// One record per URL the crawler fetched. Fields other than url, depth and
+// itemCount are missing from crawls saved before they were recorded.
+export interface CrawledPage {
+  // The URL the page was served from after any redirects, or the requested URL if the fetch failed
+  url: string;
+  // The redirects that led to url, starting with the URL that was requested
+  redirects?: RedirectHop[];
+  // Set when the page declares a different canonical URL; its items are recorded under that URL
+  canonical?: string;
+  // The canonical URL had been crawled already, so the page's markup wasn't extracted again
+  duplicate?: boolean;
+  // Why the page wasn't processed, e.g. a redirect off the site or into a path robots.txt disallows
+  skipped?: string;
+  depth: number;
+  // The page the link was found on; missing for the start page and sitemap entries
+  referrer?: string;
+  // HTTP status and content type; unknown when a public CORS proxy fetched the page
+  status?: number;
+  contentType?: string;
+  // Milliseconds from sending the request until the body was read, including waits between retries
+  fetchTime?: number;
+  // Failed attempts that were retried, whether or not a later attempt succeeded
+  retries?: number;
+  // What served the page: Direct, or the name of the proxy it went through
+  transport?: string;
+  bytes?: number;
+  itemCount: number;
+  error?: string;
+  // Markup that was found but couldn't be parsed, e.g. invalid JSON-LD
+  parseErrors?: string[];
+}
+
 export interface CrawlStats {
   pagesCrawled: number;
   structuredDataFound: number;
   duration: number;
-  status: 'running' | 'completed' | 'stopped' | 'error';
+  status: 'running' | 'paused' | 'completed' | 'stopped' | 'error';
 }
 
 export interface CrawlResult {
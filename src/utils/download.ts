@@ -0,0 +1,26 @@
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+// Date stamp used in export file names, e.g. "2024-05-01"
+export function getExportDate(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+// File-system safe name that isn't in `used` yet (compared case-insensitively, as zip tools do)
+export function getUniqueFileName(name: string, extension: string, used: Set<string>): string {
+  const base = name.replace(/[^\w.-]+/g, '_').replace(/^_+|_+$/g, '') || 'untitled';
+  let fileName = `${base}.${extension}`;
+  for (let i = 2; used.has(fileName.toLowerCase()); i++) {
+    fileName = `${base}-${i}.${extension}`;
+  }
+  used.add(fileName.toLowerCase());
+  return fileName;
+}
@@ -0,0 +1,32 @@
+const compiledPatterns = new Map<string, RegExp>();
+
+/**
+ * Glob-style patterns for URL paths: `*` matches within one path segment and
+ * `**` matches across segments, so `/product/*` matches `/product/shoe` but
+ * not `/product/shoe/reviews`, while `/blog/**` matches everything under /blog.
+ * A named segment such as `/product/:slug` is the same as `/product/*`.
+ */
+export function compilePathPattern(pattern: string): RegExp {
+  let regex = compiledPatterns.get(pattern);
+  if (!regex) {
+    const path = (pattern.startsWith('/') ? pattern : `/${pattern}`).replace(/\/:[A-Za-z_][\w-]*(?=\/|$)/g, '/*');
+    const source = path
+      .split('**')
+      .map(part => part
+        .split('*')
+        .map(literal => literal.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('[^/]*'))
+      .join('.*');
+    regex = new RegExp(`^${source}$`);
+    compiledPatterns.set(pattern, regex);
+  }
+  return regex;
+}
+
+export function matchesPathPattern(url: string, pattern: string): boolean {
+  try {
+    return compilePathPattern(pattern).test(new URL(url).pathname);
+  } catch {
+    return false;
+  }
+}
@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Shared token for public/proxy.php, matching CSAJAX_TOKEN on the server
+  readonly VITE_PROXY_TOKEN?: string;
+}